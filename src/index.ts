@@ -8,6 +8,13 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema, } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { isDeepStrictEqual } from 'util';
+import YAML from 'yaml';
 // 环境变量验证
 const APIPOST_TOKEN = process.env.APIPOST_TOKEN;
 if (!APIPOST_TOKEN) {
@@ -20,6 +27,7 @@ const APIPOST_DEFAULT_TEAM_NAME = process.env.APIPOST_DEFAULT_TEAM_NAME;
 const APIPOST_DEFAULT_PROJECT_NAME = process.env.APIPOST_DEFAULT_PROJECT_NAME;
 const APIPOST_INLINE_COMMENTS = (process.env.APIPOST_INLINE_COMMENTS || 'false').toLowerCase() === 'true';
 const APIPOST_URL_PREFIX = process.env.APIPOST_URL_PREFIX || ''; // URL前缀，如 {{host}}
+const APIPOST_STORAGE_DIR = process.env.APIPOST_STORAGE_DIR || path.join(os.homedir(), '.apipost-mcp'); // 本地回收站、修订历史等数据目录
 // API客户端
 const apiClient = axios.create({
     baseURL: APIPOST_HOST,
@@ -47,14 +55,21 @@ function applyUrlPrefix(url) {
     if (!url || !APIPOST_URL_PREFIX) return url;
     // 如果url已经包含了前缀，则不重复添加
     if (url.startsWith(APIPOST_URL_PREFIX)) return url;
+    // 完整地址（http://...）或已带 {{变量}} 主机的 URL（如 Postman 的 {{baseUrl}}）保持原样
+    if (/^(\{\{|[a-z][a-z0-9+.-]*:\/\/)/i.test(url)) return url;
     // 确保拼接时斜杠正确处理
     const prefix = APIPOST_URL_PREFIX.endsWith('/') ? APIPOST_URL_PREFIX.slice(0, -1) : APIPOST_URL_PREFIX;
     const path = url.startsWith('/') ? url : '/' + url;
     return prefix + path;
 }
-// 生成ID
+// 生成ID（批量创建时同一毫秒内可能重复，保证单进程内递增唯一）
+let lastGeneratedId = 0;
 function generateId() {
-    return (Date.now() + Math.floor(Math.random() * 10000)).toString(16);
+    let id = Date.now() + Math.floor(Math.random() * 10000);
+    if (id <= lastGeneratedId)
+        id = lastGeneratedId + 1;
+    lastGeneratedId = id;
+    return id.toString(16);
 }
 // 简洁的日志输出
 function logWithTime(message, startTime) {
@@ -242,25 +257,232 @@ function generateRequestBodyFromParams(bodyParams) {
         return {};
     return buildJsonFromFieldList(bodyParams);
 }
-// 构造 Body 区块（用于 create/update）
-function buildBodySection(bodyParams) {
-    const hasBody = Array.isArray(bodyParams) && bodyParams.length > 0;
-    const expandedFields = expandFieldListWithParents(bodyParams || []);
+// 字段类型转 JSON Schema 类型（请求体 raw_schema、响应 schema 与 OpenAPI 导出共用）
+function fieldTypeToSchema(type) {
+    const normalized = (type || 'string').toLowerCase();
+    switch (normalized) {
+        case 'string':
+        case 'integer':
+        case 'number':
+        case 'boolean':
+        case 'object':
+        case 'array':
+        case 'null':
+            return { type: normalized };
+        case 'float':
+        case 'double':
+            return { type: 'number' };
+        case 'int':
+        case 'long':
+            return { type: 'integer' };
+        case 'file':
+            return { type: 'string', format: 'binary' };
+        default:
+            return { type: 'string' };
+    }
+}
+// 将扁平字段列表（key 带 . 或 []，兼容 raw_parameter 结构）还原为嵌套 JSON Schema
+function fieldListToJsonSchema(fields) {
+    const root = { type: 'object', properties: {} };
+    if (!Array.isArray(fields))
+        return root;
+    const ensureObject = (node) => {
+        if (node.type !== 'object')
+            node.type = 'object';
+        if (!node.properties)
+            node.properties = {};
+        delete node.items;
+        return node;
+    };
+    fields.forEach(field => {
+        if (!field || !field.key)
+            return;
+        const type = field.type || field.field_type || 'string';
+        const description = field.desc || field.description || '';
+        const required = field.required ?? (field.not_null === 1);
+        const example = field.autoParent ? undefined : (field.example ?? field.value);
+        const segments = String(field.key).split('.');
+        let node = root;
+        segments.forEach((seg, index) => {
+            const isLeaf = index === segments.length - 1;
+            const isArray = seg.endsWith('[]');
+            const name = isArray ? seg.slice(0, -2) : seg;
+            ensureObject(node);
+            if (!node.properties[name]) {
+                node.properties[name] = isArray ? { type: 'array', items: {} } : (isLeaf ? {} : { type: 'object', properties: {} });
+            }
+            const prop = node.properties[name];
+            if (isArray) {
+                prop.type = 'array';
+                delete prop.properties;
+                if (!prop.items)
+                    prop.items = {};
+                if (isLeaf) {
+                    Object.assign(prop.items, fieldTypeToSchema(type));
+                    if (description)
+                        prop.items.description = description;
+                    if (example !== undefined && example !== '' && typeof example !== 'object')
+                        prop.items.examples = [example];
+                    // tags[] 必填即数组本身必填
+                    if (required)
+                        node.required = Array.from(new Set([...(node.required || []), name]));
+                }
+                else {
+                    node = ensureObject(prop.items);
+                }
+                return;
+            }
+            if (!isLeaf) {
+                node = prop;
+                return;
+            }
+            const typeSchema = fieldTypeToSchema(type);
+            if (typeSchema.type === 'object') {
+                ensureObject(prop);
+            }
+            else if (typeSchema.type === 'array') {
+                prop.type = 'array';
+                delete prop.properties;
+                if (!prop.items)
+                    prop.items = {};
+            }
+            else {
+                Object.assign(prop, typeSchema);
+                if (example !== undefined && example !== '')
+                    prop.examples = [example];
+            }
+            if (description)
+                prop.description = description;
+            if (required) {
+                node.required = Array.from(new Set([...(node.required || []), name]));
+            }
+        });
+    });
+    return root;
+}
+const BODY_MODES = ['none', 'json', 'form-data', 'urlencoded', 'xml', 'plain', 'binary'];
+// 表单模式的字段写入 parameter，其余模式写入 raw_parameter
+const FORM_BODY_MODES = ['form-data', 'urlencoded'];
+function escapeXml(text) {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+// 将示例对象转为 XML 元素（数组按元素重复标签）
+function jsonToXmlElement(value, tagName, level) {
+    const pad = '    '.repeat(level);
+    if (Array.isArray(value)) {
+        return value.map(item => jsonToXmlElement(item, tagName, level)).join('\n');
+    }
+    if (value !== null && typeof value === 'object') {
+        const keys = Object.keys(value);
+        if (keys.length === 0)
+            return `${pad}<${tagName}/>`;
+        return `${pad}<${tagName}>\n${keys.map(key => jsonToXmlElement(value[key], key, level + 1)).join('\n')}\n${pad}</${tagName}>`;
+    }
+    return `${pad}<${tagName}>${escapeXml(value ?? '')}</${tagName}>`;
+}
+// 由示例对象生成 XML 文本；只有一个对象类型的顶层字段时以它作为根元素，否则包一层 <root>
+function buildXmlFromObject(value) {
+    const keys = Object.keys(value);
+    const singleRoot = keys.length === 1 && value[keys[0]] !== null && typeof value[keys[0]] === 'object' && !Array.isArray(value[keys[0]]);
+    const body = singleRoot ? jsonToXmlElement(value[keys[0]], keys[0], 0) : jsonToXmlElement(value, 'root', 0);
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+}
+// 构造 Body 区块（用于 create/update），未指定 mode 时按是否有字段选择 json/none
+function buildBodySection(bodyParams, mode, raw) {
+    const fields = Array.isArray(bodyParams) ? bodyParams : [];
+    const hasBody = fields.length > 0;
+    const bodyMode = mode || (hasBody ? 'json' : 'none');
+    const section = {
+        mode: bodyMode,
+        parameter: [],
+        raw: '',
+        raw_parameter: [],
+        raw_schema: { type: 'object' },
+        binary: null
+    };
+    if (FORM_BODY_MODES.includes(bodyMode)) {
+        section.parameter = convertParams(fields);
+        return section;
+    }
+    if (bodyMode === 'binary') {
+        section.binary = { file_name: raw || '', content_type: 'application/octet-stream' };
+        return section;
+    }
+    if (bodyMode === 'plain') {
+        section.raw = raw || '';
+        return section;
+    }
+    if (bodyMode === 'none')
+        return section;
+    const expandedFields = expandFieldListWithParents(fields);
     const rawBody = generateRequestBodyFromParams(expandedFields);
+    section.raw_parameter = convertParams(expandedFields);
+    if (hasBody)
+        section.raw_schema = fieldListToJsonSchema(expandedFields);
+    if (bodyMode === 'xml') {
+        section.raw = raw || (hasBody ? buildXmlFromObject(rawBody) : '');
+        return section;
+    }
     const descMap = buildDescMap(expandedFields);
-    const rawString = hasBody
+    section.raw = hasBody
         ? (APIPOST_INLINE_COMMENTS
             ? stringifyWithComments(rawBody, descMap)
             : JSON.stringify(rawBody, null, 4))
         : '';
-    return {
-        mode: hasBody ? 'json' : 'none',
-        parameter: [],
-        raw: rawString,
-        raw_parameter: convertParams(expandedFields),
-        raw_schema: { type: 'object' },
-        binary: null
-    };
+    return section;
+}
+// 校验 Body 模式与字段、原始内容是否匹配
+function ensureBodyModeFields(mode, fields, raw) {
+    const bodyFields = Array.isArray(fields) ? fields : [];
+    if (!BODY_MODES.includes(mode)) {
+        throw new Error(`不支持的 body_mode: ${mode}，可用: ${BODY_MODES.join(', ')}`);
+    }
+    const fileFields = bodyFields.filter(f => f && f.type === 'file').map(f => f.key);
+    if (fileFields.length > 0 && mode !== 'form-data') {
+        throw new Error(`file 类型字段（${fileFields.join(', ')}）仅支持 form-data 模式`);
+    }
+    if (['none', 'plain', 'binary'].includes(mode) && bodyFields.length > 0) {
+        throw new Error(`${mode} 模式不使用 body 字段列表${mode === 'none' ? '' : '，请通过 body_raw 提供内容'}`);
+    }
+    if (mode === 'plain' && !raw) {
+        throw new Error('plain 模式需要通过 body_raw 提供请求体文本');
+    }
+    if (raw && !['xml', 'plain', 'binary'].includes(mode)) {
+        throw new Error('body_raw 仅用于 xml、plain、binary 模式');
+    }
+}
+// 将 ApiPost 参数结构还原为字段列表
+function parametersToFieldList(parameters) {
+    return (parameters || []).filter(p => p && p.key).map(p => ({
+        key: p.key,
+        type: p.field_type || 'string',
+        required: p.not_null === 1,
+        example: p.value === '' ? undefined : p.value,
+        desc: p.description || ''
+    }));
+}
+function isJsonContentType(contentType) {
+    return /[/+]json\b/i.test(String(contentType || ''));
+}
+// 非 JSON 响应按内容类型由字段生成示例：CSV 为表头 + 一行数据，SSE 为一条 data 为 JSON 的事件，XML 复用请求体生成逻辑
+function buildNonJsonResponseExample(contentType, fields) {
+    if (fields.length === 0)
+        return '';
+    const data = buildJsonFromFieldList(fields);
+    if (/xml/i.test(contentType))
+        return buildXmlFromObject(data);
+    if (/event-stream/i.test(contentType))
+        return `event: message\ndata: ${JSON.stringify(data)}\n\n`;
+    const columns = Object.keys(data);
+    const toText = (value) => value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? '');
+    if (/csv/i.test(contentType)) {
+        const csvCell = (value) => {
+            const text = toText(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        return `${columns.map(csvCell).join(',')}\n${columns.map(key => csvCell(data[key])).join(',')}`;
+    }
+    return columns.map(key => `${key}: ${toText(data[key])}`).join('\n');
 }
 // 统一响应数据转换
 function generateResponseData(responseConfig) {
@@ -308,7 +530,7 @@ function normalizeResponses(responses, options = {}) {
                         is_default: 1,
                         mock: JSON.stringify(defaultData),
                         name: '成功响应',
-                        schema: { type: 'object', properties: {} },
+                        schema: fieldListToJsonSchema(jsonToFieldList(defaultData)),
                         verify_type: 'schema',
                         sleep: 0
                     }
@@ -321,37 +543,41 @@ function normalizeResponses(responses, options = {}) {
         return { example: responses, is_check_result: isCheckResult };
     }
     // 简化格式 -> ApiPost 兼容格式
-    const converted = responses.map((resp, index) => ({
-        example_id: String(index + 1),
-        raw: (() => {
-            const fields = Array.isArray(resp.fields) ? resp.fields : [];
-            if (fields.length === 0) {
-                throw new Error('responses.fields 必填且不能为空，data 字段已禁用，请提供字段列表');
-            }
-            const expandedFields = expandFieldListWithParents(fields);
-            const descMap = buildDescMap(expandedFields);
-            const rawData = buildJsonFromFieldList(expandedFields);
-            return APIPOST_INLINE_COMMENTS && expandedFields.length > 0
-                ? stringifyWithComments(rawData, descMap)
-                : JSON.stringify(rawData, null, 4);
-        })(),
-        raw_parameter: convertParams(expandFieldListWithParents(resp.fields || [])),
-        headers: [],
-        expect: {
-            code: String(resp.status ?? 200),
-            content_type: 'application/json',
-            is_default: index === 0 ? 1 : -1,
-            mock: JSON.stringify(buildJsonFromFieldList(expandFieldListWithParents(resp.fields || []))),
-            name: resp.name || (index === 0 ? '成功响应' : `响应${index + 1}`),
-            schema: resp.schema || { type: 'object', properties: {} },
-            verify_type: 'schema',
-            sleep: 0
+    const converted = responses.map((resp, index) => {
+        const contentType = resp.content_type || 'application/json';
+        const fields = Array.isArray(resp.fields) ? resp.fields : [];
+        const expandedFields = expandFieldListWithParents(fields);
+        const isJson = isJsonContentType(contentType);
+        if (isJson && fields.length === 0) {
+            throw new Error('responses.fields 必填且不能为空，data 字段已禁用，请提供字段列表');
         }
-    }));
+        const raw = isJson
+            ? (APIPOST_INLINE_COMMENTS && expandedFields.length > 0
+                ? stringifyWithComments(buildJsonFromFieldList(expandedFields), buildDescMap(expandedFields))
+                : JSON.stringify(buildJsonFromFieldList(expandedFields), null, 4))
+            : (resp.example ?? buildNonJsonResponseExample(contentType, expandedFields));
+        return {
+            example_id: String(index + 1),
+            raw,
+            raw_parameter: convertParams(expandedFields),
+            headers: convertParams(resp.headers || []),
+            expect: {
+                code: String(resp.status ?? 200),
+                content_type: contentType,
+                is_default: index === 0 ? 1 : -1,
+                mock: isJson ? JSON.stringify(buildJsonFromFieldList(expandedFields)) : raw,
+                name: resp.name || (index === 0 ? '成功响应' : `响应${index + 1}`),
+                // 非 JSON 响应（CSV、SSE、XML 等）的响应体是文本，fields 只用于文档说明，按字符串校验
+                schema: resp.schema || (isJson ? fieldListToJsonSchema(expandedFields) : { type: 'string' }),
+                verify_type: 'schema',
+                sleep: 0
+            }
+        };
+    });
     return { example: converted, is_check_result: isCheckResult };
 }
 // 构建项目路径映射
-function buildPathMap(allItems) {
+function buildPathMap(allItems, cycles) {
     const pathMap = new Map();
     const itemMap = new Map();
     // 建立ID到项目的映射
@@ -365,7 +591,10 @@ function buildPathMap(allItems) {
         }
         // 检测循环引用
         if (visited.has(targetId)) {
-            console.warn(`检测到循环引用: ${targetId}`);
+            if (cycles)
+                cycles.push(targetId);
+            else
+                console.warn(`检测到循环引用: ${targetId}`);
             return [];
         }
         const item = itemMap.get(targetId);
@@ -388,6 +617,122 @@ function buildPathMap(allItems) {
     });
     return pathMap;
 }
+// 规划移动：模拟新的父子关系并借助 buildPathMap 的循环检测，拒绝把目录移入自身或其子目录；指定 position 时重排目标目录内的 sort（越小越靠前）
+function planMove(allItems, targetIds, destinationId, position) {
+    const itemMap = new Map(allItems.map(item => [item.target_id, item]));
+    const moveIds = new Set(targetIds);
+    targetIds.forEach(id => {
+        if (!itemMap.has(id))
+            throw new Error(`未找到要移动的项目 (ID: ${id})`);
+    });
+    if (destinationId !== '0' && itemMap.get(destinationId)?.target_type !== 'folder') {
+        throw new Error(`目标目录不存在或不是目录 (ID: ${destinationId})`);
+    }
+    const simulated = allItems.map(item => moveIds.has(item.target_id) ? { ...item, parent_id: destinationId } : item);
+    const cycles = [];
+    const pathMap = buildPathMap(simulated, cycles);
+    if (cycles.length > 0) {
+        const names = [...new Set(cycles)].map(id => itemMap.get(id)?.name || id);
+        throw new Error(`移动会形成循环引用，目录不能移动到自身或其子目录下: ${names.join(', ')}`);
+    }
+    const siblings = simulated
+        .filter(item => (item.parent_id || '0') === destinationId && !moveIds.has(item.target_id))
+        .sort((a, b) => (a.sort ?? 0) - (b.sort ?? 0));
+    const movedItems = targetIds.map(id => itemMap.get(id));
+    const sortUpdates = new Map();
+    if (position === undefined) {
+        // 未指定位置时追加到末尾，不改动已有兄弟节点
+        const maxSort = siblings.reduce((max, item) => Math.max(max, item.sort ?? 0), 0);
+        movedItems.forEach((item, index) => sortUpdates.set(item.target_id, maxSort + index + 1));
+    }
+    else {
+        const insertAt = Math.max(0, Math.min(Number(position) || 0, siblings.length));
+        const ordered = [...siblings.slice(0, insertAt), ...movedItems, ...siblings.slice(insertAt)];
+        ordered.forEach((item, index) => {
+            if (moveIds.has(item.target_id) || (item.sort ?? 0) !== index + 1)
+                sortUpdates.set(item.target_id, index + 1);
+        });
+    }
+    return { itemMap, pathMap, sortUpdates };
+}
+// URL 以 prefix 开头且在路径段边界结束（其后为 / ? # 或结尾）时返回剩余部分，否则返回 null，避免 /v1 命中 /v10
+function stripUrlPrefix(url, prefix) {
+    if (!url.startsWith(prefix))
+        return null;
+    const next = url.charAt(prefix.length);
+    return prefix.endsWith('/') || !next || '/?#'.includes(next) ? url.slice(prefix.length) : null;
+}
+// 替换 URL 前缀（兼容已拼接 APIPOST_URL_PREFIX 的 URL），只在路径段边界匹配；不匹配时返回 null
+function rewriteUrlPrefix(url, from, to) {
+    const candidates = APIPOST_URL_PREFIX && url.startsWith(APIPOST_URL_PREFIX) ? [APIPOST_URL_PREFIX, ''] : [''];
+    for (const base of candidates) {
+        const rest = stripUrlPrefix(url.slice(base.length), from);
+        if (rest !== null) {
+            return base + to + rest;
+        }
+    }
+    return null;
+}
+// URL 前缀迁移：先按段边界匹配 from；from 为空时匹配未带前缀的路径（非 {{变量}}、非 http(s):// 开头）。
+// 新前缀包含旧前缀（如 /api → /api/v2）时，已在新前缀下的 URL 不重复迁移；不匹配时返回 null
+function migrateUrlPrefix(url, from, to) {
+    if (!url)
+        return null;
+    const alreadyMigrated = to && stripUrlPrefix(url, to) !== null;
+    let rest;
+    if (from) {
+        rest = stripUrlPrefix(url, from);
+        if (rest === null || (alreadyMigrated && stripUrlPrefix(to, from) !== null))
+            return null;
+    }
+    else {
+        if (alreadyMigrated || /^(\{\{|[a-z][a-z0-9+.-]*:\/\/)/i.test(url))
+            return null;
+        rest = url.startsWith('/') ? url : '/' + url;
+    }
+    const migrated = (to.endsWith('/') && rest.startsWith('/') ? to.slice(0, -1) : to) + rest;
+    return migrated === url ? null : migrated;
+}
+// 为 URL 匹配旧前缀的接口生成迁移模板，URL 已是完整地址，不再补全局前缀
+function planUrlMigration(details, from, to) {
+    return details
+        .map(detail => ({ detail, url: migrateUrlPrefix(detail.url || '', from, to) }))
+        .filter(plan => plan.url !== null)
+        .map(plan => {
+            const { updateTemplate } = buildUpdateTemplate(plan.detail, {});
+            updateTemplate.url = plan.url;
+            return { ...plan, template: updateTemplate };
+        });
+}
+// 迁移记录：本次成功修改的接口及原 URL，便于核对或反向迁移
+function buildMigrationRecord(projectId, from, to, plans, results) {
+    return {
+        migration_id: generateId(),
+        migrated_at: new Date().toISOString(),
+        project_id: projectId,
+        from_prefix: from,
+        to_prefix: to,
+        items: plans
+            .filter((plan, index) => results[index].success)
+            .map(plan => ({ target_id: plan.detail.target_id, name: plan.detail.name, method: plan.detail.method, before: plan.detail.url, after: plan.url }))
+    };
+}
+// 基于接口/目录详情生成副本模板：新ID、新父目录，可替换名称与 URL 前缀
+function buildCloneTemplate(detail, newId, parentId, options = {}) {
+    const template = detail.target_type === 'folder'
+        ? buildFolderUpdateTemplate(detail, {}).updateTemplate
+        : buildUpdateTemplate(detail, {}).updateTemplate;
+    template.target_id = newId;
+    template.parent_id = parentId;
+    template.version = 1;
+    template.is_conflicted = -1;
+    if (options.nameFrom)
+        template.name = template.name.split(options.nameFrom).join(options.nameTo || '');
+    if (detail.target_type !== 'folder' && options.urlFrom) {
+        template.url = rewriteUrlPrefix(template.url || '', options.urlFrom, options.urlTo || '') ?? template.url;
+    }
+    return template;
+}
 // 递归获取子项目
 function getChildrenRecursively(items, parentId, maxDepth, currentDepth = 0) {
     if (maxDepth !== undefined && currentDepth >= maxDepth) {
@@ -402,6 +747,28 @@ function getChildrenRecursively(items, parentId, maxDepth, currentDepth = 0) {
     });
     return result;
 }
+// 展开待删除项：recursive 时目录连同其下所有子项一起删除，未找到的ID单独返回
+function planDelete(allItems, ids, recursive) {
+    const itemMap = new Map(allItems.map(item => [item.target_id, item]));
+    const affected = new Map();
+    const missing = [];
+    ids.forEach(id => {
+        const item = itemMap.get(id);
+        if (!item) {
+            missing.push(id);
+            return;
+        }
+        affected.set(id, item);
+        if (recursive && item.target_type === 'folder') {
+            getChildrenRecursively(allItems, id).forEach(child => affected.set(child.target_id, child));
+        }
+    });
+    return { affected: [...affected.values()], missing };
+}
+// 删除确认令牌由受影响的ID集合计算，预览后目录内容发生变化时令牌随之失效
+function buildDeleteConfirmToken(ids) {
+    return crypto.createHash('sha256').update([...ids].sort().join(',')).digest('hex').slice(0, 12);
+}
 // 按目录分组项目
 function groupByFolder(items, allItems) {
     const groups = {};
@@ -421,7 +788,7 @@ function groupByFolder(items, allItems) {
     return groups;
 }
 // 构建层级结构显示
-function buildListDisplay(items, totalCount, filteredCount, showStructure, searchKeyword, parentId, targetType, isLimited, limit, showPath, recursive, depth, groupByFolderFlag, allItems) {
+function buildListDisplay(items, totalCount, filteredCount, showStructure, searchKeyword, parentId, targetType, isLimited, limit, showPath, recursive, depth, groupByFolderFlag, allItems, methodFilter = []) {
     let listText = '';
     // 标题信息
     if (recursive) {
@@ -445,6 +812,8 @@ function buildListDisplay(items, totalCount, filteredCount, showStructure, searc
         filterInfo.push(`父目录: ${parentId === '0' ? '根目录' : parentId}`);
     if (targetType && targetType !== 'all')
         filterInfo.push(`类型: ${targetType}`);
+    if (methodFilter.length > 0)
+        filterInfo.push(`方法: ${methodFilter.join(',')}`);
     if (recursive)
         filterInfo.push(`递归搜索: 是`);
     if (depth !== undefined)
@@ -679,10 +1048,70 @@ function ensureResponsesFieldsHaveDesc(responses) {
         if (resp && Array.isArray(resp.fields)) {
             ensureFieldsHaveDesc(resp.fields, `responses[${index}].fields`);
         }
-        else {
+        else if (!resp || resp.fields !== undefined || isJsonContentType(resp.content_type || 'application/json')) {
             throw new Error(`responses[${index}] 未提供 fields 或格式不正确`);
         }
+        if (resp.headers !== undefined) {
+            if (!Array.isArray(resp.headers))
+                throw new Error(`responses[${index}].headers 必须是字段列表数组`);
+            ensureFieldsHaveDesc(resp.headers, `responses[${index}].headers`);
+        }
+        if (resp.example !== undefined && typeof resp.example !== 'string') {
+            throw new Error(`responses[${index}].example 必须是字符串`);
+        }
+        if (resp.example !== undefined && isJsonContentType(resp.content_type || 'application/json')) {
+            throw new Error(`responses[${index}].example 仅用于非 JSON 响应，JSON 响应请使用 fields`);
+        }
+    });
+}
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE', 'CONNECT'];
+// 通常不带请求体的方法
+const METHODS_WITHOUT_BODY = ['GET', 'HEAD'];
+// 规范 HTTP 方法：统一大写，允许标准方法与自定义方法（如 PURGE、PROPFIND）
+function normalizeHttpMethod(method) {
+    const normalized = String(method || '').trim().toUpperCase();
+    if (!/^[A-Z][A-Z0-9_-]*$/.test(normalized)) {
+        throw new Error(`无效的HTTP方法: ${method}，支持 ${HTTP_METHODS.join('/')} 或自定义方法（如 PURGE）`);
+    }
+    return normalized;
+}
+function ensureMethodAllowsBody(method, body, bodyMode) {
+    if (METHODS_WITHOUT_BODY.includes(method) && ((Array.isArray(body) && body.length > 0) || (bodyMode && bodyMode !== 'none'))) {
+        throw new Error(`${method} 请求不能携带 Body，请改用 query 参数`);
+    }
+}
+// 提取 URL 中的路径参数名（支持 {id} 与 :id，忽略 {{变量}} 与域名端口）
+function extractPathVariables(url) {
+    const names = [];
+    const pathPart = String(url || '')
+        .split('?')[0]
+        .replace(/\{\{[^}]*\}\}/g, '')
+        .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '');
+    const pattern = /\{([A-Za-z_][\w-]*)\}|(?:^|\/):([A-Za-z_][\w-]*)/g;
+    let match;
+    while ((match = pattern.exec(pathPart)) !== null) {
+        const name = match[1] || match[2];
+        if (!names.includes(name))
+            names.push(name);
+    }
+    return names;
+}
+// 校验路径参数：URL 中的变量都必须有 desc，声明的变量必须出现在 URL 中；按 URL 中的顺序返回
+function resolveRestfulParams(url, restful) {
+    const variables = extractPathVariables(url);
+    const provided = Array.isArray(restful) ? restful.filter(p => p && p.key) : [];
+    const unknown = provided.filter(p => !variables.includes(p.key)).map(p => p.key);
+    if (unknown.length > 0) {
+        throw new Error(`restful 中的参数 ${unknown.join(', ')} 不在 URL 中（${url}），路径参数需写成 {id} 或 :id`);
+    }
+    const undescribed = variables.filter(v => {
+        const param = provided.find(p => p.key === v);
+        return !param || !(param.desc || param.description);
     });
+    if (undescribed.length > 0) {
+        throw new Error(`URL 中的路径参数 ${undescribed.join(', ')} 缺少 desc，请通过 restful 提供，如 [{"key":"${undescribed[0]}","type":"string","example":"1","desc":"资源ID"}]`);
+    }
+    return variables.map(v => ({ required: true, ...provided.find(p => p.key === v) }));
 }
 // 构建配置对象，同时记录哪些字段被明确提供了
 function buildApiConfig(args) {
@@ -707,11 +1136,24 @@ function buildApiConfig(args) {
         ensureFieldsHaveDesc(config.body, 'body');
         providedFields.add('body');
     }
+    if (args.body_mode !== undefined) {
+        config.body_mode = args.body_mode;
+        providedFields.add('body_mode');
+    }
+    if (args.body_raw !== undefined) {
+        config.body_raw = args.body_raw;
+        providedFields.add('body_raw');
+    }
     if (args.cookies !== undefined) {
         config.cookies = parseConfigParam(args.cookies);
         ensureFieldsHaveDesc(config.cookies, 'cookies');
         providedFields.add('cookies');
     }
+    if (args.restful !== undefined) {
+        config.restful = parseConfigParam(args.restful);
+        ensureFieldsHaveDesc(config.restful, 'restful');
+        providedFields.add('restful');
+    }
     if (args.auth !== undefined) {
         config.auth = parseApiConfig(args.auth);
         providedFields.add('auth');
@@ -748,7 +1190,7 @@ function generateApiTemplate(method, url, name, config = {}) {
                 query_add_equal: 1,
                 parameter: convertParams(config.query || [])
             },
-            body: buildBodySection(config.body || []),
+            body: buildBodySection(config.body || [], config.body_mode, config.body_raw),
             cookie: {
                 cookie_encode: 1,
                 parameter: convertParams(config.cookies || [])
@@ -757,277 +1199,4453 @@ function generateApiTemplate(method, url, name, config = {}) {
                 parameter: convertParams(config.restful || [])
             }
         },
-        response: normalizeResponses(config.responses, { useDefaultWhenMissing: true, keepEmpty: true, isCheckResult: 1 }),
+        // HEAD 响应没有响应体，不生成默认响应示例
+        response: normalizeResponses(config.responses, { useDefaultWhenMissing: method !== 'HEAD', keepEmpty: true, isCheckResult: 1 }),
         attribute_info: config.attribute_info || {},
         tags: config.tags || []
     };
 }
-// 工作空间信息
-let currentWorkspace = null;
-// 初始化工作空间
-async function initWorkspace(startTime) {
+// 构建创建模板（apipost_smart_create 使用的参数格式）
+function buildCreateTemplate(args) {
+    const { config } = buildApiConfig(args);
+    const method = normalizeHttpMethod(args.method);
+    ensureBodyModeFields(config.body_mode || (config.body?.length ? 'json' : 'none'), config.body, config.body_raw);
+    ensureMethodAllowsBody(method, config.body, config.body_mode);
+    config.restful = resolveRestfulParams(args.url, config.restful);
+    const template = generateApiTemplate(method, args.url, args.name, config);
+    template.project_id = currentWorkspace?.projectId;
+    // 设置父目录ID
+    template.parent_id = args.parent_id || '0';
+    return { template, config };
+}
+// 批量创建条目中的字段列表可直接写数组/对象，统一转成单接口创建使用的 JSON 字符串
+const BATCH_JSON_FIELDS = ['headers', 'query', 'body', 'cookies', 'restful', 'auth', 'responses'];
+function normalizeBatchApiArgs(item) {
+    const normalized = { ...item };
+    BATCH_JSON_FIELDS.forEach(key => {
+        if (normalized[key] !== undefined && typeof normalized[key] !== 'string')
+            normalized[key] = JSON.stringify(normalized[key]);
+    });
+    return normalized;
+}
+// 批量创建：校验全部条目并生成创建模板，返回可创建的条目与逐项错误
+function prepareBatchEntries(apis, parentId) {
+    const entries = [];
+    const errors = [];
+    apis.forEach((item, index) => {
+        const itemLabel = `apis[${index}]${item?.name ? ` ${item.name}` : ''}`;
+        try {
+            if (!item || typeof item !== 'object' || Array.isArray(item)) {
+                throw new Error('必须是接口定义对象');
+            }
+            const missingFields = ['method', 'url', 'name'].filter(key => !item[key]);
+            if (missingFields.length > 0) {
+                throw new Error(`缺少 ${missingFields.join(', ')}`);
+            }
+            const { template } = buildCreateTemplate({ ...normalizeBatchApiArgs(item), parent_id: item.parent_id || parentId });
+            entries.push({
+                template,
+                folderPath: item.folder_path ? String(item.folder_path) : '',
+                label: `[${template.method}] ${template.url} ${template.name}`
+            });
+        }
+        catch (error) {
+            errors.push(`${itemLabel}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    return { entries, errors };
+}
+// 字段补丁可作用的区块：参数名 -> ApiPost request 中的区块
+const PATCH_SECTIONS = { headers: 'header', query: 'query', body: 'body', cookies: 'cookie', restful: 'restful', responses: 'response' };
+const PATCH_OPS = ['add', 'remove', 'modify', 'rename'];
+// 解析并校验字段补丁：[{"op":"modify","section":"body","key":"user.name","desc":"姓名"}]
+function parsePatchOperations(patchJson) {
+    let patches;
     try {
-        logWithTime('📈 获取团队列表...', startTime);
-        const teamsResult = await apiClient.get('/open/team/list');
-        if (!teamsResult.data.data || teamsResult.data.data.length === 0) {
-            console.error('📋 获取团队列表原始数据:', JSON.stringify(teamsResult.data, null, 2));
-            throw new Error('未找到可用团队');
+        patches = JSON.parse(patchJson);
+    }
+    catch {
+        throw new Error('patch 不是有效的 JSON 数组');
+    }
+    if (!Array.isArray(patches) || patches.length === 0) {
+        throw new Error('patch 必须是非空数组');
+    }
+    patches.forEach((patch, index) => {
+        const context = `patch[${index}]`;
+        if (!patch || !PATCH_OPS.includes(patch.op)) {
+            throw new Error(`${context}.op 必须是 ${PATCH_OPS.join('/')} 之一`);
         }
-        // 选择团队：优先使用指定的团队名称，否则使用第一个
-        let selectedTeam = teamsResult.data.data[0];
-        if (APIPOST_DEFAULT_TEAM_NAME) {
-            const targetTeam = teamsResult.data.data.find((team) => team.name === APIPOST_DEFAULT_TEAM_NAME);
-            if (targetTeam) {
-                selectedTeam = targetTeam;
-                logWithTime(`🎯 使用指定团队: ${APIPOST_DEFAULT_TEAM_NAME}`, startTime);
+        if (!Object.hasOwn(PATCH_SECTIONS, patch.section)) {
+            throw new Error(`${context}.section 必须是 ${Object.keys(PATCH_SECTIONS).join('/')} 之一`);
+        }
+        if (!patch.key) {
+            throw new Error(`${context} 缺少 key`);
+        }
+        if (patch.section === 'responses' && patch.response === undefined) {
+            throw new Error(`${context} 修改响应字段时需要通过 response 指定响应示例名称或状态码`);
+        }
+        if (patch.op === 'add' && !patch.desc) {
+            throw new Error(`${context} 新增字段 ${patch.key} 缺少 desc`);
+        }
+        if (patch.op === 'modify' && patch.desc === '') {
+            throw new Error(`${context} 不能把 ${patch.key} 的 desc 改为空`);
+        }
+        if (patch.op === 'rename' && !patch.to) {
+            throw new Error(`${context} 重命名需要提供 to`);
+        }
+    });
+    return patches;
+}
+// 判断 key 是否为目标字段本身或其子字段（items、items[]、items[].id、items.id）
+function isFieldOrDescendant(key, target) {
+    return key === target || key.startsWith(`${target}.`) || key.startsWith(`${target}[]`);
+}
+// 对字段列表应用单个补丁，返回新列表；删除与重命名同时作用于子字段
+function applyFieldPatch(fields, patch, context) {
+    const index = fields.findIndex(field => field.key === patch.key);
+    if (patch.op !== 'add' && index === -1) {
+        throw new Error(`${context} 中不存在字段 ${patch.key}`);
+    }
+    switch (patch.op) {
+        case 'add': {
+            if (index !== -1) {
+                throw new Error(`${context} 中已存在字段 ${patch.key}，修改请使用 modify`);
             }
-            else {
-                logWithTime(`⚠️ 未找到指定团队 "${APIPOST_DEFAULT_TEAM_NAME}"，使用默认团队`, startTime);
+            const field = { key: patch.key, type: patch.type || 'string', required: !!patch.required, example: patch.example, desc: patch.desc };
+            // 插入到同级字段之后，保持父子字段相邻
+            const parentKey = patch.key.replace(/(\[\])?(\.[^.]*)?$/, '').replace(/\[\]$/, '');
+            let insertAt = fields.length;
+            if (parentKey && parentKey !== patch.key) {
+                const lastSibling = fields.map(f => f.key).findLastIndex(key => isFieldOrDescendant(key, parentKey));
+                if (lastSibling !== -1)
+                    insertAt = lastSibling + 1;
             }
+            return [...fields.slice(0, insertAt), field, ...fields.slice(insertAt)];
         }
-        logWithTime(`✅ 选中团队
-团队名称: ${selectedTeam.name}
-团队ID: ${selectedTeam.team_id}`, startTime);
-        logWithTime('📁 获取项目列表...', startTime);
-        const projectsResult = await apiClient.get('/open/project/list', {
-            params: { team_id: selectedTeam.team_id, action: 0 }
-        });
-        if (!projectsResult.data.data || projectsResult.data.data.length === 0) {
-            throw new Error('未找到可用项目');
-        }
-        // 选择项目：优先使用指定的项目名称，否则使用第一个
-        let selectedProject = projectsResult.data.data[0];
-        if (APIPOST_DEFAULT_PROJECT_NAME) {
-            const targetProject = projectsResult.data.data.find((project) => project.name === APIPOST_DEFAULT_PROJECT_NAME);
-            if (targetProject) {
-                selectedProject = targetProject;
-                logWithTime(`🎯 使用指定项目: ${APIPOST_DEFAULT_PROJECT_NAME}`, startTime);
+        case 'remove':
+            return fields.filter(field => !isFieldOrDescendant(field.key, patch.key));
+        case 'modify':
+            return fields.map((field, i) => {
+                if (i !== index)
+                    return field;
+                const modified = { ...field };
+                if (patch.type !== undefined)
+                    modified.type = patch.type;
+                if (patch.desc !== undefined)
+                    modified.desc = patch.desc;
+                if (patch.required !== undefined)
+                    modified.required = !!patch.required;
+                if (patch.example !== undefined)
+                    modified.example = patch.example;
+                return modified;
+            });
+        case 'rename':
+            if (fields.some(field => field.key === patch.to)) {
+                throw new Error(`${context} 中已存在字段 ${patch.to}`);
             }
-            else {
-                logWithTime(`⚠️ 未找到指定项目 "${APIPOST_DEFAULT_PROJECT_NAME}"，使用默认项目`, startTime);
+            return fields.map(field => isFieldOrDescendant(field.key, patch.key)
+                ? { ...field, key: patch.to + field.key.slice(patch.key.length) }
+                : field);
+    }
+}
+// 将字段补丁应用到请求区块与响应示例上，并重新生成 Body raw/schema 与响应 raw/mock/schema
+function applyUpdatePatches(request, responseSection, patches) {
+    const patchedRequest = { ...request };
+    const patchedExamples = [...(responseSection.example || [])];
+    const sectionFields = new Map();
+    const exampleFields = new Map();
+    patches.forEach((patch, index) => {
+        const context = `patch[${index}] (${patch.section})`;
+        if (patch.section === 'responses') {
+            const exampleIndex = patchedExamples.findIndex(example => example.expect?.name === patch.response || String(example.expect?.code) === String(patch.response));
+            if (exampleIndex === -1) {
+                throw new Error(`${context} 未找到响应示例: ${patch.response}`);
             }
+            const fields = exampleFields.get(exampleIndex) || parametersToFieldList(patchedExamples[exampleIndex].raw_parameter);
+            exampleFields.set(exampleIndex, applyFieldPatch(fields, patch, `响应 ${patch.response}`));
+            return;
         }
-        logWithTime(`
-✅ 选中项目
-项目名称: ${selectedProject.name}
-项目ID: ${selectedProject.project_id}`, startTime);
-        currentWorkspace = {
-            teamId: selectedTeam.team_id,
-            teamName: selectedTeam.name,
-            projectId: selectedProject.project_id,
-            projectName: selectedProject.name
+        const section = PATCH_SECTIONS[patch.section];
+        const bodyMode = request.body?.mode || 'none';
+        if (section === 'body' && ['plain', 'binary'].includes(bodyMode)) {
+            throw new Error(`${context} ${bodyMode} 模式的 Body 没有字段列表`);
+        }
+        const currentParams = section === 'body' ? bodyParameterList(request.body) : request[section]?.parameter;
+        const fields = sectionFields.get(section) || parametersToFieldList(currentParams);
+        sectionFields.set(section, applyFieldPatch(fields, patch, patch.section));
+    });
+    sectionFields.forEach((fields, section) => {
+        if (section === 'body') {
+            const bodyMode = request.body?.mode === 'none' ? undefined : request.body?.mode;
+            patchedRequest.body = buildBodySection(fields, bodyMode);
+        }
+        else {
+            patchedRequest[section] = { ...(request[section] || {}), parameter: convertParams(fields) };
+        }
+    });
+    exampleFields.forEach((fields, exampleIndex) => {
+        const original = patchedExamples[exampleIndex];
+        const contentType = original.expect?.content_type || 'application/json';
+        const [regenerated] = normalizeResponses([{
+                name: original.expect?.name,
+                status: original.expect?.code,
+                content_type: contentType,
+                headers: parametersToFieldList(original.headers),
+                fields,
+                example: isJsonContentType(contentType) ? undefined : (fields.length > 0 ? undefined : original.raw)
+            }]).example;
+        patchedExamples[exampleIndex] = {
+            ...regenerated,
+            example_id: original.example_id,
+            headers: original.headers || [],
+            expect: { ...original.expect, ...regenerated.expect, is_default: original.expect?.is_default ?? regenerated.expect.is_default }
         };
-        logWithTime(`✨ 工作空间初始化完成 (安全模式: ${APIPOST_SECURITY_MODE})`, startTime);
+    });
+    return { request: patchedRequest, response: { ...responseSection, example: patchedExamples } };
+}
+// 基于原接口构建增量更新模板（apipost_update 使用的参数格式），未提供的字段保持不变
+// options.urlPrefix 为 false 时 args.url 原样保存（批量正则改写的结果已是完整 URL，不再补全局前缀）
+function buildUpdateTemplate(originalApi, args, options = {}) {
+    const { urlPrefix = true } = options;
+    // 构建增量更新配置对象
+    const { config: newConfig, providedFields } = buildApiConfig(args);
+    const finalUrl = args.url ? (urlPrefix ? applyUrlPrefix(args.url) : args.url) : originalApi.url;
+    const finalMethod = args.method ? normalizeHttpMethod(args.method) : originalApi.method;
+    const warnings = [];
+    const originalBody = originalApi.request?.body || {};
+    const originalBodyMode = originalBody.mode || 'none';
+    const bodyChanged = providedFields.has('body') || providedFields.has('body_mode') || providedFields.has('body_raw');
+    let mergedBody = originalApi.request?.body || buildBodySection([]);
+    if (bodyChanged) {
+        // 未提供的部分沿用原 Body：字段来自 parameter/raw_parameter，模式不变时沿用原始内容
+        const bodyMode = newConfig.body_mode || (originalBodyMode === 'none' ? undefined : originalBodyMode);
+        const bodyFields = providedFields.has('body')
+            ? (newConfig.body || [])
+            : (['none', 'plain', 'binary'].includes(bodyMode) ? [] : parametersToFieldList(FORM_BODY_MODES.includes(originalBodyMode) ? originalBody.parameter : originalBody.raw_parameter));
+        let bodyRaw = newConfig.body_raw;
+        if (bodyRaw === undefined && bodyMode === originalBodyMode && !providedFields.has('body'))
+            bodyRaw = originalBodyMode === 'binary' ? originalBody.binary?.file_name : (originalBodyMode === 'json' ? undefined : originalBody.raw);
+        const effectiveMode = bodyMode || (bodyFields.length > 0 ? 'json' : 'none');
+        ensureBodyModeFields(effectiveMode, bodyFields, bodyRaw);
+        ensureMethodAllowsBody(finalMethod, bodyFields, effectiveMode);
+        mergedBody = buildBodySection(bodyFields, bodyMode, bodyRaw);
     }
-    catch (error) {
-        logWithTime('❌ 工作空间初始化失败: ' + error, startTime);
-        throw error;
+    // 改为 GET/HEAD 时清空原有请求体
+    if (METHODS_WITHOUT_BODY.includes(finalMethod) && !METHODS_WITHOUT_BODY.includes(originalApi.method) && originalBodyMode !== 'none' && !bodyChanged) {
+        mergedBody = buildBodySection([]);
+        warnings.push(`方法改为 ${finalMethod}，已清空原有 Body 参数`);
     }
-}
-// 创建MCP服务器
-const server = new Server({
-    name: 'apipost-mcp',
-    version: '1.0.0',
-    capabilities: { tools: {} }
-});
-// 工具定义
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
-        {
-            name: 'apipost_test_connection',
-            description: '测试ApiPost MCP连接状态和配置信息，验证服务可用性',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    random_string: { type: 'string', description: 'Dummy parameter for no-parameter tools' }
-                },
-                required: ['random_string']
-            }
+    // 修改了 URL 或路径参数时重新校验，未重新声明的变量沿用原描述
+    let mergedRestful = originalApi.request?.restful || { parameter: [] };
+    if (args.url || providedFields.has('restful')) {
+        const urlVariables = extractPathVariables(finalUrl);
+        const providedRestful = providedFields.has('restful') ? newConfig.restful : [];
+        const inheritedRestful = (originalApi.request?.restful?.parameter || [])
+            .filter(p => urlVariables.includes(p.key) && !providedRestful.some(item => item.key === p.key));
+        mergedRestful = { parameter: convertParams(resolveRestfulParams(finalUrl, [...providedRestful, ...inheritedRestful])) };
+    }
+    const mergedDescription = providedFields.has('description')
+        ? newConfig.description
+        : (originalApi.description || '');
+    const mergedRequest = {
+        auth: providedFields.has('auth') ? (newConfig.auth || { type: 'inherit' }) : (originalApi.request?.auth || { type: 'inherit' }),
+        pre_tasks: originalApi.request?.pre_tasks || [],
+        post_tasks: originalApi.request?.post_tasks || [],
+        header: {
+            parameter: providedFields.has('headers')
+                ? convertParams(newConfig.headers || [])
+                : (originalApi.request?.header?.parameter || [])
         },
-        {
-            name: 'apipost_workspace',
-            description: '工作空间管理：查看当前工作空间、列出团队和项目、切换工作空间',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    action: {
-                        type: 'string',
-                        enum: ['current', 'list_teams', 'list_projects', 'switch'],
-                        description: '操作类型：current(查看当前)、list_teams(列出团队)、list_projects(列出项目)、switch(切换工作空间)'
-                    },
-                    team_id: { type: 'string', description: '团队ID（用于list_projects或switch）' },
-                    project_id: { type: 'string', description: '项目ID（用于switch）' },
-                    team_name: { type: 'string', description: '团队名称（用于按名称切换）' },
-                    project_name: { type: 'string', description: '项目名称（用于按名称切换）' },
-                    show_details: { type: 'boolean', description: '是否显示详细信息，默认false' },
-                    show_all: { type: 'boolean', description: '是否显示所有可用的团队和项目，默认false' }
-                },
-                required: ['action']
-            }
+        query: {
+            query_add_equal: originalApi.request?.query?.query_add_equal ?? 1,
+            parameter: providedFields.has('query')
+                ? convertParams(newConfig.query || [])
+                : (originalApi.request?.query?.parameter || [])
         },
-        {
-            name: 'apipost_create_folder',
-            description: '创建API文档目录，支持在指定父目录下创建新的文件夹',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    name: { type: 'string', description: '目录名称' },
-                    parent_id: { type: 'string', description: '父目录ID，使用"0"表示根目录，默认为"0"' },
-                    description: { type: 'string', description: '目录描述（可选）' }
-                },
-                required: ['name'],
-                additionalProperties: false
-            }
+        body: mergedBody,
+        cookie: {
+            cookie_encode: originalApi.request?.cookie?.cookie_encode ?? 1,
+            parameter: providedFields.has('cookies')
+                ? convertParams(newConfig.cookies || [])
+                : (originalApi.request?.cookie?.parameter || [])
         },
-        {
-            name: 'apipost_smart_create',
-            description: 'API接口文档生成器（字段列表驱动）。规则：responses 只传 fields，不传 data；headers/query/body/cookies 统一用字段列表，嵌套用 .，数组用 []；example 填真实值（不要 JSON 字符串）；所有字段含父级都必须写 desc，父级需显式声明。例如：{"key":"data","desc":"返回体","type":"object"},{"key":"data.user","desc":"用户","type":"object"},{"key":"data.user.id","desc":"用户ID","type":"integer","example":1}',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE'], description: 'HTTP方法' },
-                    url: { type: 'string', description: '接口URL路径' },
-                    name: { type: 'string', description: '接口名称' },
-                    parent_id: { type: 'string', description: '父目录ID，使用"0"表示根目录，默认为"0"' },
-                    description: { type: 'string', description: '接口详细描述（可选）' },
-                    headers: { type: 'string', description: 'Headers字段列表字符串，格式：[{"key":"X-Request-ID","type":"string","required":false,"example":"req-1","desc":"说明"}]' },
-                    query: { type: 'string', description: 'Query字段列表字符串，格式同上。嵌套用 .，数组用 []（如 meta.flags.debug 或 items[].id）。' },
-                    body: { type: 'string', description: 'Body字段列表字符串，仅用字段列表生成 raw/参数描述，example 用真实值，不要放 JSON 字符串。' },
-                    cookies: { type: 'string', description: 'Cookies字段列表字符串，格式同上。' },
-                    auth: { type: 'string', description: '认证配置JSON字符串（可选）。格式：{"type":"bearer","bearer":{"key":"your_token"}}' },
-                    responses: { type: 'string', description: '响应字段列表字符串（必填 fields），格式：[{"name":"成功","status":200,"fields":[{"key":"code","type":"integer","example":0,"desc":"状态码"},{"key":"data.items[].id","type":"string","example":"1"}]}]' }
-                },
-                required: ['method', 'url', 'name'],
-                additionalProperties: false
-            }
+        restful: mergedRestful
+    };
+    const responseSection = providedFields.has('responses')
+        ? normalizeResponses(newConfig.responses, {
+            fallbackExamples: [],
+            useDefaultWhenMissing: false,
+            keepEmpty: true,
+            isCheckResult: originalApi.response?.is_check_result ?? 1
+        })
+        : {
+            example: originalApi.response?.example || [],
+            is_check_result: originalApi.response?.is_check_result ?? 1
+        };
+    // 字段补丁在整体替换之后应用，同一区块不能既整体替换又打补丁
+    let patchedRequest = mergedRequest;
+    let patchedResponse = responseSection;
+    if (args.patch !== undefined) {
+        const patches = parsePatchOperations(args.patch);
+        const conflicting = [...new Set(patches.map(patch => patch.section))].filter(section => providedFields.has(section));
+        if (conflicting.length > 0) {
+            throw new Error(`${conflicting.join(', ')} 不能同时整体替换和使用 patch`);
+        }
+        ({ request: patchedRequest, response: patchedResponse } = applyUpdatePatches(mergedRequest, responseSection, patches));
+        if (patches.some(patch => patch.section === 'body')) {
+            const patchedBodyFields = parametersToFieldList(bodyParameterList(patchedRequest.body));
+            ensureBodyModeFields(patchedRequest.body.mode, patchedBodyFields);
+            ensureMethodAllowsBody(finalMethod, patchedBodyFields, patchedRequest.body.mode);
+        }
+        if (patches.some(patch => patch.section === 'restful')) {
+            resolveRestfulParams(finalUrl, parametersToFieldList(patchedRequest.restful.parameter));
+        }
+        providedFields.add('patch');
+    }
+    const updateTemplate = {
+        project_id: currentWorkspace?.projectId,
+        target_id: originalApi.target_id,
+        parent_id: originalApi.parent_id || '0',
+        target_type: originalApi.target_type || 'api',
+        name: args.name || originalApi.name,
+        method: finalMethod,
+        url: finalUrl,
+        protocol: originalApi.protocol || 'http/1.1',
+        description: mergedDescription,
+        version: (originalApi.version || 0) + 1,
+        mark_id: originalApi.mark_id || '1',
+        is_force: originalApi.is_force ?? -1,
+        sort: originalApi.sort ?? 0,
+        status: originalApi.status ?? 1,
+        is_deleted: originalApi.is_deleted ?? -1,
+        is_conflicted: originalApi.is_conflicted ?? -1,
+        request: patchedRequest,
+        response: patchedResponse,
+        attribute_info: originalApi.attribute_info || {},
+        tags: originalApi.tags || []
+    };
+    return { updateTemplate, providedFields, warnings };
+}
+// 批量修改：按变换规则为单个接口生成 apipost_update 参数，无需修改时返回 null
+function buildBulkUpdateArgs(detail, transform) {
+    const updateArgs = {};
+    const patches = [];
+    const headerKeys = new Set((detail.request?.header?.parameter || []).map(param => param.key));
+    transform.removeHeaders.forEach(key => {
+        if (headerKeys.has(key))
+            patches.push({ op: 'remove', section: 'headers', key });
+    });
+    transform.addHeaders.forEach(field => {
+        patches.push({ op: headerKeys.has(field.key) ? 'modify' : 'add', section: 'headers', key: field.key, type: field.type, desc: field.desc || field.description, required: field.required, example: field.example });
+    });
+    if (patches.length > 0)
+        updateArgs.patch = JSON.stringify(patches);
+    if (transform.auth !== undefined)
+        updateArgs.auth = transform.auth;
+    if (transform.urlPattern) {
+        const replacedUrl = (detail.url || '').replace(transform.urlPattern, transform.urlReplace);
+        if (replacedUrl !== detail.url)
+            updateArgs.url = replacedUrl;
+    }
+    if (transform.descriptionPrefix && !(detail.description || '').startsWith(transform.descriptionPrefix))
+        updateArgs.description = transform.descriptionPrefix + (detail.description || '');
+    return Object.keys(updateArgs).length > 0 ? updateArgs : null;
+}
+// 批量修改确认令牌：由将被修改的接口ID、版本与变换参数计算，预览后接口被改动或参数变化时失效
+function buildBulkUpdateToken(plans, transformArgs) {
+    const signature = plans.filter(plan => plan.template).map(plan => `${plan.detail.target_id}@${plan.detail.version || 0}`).sort().join(',');
+    return crypto.createHash('sha256').update(`${signature}|${JSON.stringify(transformArgs)}`).digest('hex').slice(0, 12);
+}
+// 生成完整的认证配置骨架（各认证类型的字段均为空，默认继承父级）
+function generateAuthTemplate() {
+    return {
+        type: 'inherit',
+        kv: { key: '', value: '', in: 'header' },
+        bearer: { key: '' },
+        basic: { username: '', password: '' },
+        digest: {
+            username: '',
+            password: '',
+            realm: '',
+            nonce: '',
+            algorithm: 'MD5',
+            qop: '',
+            nc: '',
+            cnonce: '',
+            opaque: '',
+            disableRetryRequest: false
         },
-        {
-            name: 'apipost_list',
-            description: '查看项目API列表，支持强化的目录层级搜索和父子关系定位',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    search: { type: 'string', description: '搜索关键词（接口名称、URL、方法、ID、描述）' },
-                    parent_id: { type: 'string', description: '父目录ID，精确查找某个目录下的子项目。使用"0"查看根目录，使用具体ID查看子目录' },
-                    target_type: { type: 'string', enum: ['api', 'folder', 'all'], description: '项目类型筛选：api(仅接口)、folder(仅目录)、all(全部)，默认all' },
-                    show_structure: { type: 'boolean', description: '是否显示层级结构（树形展示），默认false为列表模式' },
-                    show_path: { type: 'boolean', description: '是否显示完整路径（从根目录到当前项目的完整路径），默认false' },
-                    recursive: { type: 'boolean', description: '是否递归搜索子目录（搜索指定目录及其所有子目录），默认false仅搜索当前层级' },
-                    depth: { type: 'number', description: '层级深度限制（配合recursive使用，限制搜索深度），默认无限制' },
-                    group_by_folder: { type: 'boolean', description: '是否按目录分组显示结果，默认false' },
-                    limit: { type: 'number', description: '显示数量限制（默认50，最大200）' },
-                    show_all: { type: 'boolean', description: '显示全部项目（忽略limit限制）' }
-                }
-            }
+        oauth1: {
+            consumerKey: '',
+            consumerSecret: '',
+            signatureMethod: 'HMAC-SHA1',
+            addEmptyParamsToSign: true,
+            includeBodyHash: true,
+            addParamsToHeader: false,
+            realm: '',
+            version: '1.0',
+            nonce: '',
+            timestamp: '',
+            verifier: '',
+            callback: '',
+            tokenSecret: '',
+            token: '',
+            disableHeaderEncoding: false
         },
-        {
-            name: 'apipost_update',
-            description: '修改API接口文档。规则同创建：responses 只用 fields（必填），不要传 data；headers/query/body/cookies 统一用字段列表，嵌套用 .，数组用 []，example 填真实值；所有字段含父级必须写 desc，父级需显式声明。例如：{"key":"data","desc":"返回体","type":"object"},{"key":"data.user","desc":"用户","type":"object"},{"key":"data.user.id","desc":"用户ID","type":"integer","example":1}',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    target_id: { type: 'string', description: '要修改的接口ID' },
-                    name: { type: 'string', description: '新的接口名称（可选）' },
-                    method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE'], description: '新的HTTP方法（可选）' },
-                    url: { type: 'string', description: '新的接口URL（可选）' },
-                    description: { type: 'string', description: '接口详细描述（可选）。提供空字符串""可清空描述' },
-                    headers: { type: 'string', description: 'Headers参数JSON数组字符串（可选）。提供"[]"可删除所有headers。格式：[{"key":"Content-Type","desc":"内容类型","type":"string","required":true,"example":"application/json"}]' },
-                    query: { type: 'string', description: 'Query参数JSON数组字符串（可选）。提供"[]"可删除所有query参数。格式：[{"key":"page","desc":"页码","type":"integer","required":false,"example":"1"}]' },
-                    body: { type: 'string', description: 'Body参数JSON数组字符串（可选）。提供"[]"可删除所有body参数。格式：[{"key":"name","desc":"用户名","type":"string","required":true,"example":"张三"}]' },
-                    cookies: { type: 'string', description: 'Cookies参数JSON数组字符串（可选）。提供"[]"可删除所有cookies。格式：[{"key":"session_id","desc":"会话ID","type":"string","required":false,"example":"abc123"}]' },
-                    auth: { type: 'string', description: '认证配置JSON字符串（可选）。提供"{}"可删除认证配置。格式：{"type":"bearer","bearer":{"key":"your_token"}}' },
-                    responses: { type: 'string', description: '响应示例JSON数组字符串（可选）。提供"[]"可删除所有响应示例。格式：[{"name":"成功响应","status":200,"data":{"code":0},"fields":[{"key":"code","desc":"状态码","type":"integer","example":"0"}]}]' }
-                },
-                required: ['target_id'],
-                additionalProperties: false
-            }
+        hawk: {
+            authId: '',
+            authKey: '',
+            algorithm: '',
+            user: '',
+            nonce: '',
+            extraData: '',
+            app: '',
+            delegation: '',
+            timestamp: '',
+            includePayloadHash: false
         },
-        {
-            name: 'apipost_detail',
-            description: '查看API接口的详细配置信息，包括完整的请求参数、响应格式、认证设置等。',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    target_id: { type: 'string', description: '要查看的接口ID' }
-                },
-                required: ['target_id'],
-                additionalProperties: false
-            }
+        awsv4: {
+            accessKey: '',
+            secretKey: '',
+            region: '',
+            service: '',
+            sessionToken: '',
+            addAuthDataToQuery: false
         },
-        {
-            name: 'apipost_delete',
-            description: '批量删除API接口文档，支持单个或多个接口删除。删除前先用apipost_list查看接口列表获取ID',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    api_ids: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'API接口ID数组（可从列表中获取target_id）- 支持单个["id1"]或多个["id1","id2","id3"]'
+        ntlm: {
+            username: '',
+            password: '',
+            domain: '',
+            workstation: '',
+            disableRetryRequest: false
+        },
+        edgegrid: {
+            accessToken: '',
+            clientToken: '',
+            clientSecret: '',
+            nonce: '',
+            timestamp: '',
+            baseURi: '',
+            headersToSign: ''
+        },
+        noauth: {},
+        jwt: {
+            addTokenTo: 'header',
+            algorithm: 'HS256',
+            secret: '',
+            isSecretBase64Encoded: false,
+            payload: '',
+            headerPrefix: 'Bearer',
+            queryParamKey: 'token',
+            header: ''
+        },
+        asap: {
+            alg: 'HS256',
+            iss: '',
+            aud: '',
+            kid: '',
+            privateKey: '',
+            sub: '',
+            claims: '',
+            exp: ''
+        }
+    };
+}
+// 生成目录模板，可携带子接口继承的认证与公共 Header/Query 参数
+function generateFolderTemplate(name, parentId = '0', description = '', config = {}) {
+    return {
+        target_id: generateId(),
+        parent_id: parentId,
+        target_type: 'folder',
+        name,
+        sort: 0,
+        version: 0,
+        server_id: '0',
+        status: 1,
+        is_changed: 1,
+        is_create: 1,
+        description,
+        request: {
+            header: { parameter: convertParams(config.headers || []) },
+            query: { parameter: convertParams(config.query || []) },
+            body: { parameter: [] },
+            cookie: { parameter: [] },
+            auth: mergeAuthConfig(config.auth),
+            pre_tasks: [],
+            post_tasks: []
+        },
+        is_force: -1,
+        is_deleted: -1,
+        is_conflicted: -1,
+        mark_id: '1'
+    };
+}
+// 将认证配置合并到完整骨架上，未提供认证或提供 {} 时继承父级
+function mergeAuthConfig(auth) {
+    const merged = generateAuthTemplate();
+    if (!auth || !auth.type)
+        return merged;
+    if (auth.type !== 'inherit' && !Object.hasOwn(merged, auth.type)) {
+        const supported = Object.keys(merged).map(key => key === 'type' ? 'inherit' : key);
+        throw new Error(`不支持的认证类型: ${auth.type}，可用: ${supported.join(', ')}`);
+    }
+    Object.keys(auth).forEach(key => {
+        const value = auth[key];
+        merged[key] = value && typeof value === 'object' && !Array.isArray(value) && merged[key] && typeof merged[key] === 'object'
+            ? { ...merged[key], ...value }
+            : value;
+    });
+    return merged;
+}
+// 基于原目录构建增量更新模板（apipost_update_folder 使用），未提供的字段保持不变
+function buildFolderUpdateTemplate(originalFolder, args) {
+    const { config, providedFields } = buildApiConfig({
+        description: args.description,
+        headers: args.headers,
+        query: args.query,
+        auth: args.auth
+    });
+    if (args.name !== undefined) {
+        if (!String(args.name).trim()) {
+            throw new Error('目录名称不能为空');
+        }
+        providedFields.add('name');
+    }
+    const originalRequest = originalFolder.request || {};
+    const updateTemplate = {
+        ...originalFolder,
+        project_id: currentWorkspace?.projectId,
+        name: providedFields.has('name') ? args.name : originalFolder.name,
+        description: providedFields.has('description') ? config.description : (originalFolder.description || ''),
+        version: (originalFolder.version || 0) + 1,
+        request: {
+            ...originalRequest,
+            header: {
+                ...(originalRequest.header || {}),
+                parameter: providedFields.has('headers')
+                    ? convertParams(config.headers || [])
+                    : (originalRequest.header?.parameter || [])
+            },
+            query: {
+                ...(originalRequest.query || {}),
+                parameter: providedFields.has('query')
+                    ? convertParams(config.query || [])
+                    : (originalRequest.query?.parameter || [])
+            },
+            auth: providedFields.has('auth')
+                ? mergeAuthConfig(config.auth)
+                : (originalRequest.auth || generateAuthTemplate())
+        }
+    };
+    return { updateTemplate, providedFields };
+}
+// 分析目录下接口对目录认证与公共参数的继承：认证沿父链找到最近的非 inherit 配置，同名参数以更近的一级为准
+function analyzeFolderInheritance(folder, allItems, detailMap) {
+    const itemMap = new Map(allItems.map(item => [item.target_id, item]));
+    const folderHeaders = (folder.request?.header?.parameter || []).filter(p => p && p.key).map(p => p.key);
+    const folderQuery = (folder.request?.query?.parameter || []).filter(p => p && p.key).map(p => p.key);
+    const apis = getChildrenRecursively(allItems, folder.target_id).filter(item => item.target_type === 'api');
+    return apis.map(api => {
+        // 从接口自身向上直到该目录（不含）的链路，越靠前优先级越高
+        const chain = [];
+        let currentId = api.target_id;
+        while (currentId && currentId !== folder.target_id && !chain.includes(currentId)) {
+            chain.push(currentId);
+            currentId = itemMap.get(currentId)?.parent_id;
+        }
+        const authOwnerId = chain.find(id => (detailMap.get(id)?.request?.auth?.type || 'inherit') !== 'inherit');
+        const definesParam = (id, section, key) => (detailMap.get(id)?.request?.[section]?.parameter || [])
+            .some(p => p && (section === 'header' ? String(p.key).toLowerCase() === key.toLowerCase() : p.key === key));
+        const overrides = [
+            ...folderHeaders.filter(key => chain.some(id => definesParam(id, 'header', key))).map(key => `Header ${key}`),
+            ...folderQuery.filter(key => chain.some(id => definesParam(id, 'query', key))).map(key => `Query ${key}`)
+        ];
+        return {
+            api,
+            authOwner: authOwnerId ? itemMap.get(authOwnerId) : null,
+            authType: authOwnerId ? detailMap.get(authOwnerId).request.auth.type : null,
+            overrides
+        };
+    });
+}
+// 读取本地 JSON/YAML 文件
+function readLocalDataFile(filePath) {
+    const fullPath = path.resolve(process.cwd(), filePath);
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`文件不存在: ${fullPath}`);
+    }
+    const content = fs.readFileSync(fullPath, 'utf8');
+    try {
+        return JSON.parse(content);
+    }
+    catch {
+        try {
+            return YAML.parse(content);
+        }
+        catch (error) {
+            throw new Error(`文件解析失败（仅支持 JSON/YAML）: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+const OPENAPI_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
+// 解析文档内引用，如 #/components/schemas/User、#/definitions/User
+function resolveSpecRef(spec, ref) {
+    if (typeof ref !== 'string' || !ref.startsWith('#/'))
+        return undefined;
+    return ref.slice(2).split('/').reduce((node, seg) => node?.[seg.replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+}
+// 展开 $ref，返回目标节点及引用链（用于循环检测）
+function derefSpecNode(spec, node, refStack = []) {
+    let current = node;
+    let stack = refStack;
+    while (current && current.$ref) {
+        if (stack.includes(current.$ref)) {
+            return { node: null, refStack: stack };
+        }
+        stack = [...stack, current.$ref];
+        current = resolveSpecRef(spec, current.$ref);
+    }
+    return { node: current || null, refStack: stack };
+}
+// 合并 allOf，oneOf/anyOf 取第一个分支
+function mergeSchemaComposition(spec, schema, refStack) {
+    if (!schema)
+        return {};
+    const parts = [];
+    if (Array.isArray(schema.allOf))
+        parts.push(...schema.allOf);
+    const variants = schema.oneOf || schema.anyOf;
+    if (Array.isArray(variants) && variants.length > 0)
+        parts.push(variants[0]);
+    if (parts.length === 0)
+        return schema;
+    const merged = { ...schema, properties: { ...(schema.properties || {}) }, required: [...(schema.required || [])] };
+    parts.forEach(part => {
+        const { node, refStack: partStack } = derefSpecNode(spec, part, refStack);
+        if (!node)
+            return;
+        const resolved = mergeSchemaComposition(spec, node, partStack);
+        Object.assign(merged.properties, resolved.properties || {});
+        merged.required.push(...(resolved.required || []));
+        if (!merged.type && resolved.type)
+            merged.type = resolved.type;
+        if (!merged.items && resolved.items)
+            merged.items = resolved.items;
+        if (!merged.description && resolved.description)
+            merged.description = resolved.description;
+    });
+    return merged;
+}
+// 规范类型名（3.1 中 type 可以是数组）
+function getSchemaType(schema) {
+    if (!schema)
+        return 'string';
+    let type = schema.type;
+    if (Array.isArray(type))
+        type = type.find(t => t !== 'null') || 'null';
+    if (!type) {
+        if (schema.properties)
+            return 'object';
+        if (schema.items)
+            return 'array';
+        return 'string';
+    }
+    return type === 'file' ? 'string' : type;
+}
+function getSchemaExample(schema) {
+    if (!schema)
+        return undefined;
+    if (schema.example !== undefined)
+        return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0)
+        return schema.examples[0];
+    if (schema.default !== undefined)
+        return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0)
+        return schema.enum[0];
+    return undefined;
+}
+// 将 JSON Schema 的属性展开为字段列表（嵌套用 .，数组用 []）
+function schemaToFieldList(spec, schema, prefix = '', refStack = [], depth = 0) {
+    const { node, refStack: stack } = derefSpecNode(spec, schema, refStack);
+    if (!node || depth > 10)
+        return [];
+    const merged = mergeSchemaComposition(spec, node, stack);
+    const properties = merged.properties || {};
+    const requiredKeys = new Set(merged.required || []);
+    const fields = [];
+    Object.keys(properties).forEach(propName => {
+        const key = prefix ? `${prefix}.${propName}` : propName;
+        fields.push(...schemaPropertyToFields(spec, properties[propName], key, requiredKeys.has(propName), stack, depth + 1));
+    });
+    return fields;
+}
+function schemaPropertyToFields(spec, propSchema, key, required, refStack, depth) {
+    const { node, refStack: stack } = derefSpecNode(spec, propSchema, refStack);
+    const fallbackDesc = key.split('.').pop().replace(/\[\]$/, '');
+    if (!node) {
+        // 循环引用，保留父级占位
+        return [{ key, type: 'object', required, desc: propSchema?.description || fallbackDesc }];
+    }
+    const schema = mergeSchemaComposition(spec, node, stack);
+    const type = getSchemaType(schema);
+    const field = { key, type, required, desc: propSchema?.description || schema.description || schema.title || fallbackDesc };
+    if (type === 'object') {
+        return [field, ...schemaToFieldList(spec, schema, key, stack, depth)];
+    }
+    if (type === 'array') {
+        const { node: itemsNode, refStack: itemsStack } = derefSpecNode(spec, schema.items || {}, stack);
+        if (!itemsNode) {
+            return [field];
+        }
+        const items = mergeSchemaComposition(spec, itemsNode || {}, itemsStack);
+        const itemType = getSchemaType(items);
+        if (itemType === 'object') {
+            return [field, ...schemaToFieldList(spec, items, `${key}[]`, itemsStack, depth)];
+        }
+        const itemField = { key: `${key}[]`, type: itemType, required: false, desc: items.description || field.desc };
+        const itemExample = getSchemaExample(items);
+        if (itemExample !== undefined)
+            itemField.example = itemExample;
+        return [field, itemField];
+    }
+    const example = getSchemaExample(schema);
+    if (example !== undefined)
+        field.example = example;
+    return [field];
+}
+// 选择最合适的媒体类型（优先 JSON）
+function pickMediaContent(content) {
+    if (!content || typeof content !== 'object')
+        return null;
+    const types = Object.keys(content);
+    const jsonType = types.find(t => t === 'application/json') || types.find(t => t.includes('json'));
+    const selected = jsonType || types[0];
+    return selected ? { contentType: selected, media: content[selected] || {} } : null;
+}
+// 请求体媒体类型对应的表单 Body 模式，非表单返回 undefined
+function specFormBodyMode(contentType) {
+    if (/multipart\/form-data/i.test(contentType || ''))
+        return 'form-data';
+    if (/application\/x-www-form-urlencoded/i.test(contentType || ''))
+        return 'urlencoded';
+    return undefined;
+}
+// 对象 schema 中 format: binary（或 Swagger 的 type: file）的顶层属性名
+function specBinaryPropertyKeys(spec, schema) {
+    const { node, refStack } = derefSpecNode(spec, schema);
+    if (!node)
+        return new Set();
+    const properties = mergeSchemaComposition(spec, node, refStack).properties || {};
+    return new Set(Object.keys(properties).filter(key => {
+        const { node: prop } = derefSpecNode(spec, properties[key], refStack);
+        return prop && (prop.format === 'binary' || prop.type === 'file');
+    }));
+}
+// Body/响应根节点转字段列表，根节点非对象时给出提示
+function rootSchemaToFields(spec, schema, context, warnings) {
+    const { node, refStack } = derefSpecNode(spec, schema);
+    if (!node)
+        return [];
+    const merged = mergeSchemaComposition(spec, node, refStack);
+    const type = getSchemaType(merged);
+    if (type !== 'object') {
+        warnings.push(`${context} 根节点类型为 ${type}，字段列表仅支持对象根节点，已跳过`);
+        return [];
+    }
+    return schemaToFieldList(spec, merged, '', refStack);
+}
+// 参数对象转字段（Swagger 2.0 类型写在参数上，OpenAPI 3.x 写在 schema 中）
+function specParameterToField(spec, param) {
+    const { node: schemaNode } = derefSpecNode(spec, param.schema || param);
+    const schema = schemaNode || {};
+    const field = {
+        key: param.name,
+        type: getSchemaType(schema),
+        required: !!param.required,
+        desc: param.description || schema.description || param.name
+    };
+    const example = param.example !== undefined ? param.example : getSchemaExample(schema);
+    if (example !== undefined)
+        field.example = example;
+    return field;
+}
+// 计算基础路径（Swagger 2.0 basePath 或 OpenAPI 3.x servers[0] 的路径部分）
+function getSpecBasePath(spec) {
+    let basePath = '';
+    if (spec.swagger) {
+        basePath = spec.basePath || '';
+    }
+    else if (Array.isArray(spec.servers) && spec.servers[0]?.url) {
+        const serverUrl = spec.servers[0].url;
+        if (serverUrl.startsWith('/')) {
+            basePath = serverUrl;
+        }
+        else {
+            try {
+                basePath = new URL(serverUrl).pathname;
+            }
+            catch {
+                basePath = '';
+            }
+        }
+    }
+    return basePath.replace(/\/+$/, '');
+}
+// 从 OpenAPI 3.x / Swagger 2.0 文档中提取所有操作并转换为字段列表配置
+function extractOpenApiOperations(spec) {
+    const basePath = getSpecBasePath(spec);
+    const operations = [];
+    Object.keys(spec.paths || {}).forEach(pathKey => {
+        const { node: pathItem } = derefSpecNode(spec, spec.paths[pathKey]);
+        if (!pathItem)
+            return;
+        OPENAPI_METHODS.forEach(method => {
+            const operation = pathItem[method];
+            if (!operation)
+                return;
+            const warnings = [];
+            const config = {
+                description: operation.description || operation.summary || '',
+                headers: [],
+                query: [],
+                cookies: [],
+                restful: [],
+                body: [],
+                responses: []
+            };
+            // 路径级参数可被操作级同名参数覆盖
+            const paramMap = new Map();
+            [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(rawParam => {
+                const { node: param } = derefSpecNode(spec, rawParam);
+                if (param && param.name)
+                    paramMap.set(`${param.in}:${param.name}`, param);
+            });
+            paramMap.forEach(param => {
+                switch (param.in) {
+                    case 'header':
+                        config.headers.push(specParameterToField(spec, param));
+                        break;
+                    case 'query':
+                        config.query.push(specParameterToField(spec, param));
+                        break;
+                    case 'cookie':
+                        config.cookies.push(specParameterToField(spec, param));
+                        break;
+                    case 'path':
+                        config.restful.push(specParameterToField(spec, param));
+                        break;
+                    case 'body':
+                        config.body.push(...rootSchemaToFields(spec, param.schema, 'body', warnings));
+                        break;
+                    case 'formData':
+                        config.body.push({ ...specParameterToField(spec, param), ...(param.type === 'file' ? { type: 'file' } : {}) });
+                        break;
+                }
+            });
+            // Swagger 2.0 的 formData 参数：有文件或声明 multipart 时为 form-data，否则为 urlencoded
+            if ([...paramMap.values()].some(param => param.in === 'formData')) {
+                const consumes = operation.consumes || spec.consumes || [];
+                config.body_mode = consumes.some(type => type.includes('multipart')) || config.body.some(field => field.type === 'file') ? 'form-data' : 'urlencoded';
+            }
+            if (operation.requestBody) {
+                const { node: requestBody } = derefSpecNode(spec, operation.requestBody);
+                const picked = pickMediaContent(requestBody?.content);
+                if (picked?.media?.schema) {
+                    const bodyFields = rootSchemaToFields(spec, picked.media.schema, 'requestBody', warnings);
+                    const formMode = specFormBodyMode(picked.contentType);
+                    if (formMode) {
+                        // 表单中 format: binary 的顶层属性是文件上传字段
+                        const binaryKeys = specBinaryPropertyKeys(spec, picked.media.schema);
+                        bodyFields.forEach(field => {
+                            if (binaryKeys.has(field.key))
+                                field.type = formMode === 'form-data' ? 'file' : 'string';
+                        });
+                        config.body_mode = formMode;
                     }
-                },
-                required: ['api_ids']
+                    config.body.push(...bodyFields);
+                }
             }
+            Object.keys(operation.responses || {}).forEach(code => {
+                const { node: response } = derefSpecNode(spec, operation.responses[code]);
+                if (!response)
+                    return;
+                const picked = spec.swagger
+                    ? (response.schema ? { contentType: (operation.produces || spec.produces || ['application/json'])[0], media: { schema: response.schema } } : null)
+                    : pickMediaContent(response.content);
+                const headers = Object.keys(response.headers || {}).map(headerName => {
+                    const { node: header } = derefSpecNode(spec, response.headers[headerName]);
+                    return specParameterToField(spec, { ...(header || {}), name: headerName });
+                });
+                const status = /^\d{3}$/.test(code) ? Number(code) : (/^\dXX$/i.test(code) ? Number(code[0]) * 100 : 200);
+                const name = response.description || `${code}响应`;
+                // 非 JSON 响应（CSV、SSE、文件下载等）与仅有响应头的响应（如 302 Location）保留内容类型和响应头
+                if (!picked || !isJsonContentType(picked.contentType)) {
+                    if (!picked && headers.length === 0)
+                        return;
+                    const entry = { name, status, content_type: picked?.contentType || 'text/plain', headers };
+                    const example = picked?.media?.example;
+                    if (typeof example === 'string')
+                        entry.example = example;
+                    config.responses.push(entry);
+                    return;
+                }
+                if (!picked.media?.schema)
+                    return;
+                const fields = rootSchemaToFields(spec, picked.media.schema, `responses.${code}`, warnings);
+                if (fields.length === 0)
+                    return;
+                config.responses.push(headers.length > 0
+                    ? { name, status, content_type: picked.contentType, headers, fields }
+                    : { name, status, fields });
+            });
+            const url = `${basePath}${pathKey}`;
+            operations.push({
+                method: method.toUpperCase(),
+                url,
+                name: operation.summary || operation.operationId || `${method.toUpperCase()} ${url}`,
+                tag: Array.isArray(operation.tags) && operation.tags.length > 0 ? operation.tags[0] : undefined,
+                config,
+                warnings
+            });
+        });
+    });
+    return operations;
+}
+// 去掉 URL 前缀/变量/域名，得到 OpenAPI 路径（:id 转为 {id}）
+function toOpenApiPath(url) {
+    let result = String(url || '');
+    if (APIPOST_URL_PREFIX && result.startsWith(APIPOST_URL_PREFIX)) {
+        result = result.slice(APIPOST_URL_PREFIX.length);
+    }
+    result = result.replace(/^\{\{[^}]+\}\}/, '');
+    if (/^https?:\/\//i.test(result)) {
+        try {
+            result = decodeURI(new URL(result).pathname);
+        }
+        catch {
+            result = result.replace(/^https?:\/\/[^/]+/i, '');
         }
-    ]
-}));
-// 工具处理
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    if (!args) {
-        throw new Error('缺少参数');
     }
-    const startTime = Date.now();
+    result = result.split('?')[0].replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, '{$1}');
+    return result.startsWith('/') ? result : '/' + result;
+}
+// 尝试解析 JSON 示例，失败返回 undefined
+function tryParseJson(text) {
+    if (typeof text !== 'string' || !text.trim())
+        return undefined;
     try {
-        if (!currentWorkspace) {
-            await initWorkspace(startTime);
+        return JSON.parse(text);
+    }
+    catch {
+        return undefined;
+    }
+}
+function parametersToOpenApi(parameters, location) {
+    return (parameters || []).filter(param => param && param.key).map(param => {
+        const result = {
+            name: param.key,
+            in: location,
+            required: location === 'path' ? true : param.not_null === 1,
+            schema: fieldTypeToSchema(param.field_type)
+        };
+        if (param.description)
+            result.description = param.description;
+        if (param.value !== undefined && param.value !== '')
+            result.example = param.value;
+        return result;
+    });
+}
+// ApiPost 接口详情转 OpenAPI 操作对象
+function apiToOpenApiOperation(api, tag) {
+    const request = api.request || {};
+    const operation = {
+        summary: api.name,
+        'x-apipost-target-id': api.target_id
+    };
+    if (api.description)
+        operation.description = api.description;
+    if (tag)
+        operation.tags = [tag];
+    const parameters = [
+        ...parametersToOpenApi(request.restful?.parameter, 'path'),
+        ...parametersToOpenApi(request.query?.parameter, 'query'),
+        ...parametersToOpenApi(request.header?.parameter, 'header'),
+        ...parametersToOpenApi(request.cookie?.parameter, 'cookie')
+    ];
+    if (parameters.length > 0)
+        operation.parameters = parameters;
+    const bodyFields = request.body?.raw_parameter || [];
+    if (bodyFields.length > 0) {
+        const media = { schema: fieldListToJsonSchema(bodyFields) };
+        const bodyExample = tryParseJson(request.body?.raw);
+        if (bodyExample !== undefined)
+            media.example = bodyExample;
+        operation.requestBody = { content: { 'application/json': media } };
+    }
+    operation.responses = {};
+    (api.response?.example || []).forEach(example => {
+        const code = String(example.expect?.code || 200);
+        if (operation.responses[code])
+            return;
+        const contentType = example.expect?.content_type || 'application/json';
+        const media = {};
+        if (isJsonContentType(contentType)) {
+            media.schema = fieldListToJsonSchema(example.raw_parameter || []);
+            const responseExample = tryParseJson(example.expect?.mock) ?? tryParseJson(example.raw);
+            if (responseExample !== undefined)
+                media.example = responseExample;
         }
-        switch (name) {
-            case 'apipost_test_connection':
-                const connectionInfo = {
-                    status: '✅ 连接正常',
-                    mcp_version: '1.0.0',
-                    api_host: APIPOST_HOST,
-                    security_mode: APIPOST_SECURITY_MODE,
-                    workspace: currentWorkspace ? {
-                        team_name: currentWorkspace.teamName,
-                        project_name: currentWorkspace.projectName,
-                        project_id: currentWorkspace.projectId
-                    } : null,
-                    environment: {
-                        token_configured: !!APIPOST_TOKEN,
-                        host_configured: !!APIPOST_HOST,
-                        node_version: process.version,
-                        platform: process.platform,
-                        url_prefix: APIPOST_URL_PREFIX
-                    },
-                    available_operations: {
-                        create_api: checkSecurityPermission('write'),
-                        update_api: checkSecurityPermission('write'),
-                        delete_api: checkSecurityPermission('write'),
-                        read_api: checkSecurityPermission('read')
-                    },
-                    test_time: new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
-                };
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: `🎉 ApiPost MCP 连接测试成功！
-
-📊 连接状态: ${connectionInfo.status}
-🔗 MCP版本: ${connectionInfo.mcp_version}
-🌐 API地址: ${connectionInfo.api_host}
-🔒 安全模式: ${connectionInfo.security_mode}
-
-🏢 当前工作空间:
-${connectionInfo.workspace ? `• 团队: ${connectionInfo.workspace.team_name}
-• 项目: ${connectionInfo.workspace.project_name}
-• 项目ID: ${connectionInfo.workspace.project_id}` : '• 工作空间未初始化'}
-
-🔧 环境配置:
-• Token配置: ${connectionInfo.environment.token_configured ? '✅ 已配置' : '❌ 未配置'}
-• Host配置: ${connectionInfo.environment.host_configured ? '✅ 已配置' : '❌ 未配置'}
+        else {
+            media.schema = { type: 'string' };
+            if (example.raw)
+                media.example = example.raw;
+        }
+        operation.responses[code] = {
+            description: example.expect?.name || `${code}响应`,
+            content: { [contentType]: media }
+        };
+        const responseHeaders = parametersToOpenApi(example.headers, 'header');
+        if (responseHeaders.length > 0) {
+            operation.responses[code].headers = Object.fromEntries(responseHeaders.map(({ name, in: _in, ...header }) => [name, header]));
+        }
+    });
+    if (Object.keys(operation.responses).length === 0) {
+        operation.responses.default = { description: '未定义响应' };
+    }
+    return operation;
+}
+// 根据接口详情与目录路径构建 OpenAPI 3.1 文档
+function buildOpenApiDocument(apis, allItems, title) {
+    const pathMap = buildPathMap(allItems);
+    const itemMap = new Map(allItems.map(item => [item.target_id, item]));
+    const tags = new Map();
+    const paths = {};
+    const skipped = [];
+    apis.forEach(api => {
+        const parentId = api.parent_id || '0';
+        let tag;
+        if (parentId !== '0' && pathMap.has(parentId)) {
+            tag = pathMap.get(parentId).join(' / ');
+            if (!tags.has(tag)) {
+                tags.set(tag, itemMap.get(parentId)?.description || '');
+            }
+        }
+        const apiPath = toOpenApiPath(api.url);
+        const method = String(api.method || 'GET').toLowerCase();
+        if (!OPENAPI_METHODS.includes(method)) {
+            skipped.push(`${api.name} [${api.method}] ${api.url} (${api.target_id})：OpenAPI 不支持自定义方法`);
+            return;
+        }
+        if (!paths[apiPath])
+            paths[apiPath] = {};
+        if (paths[apiPath][method]) {
+            skipped.push(`${api.name} [${api.method}] ${api.url} (${api.target_id})：与已有接口路径和方法重复`);
+            return;
+        }
+        paths[apiPath][method] = apiToOpenApiOperation(api, tag);
+    });
+    const document = {
+        openapi: '3.1.0',
+        info: { title, version: '1.0.0' }
+    };
+    if (/^https?:\/\//i.test(APIPOST_URL_PREFIX)) {
+        document.servers = [{ url: APIPOST_URL_PREFIX.replace(/\/+$/, '') }];
+    }
+    if (tags.size > 0) {
+        document.tags = Array.from(tags.entries()).map(([tagName, description]) => (description ? { name: tagName, description } : { name: tagName }));
+    }
+    document.paths = paths;
+    return { document, skipped };
+}
+// 推断 JSON 值的字段类型
+function inferFieldType(value) {
+    if (value === null)
+        return 'null';
+    if (Array.isArray(value))
+        return 'array';
+    if (typeof value === 'number')
+        return Number.isInteger(value) ? 'integer' : 'number';
+    if (typeof value === 'boolean')
+        return 'boolean';
+    if (typeof value === 'object')
+        return 'object';
+    return 'string';
+}
+// 将 JSON 示例值展开为字段列表（嵌套用 .，数组取第一个元素用 []），真实值作为 example
+function jsonToFieldList(value, prefix = '', describe = (key) => key.split('.').pop().replace(/\[\]$/, '')) {
+    const fields = [];
+    if (value === null || typeof value !== 'object' || Array.isArray(value))
+        return fields;
+    Object.keys(value).forEach(propName => {
+        const key = prefix ? `${prefix}.${propName}` : propName;
+        const propValue = value[propName];
+        const type = inferFieldType(propValue);
+        if (type === 'object') {
+            fields.push({ key, type, required: false, desc: describe(key) });
+            fields.push(...jsonToFieldList(propValue, key, describe));
+        }
+        else if (type === 'array') {
+            fields.push({ key, type, required: false, desc: describe(key) });
+            if (propValue.length > 0) {
+                const first = propValue[0];
+                const itemKey = `${key}[]`;
+                if (inferFieldType(first) === 'object') {
+                    fields.push(...jsonToFieldList(first, itemKey, describe));
+                }
+                else {
+                    fields.push({ key: itemKey, type: inferFieldType(first), required: false, example: first, desc: describe(itemKey) });
+                }
+            }
+        }
+        else {
+            fields.push({ key, type, required: false, example: propValue, desc: describe(key) });
+        }
+    });
+    return fields;
+}
+// Postman 描述可能是字符串或 { content }
+function postmanText(description) {
+    if (!description)
+        return '';
+    return typeof description === 'string' ? description : (description.content || '');
+}
+// Postman 认证 -> ApiPost 认证
+function postmanAuthToApiPost(auth) {
+    if (!auth || !auth.type)
+        return undefined;
+    const entries = Array.isArray(auth[auth.type]) ? auth[auth.type] : [];
+    const get = (key) => entries.find(entry => entry.key === key)?.value ?? '';
+    switch (auth.type) {
+        case 'noauth':
+            return { type: 'noauth' };
+        case 'bearer':
+            return { type: 'bearer', bearer: { key: get('token') } };
+        case 'basic':
+            return { type: 'basic', basic: { username: get('username'), password: get('password') } };
+        case 'apikey':
+            return { type: 'kv', kv: { key: get('key'), value: get('value'), in: get('in') === 'query' ? 'query' : 'header' } };
+        default:
+            return undefined;
+    }
+}
+// ApiPost 认证 -> Postman 认证
+function apiPostAuthToPostman(auth) {
+    if (!auth || !auth.type || auth.type === 'inherit')
+        return undefined;
+    switch (auth.type) {
+        case 'noauth':
+            return { type: 'noauth' };
+        case 'bearer':
+            return { type: 'bearer', bearer: [{ key: 'token', value: auth.bearer?.key || '', type: 'string' }] };
+        case 'basic':
+            return {
+                type: 'basic',
+                basic: [
+                    { key: 'username', value: auth.basic?.username || '', type: 'string' },
+                    { key: 'password', value: auth.basic?.password || '', type: 'string' }
+                ]
+            };
+        case 'kv':
+            return {
+                type: 'apikey',
+                apikey: [
+                    { key: 'key', value: auth.kv?.key || '', type: 'string' },
+                    { key: 'value', value: auth.kv?.value || '', type: 'string' },
+                    { key: 'in', value: auth.kv?.in || 'header', type: 'string' }
+                ]
+            };
+        default:
+            return undefined;
+    }
+}
+// Postman 键值列表转字段列表
+function postmanKeyValuesToFields(list) {
+    return (Array.isArray(list) ? list : [])
+        .filter(entry => entry && entry.key)
+        .map(entry => ({
+        key: entry.key,
+        type: entry.type === 'file' ? 'file' : 'string',
+        required: false,
+        example: entry.value ?? entry.src ?? '',
+        desc: postmanText(entry.description) || entry.key
+    }));
+}
+// 将 Postman 请求转换为 buildApiConfig 可接受的参数
+function postmanRequestToApi(item) {
+    const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : (item.request || {});
+    const url = typeof request.url === 'string' ? { raw: request.url } : (request.url || {});
+    const rawUrl = url.raw || [
+        url.protocol ? `${url.protocol}://` : '',
+        Array.isArray(url.host) ? url.host.join('.') : (url.host || ''),
+        Array.isArray(url.path) ? '/' + url.path.join('/') : (url.path || '')
+    ].join('');
+    const warnings = [];
+    const fieldArgs = {
+        description: postmanText(request.description) || postmanText(item.description),
+        headers: JSON.stringify(postmanKeyValuesToFields((request.header || []).filter(h => !h.disabled))),
+        query: JSON.stringify(postmanKeyValuesToFields((url.query || []).filter(q => !q.disabled)))
+    };
+    const body = request.body;
+    if (body && body.mode) {
+        if (body.mode === 'raw') {
+            const parsedBody = tryParseJson(body.raw);
+            if (parsedBody !== undefined && inferFieldType(parsedBody) === 'object') {
+                fieldArgs.body = JSON.stringify(jsonToFieldList(parsedBody));
+            }
+            else if (body.raw) {
+                fieldArgs.body_mode = body.options?.raw?.language === 'xml' || body.raw.trim().startsWith('<') ? 'xml' : 'plain';
+                fieldArgs.body_raw = body.raw;
+            }
+        }
+        else if (body.mode === 'urlencoded' || body.mode === 'formdata') {
+            fieldArgs.body = JSON.stringify(postmanKeyValuesToFields((body[body.mode] || []).filter(f => !f.disabled)));
+            fieldArgs.body_mode = body.mode === 'formdata' ? 'form-data' : 'urlencoded';
+        }
+        else if (body.mode === 'file') {
+            fieldArgs.body_mode = 'binary';
+            fieldArgs.body_raw = body.file?.src || '';
+        }
+        else {
+            warnings.push(`暂不支持的 body 模式: ${body.mode}`);
+        }
+    }
+    const auth = postmanAuthToApiPost(request.auth);
+    if (auth) {
+        fieldArgs.auth = JSON.stringify(auth);
+    }
+    else if (request.auth?.type) {
+        warnings.push(`暂不支持的认证类型: ${request.auth.type}，已使用继承`);
+    }
+    const responses = [];
+    (item.response || []).forEach((saved, index) => {
+        const parsed = tryParseJson(saved.body);
+        if (parsed === undefined || inferFieldType(parsed) !== 'object') {
+            warnings.push(`响应 "${saved.name || index + 1}" 不是 JSON 对象，已跳过`);
+            return;
+        }
+        const fields = jsonToFieldList(parsed);
+        if (fields.length === 0)
+            return;
+        responses.push({ name: saved.name || `响应${index + 1}`, status: saved.code || 200, fields });
+    });
+    // 未保存响应时不生成默认示例，保持与集合一致
+    fieldArgs.responses = JSON.stringify(responses);
+    const { config } = buildApiConfig(fieldArgs);
+    config.restful = postmanKeyValuesToFields(url.variable);
+    return {
+        method: String(request.method || 'GET').toUpperCase(),
+        url: rawUrl.split('?')[0],
+        name: item.name || rawUrl,
+        config,
+        warnings
+    };
+}
+// 拆分 URL 为 Postman url 对象
+function buildPostmanUrl(rawUrl, queryParams, restfulParams) {
+    const query = (queryParams || []).filter(p => p && p.key).map(p => ({ key: p.key, value: p.value === undefined ? '' : String(p.value), description: p.description || '' }));
+    const queryString = query.map(q => `${q.key}=${q.value}`).join('&');
+    const raw = queryString ? `${rawUrl}?${queryString}` : rawUrl;
+    const result = { raw };
+    const match = rawUrl.match(/^(?:(https?):\/\/)?([^/]*)(\/.*)?$/i);
+    if (match) {
+        if (match[1])
+            result.protocol = match[1];
+        if (match[2])
+            result.host = match[1] ? match[2].split('.') : [match[2]];
+        result.path = (match[3] || '').split('/').filter(Boolean);
+    }
+    if (query.length > 0)
+        result.query = query;
+    const variables = (restfulParams || []).filter(p => p && p.key).map(p => ({ key: p.key, value: p.value === undefined ? '' : String(p.value), description: p.description || '' }));
+    if (variables.length > 0)
+        result.variable = variables;
+    return result;
+}
+// ApiPost 接口详情 -> Postman 请求项
+function apiToPostmanItem(api) {
+    const request = api.request || {};
+    const postmanRequest = {
+        method: api.method || 'GET',
+        header: (request.header?.parameter || []).map(h => ({ key: h.key, value: h.value === undefined ? '' : String(h.value), description: h.description || '' })),
+        url: buildPostmanUrl(api.url || '', request.query?.parameter, request.restful?.parameter)
+    };
+    if (api.description)
+        postmanRequest.description = api.description;
+    const bodyMode = request.body?.mode || 'none';
+    const bodyFields = request.body?.raw_parameter || [];
+    if (FORM_BODY_MODES.includes(bodyMode)) {
+        const postmanMode = bodyMode === 'form-data' ? 'formdata' : 'urlencoded';
+        postmanRequest.body = {
+            mode: postmanMode,
+            [postmanMode]: (request.body.parameter || []).map(p => (p.field_type === 'file'
+                ? { key: p.key, type: 'file', src: p.value || '', description: p.description || '' }
+                : { key: p.key, value: p.value === undefined ? '' : String(p.value), type: 'text', description: p.description || '' }))
+        };
+    }
+    else if (bodyMode === 'xml' || bodyMode === 'plain') {
+        postmanRequest.body = { mode: 'raw', raw: request.body.raw || '', options: { raw: { language: bodyMode === 'xml' ? 'xml' : 'text' } } };
+    }
+    else if (bodyMode === 'binary') {
+        postmanRequest.body = { mode: 'file', file: { src: request.body.binary?.file_name || '' } };
+    }
+    else if (bodyFields.length > 0) {
+        const bodyJson = tryParseJson(request.body?.raw) ?? buildJsonFromFieldList(bodyFields.map(f => ({ key: f.key, type: f.field_type, example: f.value })));
+        postmanRequest.body = { mode: 'raw', raw: JSON.stringify(bodyJson, null, 4), options: { raw: { language: 'json' } } };
+    }
+    const auth = apiPostAuthToPostman(request.auth);
+    if (auth)
+        postmanRequest.auth = auth;
+    const responses = (api.response?.example || []).map(example => {
+        const contentType = example.expect?.content_type || 'application/json';
+        return {
+            name: example.expect?.name || '响应',
+            code: Number(example.expect?.code || 200),
+            header: [{ key: 'Content-Type', value: contentType }],
+            body: example.expect?.mock || example.raw || '',
+            _postman_previewlanguage: postmanPreviewLanguage(contentType)
+        };
+    });
+    return { name: api.name, request: postmanRequest, response: responses };
+}
+// Postman 响应预览语言：按内容类型选择 json/xml/html，其余按纯文本显示
+function postmanPreviewLanguage(contentType) {
+    const type = String(contentType).toLowerCase();
+    if (type.includes('json'))
+        return 'json';
+    if (type.includes('xml'))
+        return 'xml';
+    if (type.includes('html'))
+        return 'html';
+    return 'text';
+}
+// 根据目录结构构建 Postman 集合项（递归）
+function buildPostmanItems(parentId, allItems, detailMap) {
+    return allItems
+        .filter(item => item.parent_id === parentId)
+        .map(item => {
+        if (item.target_type === 'folder') {
+            const folder = { name: item.name, item: buildPostmanItems(item.target_id, allItems, detailMap) };
+            if (item.description)
+                folder.description = item.description;
+            return folder;
+        }
+        const detail = detailMap.get(item.target_id);
+        return detail ? apiToPostmanItem(detail) : null;
+    })
+        .filter(Boolean);
+}
+// 凭证类字段：请求头名称完全匹配，或名称中包含敏感词
+const SENSITIVE_FIELD_NAMES = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'api-key', 'apikey', 'x-csrf-token', 'x-xsrf-token']);
+const SENSITIVE_FIELD_PATTERN = /token|secret|passw(or)?d|api[-_]?key|authorization|auth[-_]|session[-_]?id|signature|credential/i;
+function isSensitiveFieldName(name) {
+    return SENSITIVE_FIELD_NAMES.has(String(name).toLowerCase()) || SENSITIVE_FIELD_PATTERN.test(String(name));
+}
+// 生成凭证占位变量：Authorization 保留认证方式（Bearer {{token}}），其余按字段名生成 {{变量}}
+function credentialPlaceholder(name, value) {
+    if (/^(proxy-)?authorization$/i.test(name)) {
+        const scheme = /^([A-Za-z][\w-]*)\s+\S/.exec(String(value ?? ''));
+        return scheme ? `${scheme[1]} {{token}}` : '{{token}}';
+    }
+    return `{{${String(name).replace(/[^A-Za-z0-9_]/g, '_')}}}`;
+}
+// 将凭证类字段（以及全部 Cookie）的示例值替换为占位变量，避免把真实凭证保存到文档，返回被替换的字段
+function maskSensitiveFields(sections) {
+    const masked = [];
+    Object.keys(sections).forEach(section => {
+        sections[section].forEach(field => {
+            const name = String(field.key).split('.').pop().replace(/\[\]$/, '');
+            if (field.type === 'file' || field.example === undefined || field.example === '')
+                return;
+            if (section !== 'cookies' && !isSensitiveFieldName(name))
+                return;
+            field.example = credentialPlaceholder(name, field.example);
+            masked.push(`${section}.${field.key}`);
+        });
+    });
+    return masked;
+}
+// HAR 导入时忽略的浏览器/代理自动附带的请求头
+const HAR_IGNORED_HEADERS = new Set(['host', 'connection', 'content-length', 'cookie', 'accept-encoding', 'accept-language', 'user-agent', 'origin', 'referer', 'pragma', 'cache-control', 'priority']);
+const UUID_SEGMENT_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// 归一化 HAR 请求路径：数字和 UUID 段折叠为 {id}（多个时依次为 {id2}、{id3}）
+function normalizeHarPath(rawUrl) {
+    let pathname = '/';
+    try {
+        pathname = new URL(rawUrl).pathname;
+    }
+    catch {
+        pathname = String(rawUrl || '/').split('?')[0];
+    }
+    const pathValues = [];
+    const segments = pathname.split('/').map(seg => {
+        let decoded = seg;
+        try {
+            decoded = decodeURIComponent(seg);
+        }
+        catch {
+            // 不完整的 % 编码按原样处理
+        }
+        if (/^\d+$/.test(decoded) || UUID_SEGMENT_PATTERN.test(decoded)) {
+            pathValues.push(decoded);
+            const name = pathValues.length === 1 ? 'id' : `id${pathValues.length}`;
+            return `{${name}}`;
+        }
+        return seg;
+    });
+    return { path: segments.join('/') || '/', pathValues };
+}
+// 按 方法 + 归一化路径 分组 HAR 记录
+function groupHarEntries(entries) {
+    const groups = new Map();
+    (entries || []).forEach(entry => {
+        if (!entry || !entry.request || !entry.request.url)
+            return;
+        const method = String(entry.request.method || 'GET').toUpperCase();
+        const { path: harPath, pathValues } = normalizeHarPath(entry.request.url);
+        const key = `${method} ${harPath}`;
+        if (!groups.has(key)) {
+            groups.set(key, { method, path: harPath, entries: [], pathValues });
+        }
+        groups.get(key).entries.push(entry);
+    });
+    return Array.from(groups.values());
+}
+// 合并多次请求推断出的字段列表：按 key 去重，首次出现的值作为 example，每次都出现的字段视为必填
+function mergeInferredFields(fieldLists, inferRequired = true) {
+    const merged = new Map();
+    const counts = new Map();
+    fieldLists.forEach(list => {
+        const seen = new Set();
+        list.forEach(field => {
+            if (!merged.has(field.key))
+                merged.set(field.key, { ...field });
+            if (!seen.has(field.key)) {
+                seen.add(field.key);
+                counts.set(field.key, (counts.get(field.key) || 0) + 1);
+            }
+        });
+    });
+    return Array.from(merged.values()).map(field => ({
+        ...field,
+        required: inferRequired && fieldLists.length > 1 && counts.get(field.key) === fieldLists.length
+    }));
+}
+function harNameValuesToFields(list, ignored = new Set()) {
+    return (Array.isArray(list) ? list : [])
+        .filter(item => item && item.name && !item.name.startsWith(':') && !item.name.toLowerCase().startsWith('sec-') && !ignored.has(item.name.toLowerCase()))
+        .map(item => ({ key: item.name, type: 'string', required: false, example: item.value ?? '', desc: '' }));
+}
+// 解析 HAR 请求体
+function harPostDataToFields(postData) {
+    if (!postData)
+        return [];
+    const mimeType = (postData.mimeType || '').toLowerCase();
+    if (Array.isArray(postData.params) && postData.params.length > 0) {
+        return postData.params.map(param => ({
+            key: param.name,
+            type: param.fileName ? 'file' : 'string',
+            required: false,
+            example: param.fileName || param.value || '',
+            desc: ''
+        }));
+    }
+    if (mimeType.includes('json') || (postData.text || '').trim().startsWith('{')) {
+        const parsed = tryParseJson(postData.text);
+        return inferFieldType(parsed) === 'object' ? jsonToFieldList(parsed, '', () => '') : [];
+    }
+    if (mimeType.includes('x-www-form-urlencoded') && postData.text) {
+        return Array.from(new URLSearchParams(postData.text).entries()).map(([key, value]) => ({ key, type: 'string', required: false, example: value, desc: '' }));
+    }
+    return [];
+}
+// 按 HAR 请求体的 MIME 类型选择 Body 模式
+function harBodyMode(postData) {
+    const mimeType = (postData?.mimeType || '').toLowerCase();
+    if (mimeType.includes('multipart/form-data'))
+        return 'form-data';
+    if (mimeType.includes('x-www-form-urlencoded'))
+        return 'urlencoded';
+    return undefined;
+}
+// 解析 HAR 响应内容（支持 base64 编码）
+function harResponseJson(response) {
+    const content = response?.content;
+    if (!content || !content.text)
+        return undefined;
+    const text = content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf8') : content.text;
+    return tryParseJson(text);
+}
+// 将一组 HAR 记录转换为 smart_create/update 所需的参数，字段描述按 "分区.key" 或 "key" 从 descriptions 中读取
+function harGroupToApiArgs(group, descriptions = {}) {
+    const warnings = [];
+    const requests = group.entries.map(entry => entry.request);
+    const headers = mergeInferredFields(requests.map(req => harNameValuesToFields(req.headers, HAR_IGNORED_HEADERS)), false);
+    const query = mergeInferredFields(requests.map(req => harNameValuesToFields(req.queryString)));
+    const cookies = mergeInferredFields(requests.map(req => harNameValuesToFields(req.cookies)), false);
+    const body = mergeInferredFields(requests.filter(req => req.postData).map(req => harPostDataToFields(req.postData)));
+    const bodyMode = body.length > 0 ? harBodyMode(requests.find(req => req.postData)?.postData) : undefined;
+    // 每个状态码取第一条 JSON 对象响应
+    const responses = [];
+    const statusSeen = new Set();
+    group.entries.forEach(entry => {
+        const status = entry.response?.status;
+        if (!status || statusSeen.has(status))
+            return;
+        const parsed = harResponseJson(entry.response);
+        if (inferFieldType(parsed) !== 'object')
+            return;
+        const fields = jsonToFieldList(parsed, '', () => '');
+        if (fields.length === 0)
+            return;
+        statusSeen.add(status);
+        responses.push({ name: `${status} ${entry.response.statusText || ''}`.trim(), status, fields });
+    });
+    if (responses.length === 0) {
+        warnings.push('未找到 JSON 对象响应，未生成响应示例');
+    }
+    const restful = group.pathValues.map((value, index) => ({
+        key: index === 0 ? 'id' : `id${index + 1}`,
+        type: /^\d+$/.test(value) ? 'integer' : 'string',
+        required: true,
+        example: /^\d+$/.test(value) ? Number(value) : value,
+        desc: ''
+    }));
+    const responseFields = [];
+    responses.forEach(response => responseFields.push(...response.fields));
+    const masked = maskSensitiveFields({ headers, query, body, cookies, responses: responseFields });
+    if (masked.length > 0) {
+        warnings.push(`以下凭证字段的示例值已替换为占位变量: ${masked.join(', ')}`);
+    }
+    const sections = { restful, headers, query, body, cookies, responses: responseFields };
+    const missing = [];
+    Object.keys(sections).forEach(section => {
+        sections[section].forEach(field => {
+            field.desc = descriptions[`${section}.${field.key}`] || descriptions[field.key] || '';
+            if (!field.desc && !missing.includes(`${section}.${field.key}`))
+                missing.push(`${section}.${field.key}`);
+        });
+    });
+    return {
+        args: {
+            method: group.method,
+            url: group.path,
+            name: `${group.method} ${group.path}`,
+            headers: JSON.stringify(headers),
+            query: JSON.stringify(query),
+            body: JSON.stringify(body),
+            cookies: JSON.stringify(cookies),
+            restful: JSON.stringify(restful),
+            responses: JSON.stringify(responses),
+            body_mode: bodyMode
+        },
+        missing,
+        warnings
+    };
+}
+// 沿用已有参数的描述，避免用推断出的占位描述覆盖人工填写的内容
+function inheritFieldDescriptions(fieldsJson, existingParams) {
+    const descByKey = new Map((existingParams || []).filter(p => p && p.key && p.description).map(p => [p.key, p.description]));
+    const fields = JSON.parse(fieldsJson);
+    return JSON.stringify(fields.map(field => (descByKey.has(field.key) ? { ...field, desc: descByKey.get(field.key) } : field)));
+}
+// 路径比较时忽略前缀和路径变量名称
+function normalizePathForMatch(url) {
+    return toOpenApiPath(url).replace(/\{[^}]+\}/g, '{}').replace(/\/+$/, '') || '/';
+}
+// 按 shell 规则拆分命令行（支持单/双引号、$'...'、反斜杠续行）
+function tokenizeShellCommand(command) {
+    const text = String(command || '').replace(/\\\r?\n/g, ' ').replace(/\^\r?\n/g, ' ');
+    const tokens = [];
+    let current = '';
+    let hasToken = false;
+    let i = 0;
+    const ansiEscapes = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            if (hasToken) {
+                tokens.push(current);
+                current = '';
+                hasToken = false;
+            }
+            i++;
+            continue;
+        }
+        if (ch === "'") {
+            const end = text.indexOf("'", i + 1);
+            if (end === -1) {
+                throw new Error('curl 命令中的单引号未闭合');
+            }
+            current += text.slice(i + 1, end);
+            hasToken = true;
+            i = end + 1;
+            continue;
+        }
+        if (ch === '$' && text[i + 1] === "'") {
+            i += 2;
+            while (i < text.length && text[i] !== "'") {
+                if (text[i] === '\\' && i + 1 < text.length) {
+                    current += ansiEscapes[text[i + 1]] ?? text[i + 1];
+                    i += 2;
+                }
+                else {
+                    current += text[i];
+                    i++;
+                }
+            }
+            if (i >= text.length) {
+                throw new Error('curl 命令中的 $\'...\' 未闭合');
+            }
+            hasToken = true;
+            i++;
+            continue;
+        }
+        if (ch === '"') {
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && i + 1 < text.length && '"\\$`'.includes(text[i + 1])) {
+                    current += text[i + 1];
+                    i += 2;
+                }
+                else {
+                    current += text[i];
+                    i++;
+                }
+            }
+            if (i >= text.length) {
+                throw new Error('curl 命令中的双引号未闭合');
+            }
+            hasToken = true;
+            i++;
+            continue;
+        }
+        if (ch === '\\' && i + 1 < text.length) {
+            current += text[i + 1];
+            hasToken = true;
+            i += 2;
+            continue;
+        }
+        current += ch;
+        hasToken = true;
+        i++;
+    }
+    if (hasToken)
+        tokens.push(current);
+    return tokens;
+}
+// 需要取值的 curl 参数，skip 表示解析但不使用
+const CURL_VALUE_OPTIONS = {
+    '-X': 'method', '--request': 'method',
+    '-H': 'header', '--header': 'header',
+    '-d': 'data', '--data': 'data', '--data-raw': 'data', '--data-binary': 'data', '--data-ascii': 'data',
+    '--data-urlencode': 'urlencode',
+    '-F': 'form', '--form': 'form', '--form-string': 'form',
+    '-b': 'cookie', '--cookie': 'cookie',
+    '-u': 'user', '--user': 'user',
+    '-A': 'agent', '--user-agent': 'agent',
+    '--url': 'url',
+    '-e': 'skip', '--referer': 'skip', '-o': 'skip', '--output': 'skip', '-m': 'skip', '--max-time': 'skip',
+    '--connect-timeout': 'skip', '-x': 'skip', '--proxy': 'skip', '-w': 'skip', '--write-out': 'skip',
+    '--retry': 'skip', '--cacert': 'skip', '--cert': 'skip', '-E': 'skip', '--key': 'skip',
+    '-c': 'skip', '--cookie-jar': 'skip', '-T': 'skip', '--upload-file': 'skip'
+};
+// 解析 curl 命令
+function parseCurlCommand(command) {
+    const tokens = tokenizeShellCommand(command);
+    if (tokens[0] === 'curl')
+        tokens.shift();
+    const parsed = { method: undefined, url: undefined, headers: [], cookies: [], data: [], urlencode: [], form: [], getMode: false, user: undefined, warnings: [] };
+    for (let i = 0; i < tokens.length; i++) {
+        let token = tokens[i];
+        let value;
+        if (token.startsWith('--') && token.includes('=')) {
+            value = token.slice(token.indexOf('=') + 1);
+            token = token.slice(0, token.indexOf('='));
+        }
+        else if (/^-[A-Za-z]/.test(token) && token.length > 2 && CURL_VALUE_OPTIONS[token.slice(0, 2)]) {
+            value = token.slice(2);
+            token = token.slice(0, 2);
+        }
+        const kind = CURL_VALUE_OPTIONS[token];
+        if (kind) {
+            if (value === undefined) {
+                value = tokens[++i];
+                if (value === undefined) {
+                    throw new Error(`curl 参数 ${token} 缺少取值`);
+                }
+            }
+            switch (kind) {
+                case 'method':
+                    parsed.method = value.toUpperCase();
+                    break;
+                case 'header': {
+                    const sep = value.indexOf(':');
+                    if (sep > 0) {
+                        const headerName = value.slice(0, sep).trim();
+                        const headerValue = value.slice(sep + 1).trim();
+                        if (headerName.toLowerCase() === 'cookie') {
+                            parsed.cookies.push(...parseCookiePairs(headerValue));
+                        }
+                        else {
+                            parsed.headers.push({ key: headerName, value: headerValue });
+                        }
+                    }
+                    break;
+                }
+                case 'data':
+                    parsed.data.push(value);
+                    break;
+                case 'urlencode':
+                    parsed.urlencode.push(value);
+                    break;
+                case 'form':
+                    parsed.form.push(value);
+                    break;
+                case 'cookie':
+                    if (value.includes('=')) {
+                        parsed.cookies.push(...parseCookiePairs(value));
+                    }
+                    else {
+                        parsed.warnings.push(`-b ${value} 为 Cookie 文件，已忽略`);
+                    }
+                    break;
+                case 'user':
+                    parsed.user = value;
+                    break;
+                case 'agent':
+                    parsed.headers.push({ key: 'User-Agent', value });
+                    break;
+                case 'url':
+                    parsed.url = value;
+                    break;
+            }
+            continue;
+        }
+        if (token === '-G' || token === '--get') {
+            parsed.getMode = true;
+        }
+        else if (token === '-I' || token === '--head') {
+            parsed.method = parsed.method || 'HEAD';
+        }
+        else if (token.startsWith('-')) {
+            // 其他开关类参数（-s、-L、-k、--compressed 等）与文档无关
+        }
+        else if (!parsed.url) {
+            parsed.url = token;
+        }
+        else {
+            parsed.warnings.push(`忽略多余参数: ${token}`);
+        }
+    }
+    if (!parsed.url) {
+        throw new Error('curl 命令中未找到 URL');
+    }
+    return parsed;
+}
+function parseCookiePairs(text) {
+    return String(text).split(';').map(pair => pair.trim()).filter(Boolean).map(pair => {
+        const sep = pair.indexOf('=');
+        return sep > 0 ? { key: pair.slice(0, sep).trim(), value: pair.slice(sep + 1).trim() } : { key: pair, value: '' };
+    });
+}
+// curl 解析结果 -> smart_create 参数，描述一律留空占位，由调用方通过 descriptions 补充
+function curlToApiArgs(parsed, descriptions = {}) {
+    const warnings = [...parsed.warnings];
+    const placeholder = () => '';
+    const urlText = /^[a-z][a-z0-9+.-]*:\/\//i.test(parsed.url) || parsed.url.startsWith('/') ? parsed.url : `http://${parsed.url}`;
+    let pathname = parsed.url.split('?')[0];
+    let searchParams = new URLSearchParams(parsed.url.includes('?') ? parsed.url.slice(parsed.url.indexOf('?') + 1) : '');
+    if (!urlText.startsWith('/')) {
+        try {
+            const urlObject = new URL(urlText);
+            pathname = decodeURI(urlObject.pathname);
+            searchParams = urlObject.searchParams;
+        }
+        catch {
+            warnings.push(`URL 解析失败，按原样使用: ${parsed.url}`);
+        }
+    }
+    const toField = (key, value, type = 'string') => ({ key, type, required: false, example: value, desc: placeholder() });
+    const query = Array.from(searchParams.entries()).map(([key, value]) => toField(key, value));
+    const headers = parsed.headers.map(h => toField(h.key, h.value));
+    const cookies = parsed.cookies.map(c => toField(c.key, c.value));
+    const contentType = (parsed.headers.find(h => h.key.toLowerCase() === 'content-type')?.value || '').toLowerCase();
+    const body = [];
+    let bodyMode;
+    let bodyRaw;
+    const rawData = parsed.data.join('&');
+    if (parsed.getMode) {
+        [...parsed.data, ...parsed.urlencode].forEach(part => {
+            new URLSearchParams(part).forEach((value, key) => query.push(toField(key, value)));
+        });
+    }
+    else {
+        if (rawData) {
+            const parsedJson = tryParseJson(rawData);
+            // 只有每一段都是 key=value 时才按表单解析，其余文本保留原文
+            const isFormEncoded = !contentType.includes('json') && rawData.split('&').every(part => /^[^=]+=/.test(part));
+            if (inferFieldType(parsedJson) === 'object') {
+                body.push(...jsonToFieldList(parsedJson, '', placeholder));
+            }
+            else if (rawData.startsWith('@')) {
+                warnings.push(`请求体引用文件 ${rawData}，已跳过`);
+            }
+            else if (isFormEncoded) {
+                bodyMode = 'urlencoded';
+                new URLSearchParams(rawData).forEach((value, key) => body.push(toField(key, value)));
+            }
+            else if (parsed.urlencode.length > 0) {
+                warnings.push('-d 请求体不是 key=value 格式，无法与 --data-urlencode 字段一起保存，已跳过');
+            }
+            else {
+                bodyMode = contentType.includes('xml') || rawData.trim().startsWith('<') ? 'xml' : 'plain';
+                bodyRaw = rawData;
+                if (parsedJson !== undefined)
+                    warnings.push('请求体是 JSON 但不是对象，已按原文保存为 plain');
+            }
+        }
+        parsed.urlencode.forEach(part => {
+            const sep = part.indexOf('=');
+            if (sep > 0) {
+                bodyMode = 'urlencoded';
+                body.push(toField(part.slice(0, sep), part.slice(sep + 1)));
+            }
+            else {
+                warnings.push(`--data-urlencode ${part} 缺少字段名，已跳过`);
+            }
+        });
+        parsed.form.forEach(part => {
+            const sep = part.indexOf('=');
+            if (sep <= 0) {
+                warnings.push(`-F ${part} 格式不正确，已跳过`);
+                return;
+            }
+            const formKey = part.slice(0, sep);
+            const formValue = part.slice(sep + 1);
+            bodyMode = 'form-data';
+            if (formValue.startsWith('@') || formValue.startsWith('<')) {
+                body.push(toField(formKey, formValue.slice(1).split(';')[0], 'file'));
+            }
+            else {
+                body.push(toField(formKey, formValue.split(';')[0]));
+            }
+        });
+    }
+    const hasBody = !parsed.getMode && (parsed.data.length > 0 || parsed.urlencode.length > 0 || parsed.form.length > 0);
+    const method = parsed.method || (parsed.getMode ? 'GET' : (hasBody ? 'POST' : 'GET'));
+    // 按 "分区.key" 或 "key" 匹配调用方提供的描述
+    const sections = { headers, query, body, cookies };
+    const masked = maskSensitiveFields(sections);
+    if (masked.length > 0) {
+        warnings.push(`以下凭证字段的示例值已替换为占位变量: ${masked.join(', ')}`);
+    }
+    const missing = [];
+    Object.keys(sections).forEach(section => {
+        sections[section].forEach(field => {
+            field.desc = descriptions[`${section}.${field.key}`] || descriptions[field.key] || '';
+            if (!field.desc)
+                missing.push(`${section}.${field.key}`);
+        });
+    });
+    const args = {
+        method,
+        url: pathname || '/',
+        headers: JSON.stringify(headers),
+        query: JSON.stringify(query),
+        body: JSON.stringify(body),
+        cookies: JSON.stringify(cookies)
+    };
+    if (bodyMode && (body.length > 0 || bodyRaw !== undefined))
+        args.body_mode = bodyMode;
+    if (bodyRaw !== undefined)
+        args.body_raw = bodyRaw;
+    if (parsed.user !== undefined) {
+        // 只保留用户名，密码保存为占位变量
+        const sep = parsed.user.indexOf(':');
+        args.auth = JSON.stringify({
+            type: 'basic',
+            basic: { username: sep >= 0 ? parsed.user.slice(0, sep) : parsed.user, password: sep >= 0 ? '{{password}}' : '' }
+        });
+        if (sep >= 0)
+            warnings.push('-u 中的密码已替换为占位变量 {{password}}');
+    }
+    return { args, missing, warnings };
+}
+// 替换 {{变量}}，未提供的变量保持原样
+function substituteVariables(text, variables) {
+    return String(text ?? '').replace(/\{\{\s*([^}\s]+)\s*\}\}/g, (match, varName) => (variables[varName] !== undefined ? String(variables[varName]) : match));
+}
+// 查询参数编码时保留 {{变量}}
+function encodeQueryValue(value) {
+    return String(value ?? '').split(/(\{\{[^}]+\}\})/).map((part, index) => (index % 2 === 1 ? part : encodeURIComponent(part))).join('');
+}
+// 从接口详情整理出可执行请求：URL（含路径参数与查询串）、请求头、JSON 请求体
+function buildSnippetRequest(api, variables = {}) {
+    const request = api.request || {};
+    const method = String(api.method || 'GET').toUpperCase();
+    let url = substituteVariables(api.url || '', variables);
+    (request.restful?.parameter || []).forEach(param => {
+        if (!param || !param.key || param.value === undefined || param.value === '')
+            return;
+        const value = encodeURIComponent(String(param.value));
+        url = url.split(`{${param.key}}`).join(value).replace(new RegExp(`:${param.key}(?=/|$|\\?)`, 'g'), value);
+    });
+    const queryPairs = (request.query?.parameter || []).filter(p => p && p.key).map(p => [p.key, substituteVariables(p.value, variables)]);
+    const headers = (request.header?.parameter || []).filter(p => p && p.key).map(p => [p.key, substituteVariables(p.value, variables)]);
+    const auth = request.auth || {};
+    if (auth.type === 'bearer' && auth.bearer?.key) {
+        headers.push(['Authorization', `Bearer ${substituteVariables(auth.bearer.key, variables)}`]);
+    }
+    else if (auth.type === 'basic' && (auth.basic?.username || auth.basic?.password)) {
+        const credentials = `${substituteVariables(auth.basic.username || '', variables)}:${substituteVariables(auth.basic.password || '', variables)}`;
+        headers.push(['Authorization', `Basic ${Buffer.from(credentials).toString('base64')}`]);
+    }
+    else if (auth.type === 'kv' && auth.kv?.key) {
+        const kvPair = [auth.kv.key, substituteVariables(auth.kv.value || '', variables)];
+        if (auth.kv.in === 'query')
+            queryPairs.push(kvPair);
+        else
+            headers.push(kvPair);
+    }
+    const cookies = (request.cookie?.parameter || []).filter(p => p && p.key);
+    if (cookies.length > 0) {
+        headers.push(['Cookie', cookies.map(c => `${c.key}=${substituteVariables(c.value, variables)}`).join('; ')]);
+    }
+    if (queryPairs.length > 0) {
+        url += (url.includes('?') ? '&' : '?') + queryPairs.map(([key, value]) => `${encodeURIComponent(key)}=${encodeQueryValue(value)}`).join('&');
+    }
+    let body;
+    let bodyText;
+    let form;
+    let binaryFile;
+    const bodyMode = request.body?.mode || 'none';
+    const bodyFields = request.body?.raw_parameter || [];
+    const formFields = (request.body?.parameter || []).filter(p => p && p.key);
+    const setContentType = (value) => {
+        if (!headers.some(([key]) => key.toLowerCase() === 'content-type'))
+            headers.push(['Content-Type', value]);
+    };
+    if (!METHODS_WITHOUT_BODY.includes(method)) {
+        if (bodyMode === 'urlencoded' && formFields.length > 0) {
+            bodyText = formFields.map(p => `${encodeURIComponent(p.key)}=${encodeQueryValue(substituteVariables(p.value, variables))}`).join('&');
+            setContentType('application/x-www-form-urlencoded');
+        }
+        else if (bodyMode === 'form-data' && formFields.length > 0) {
+            // multipart 的 Content-Type 由客户端按 boundary 生成
+            form = formFields.map(p => [p.key, substituteVariables(p.value, variables), p.field_type === 'file']);
+        }
+        else if ((bodyMode === 'xml' || bodyMode === 'plain') && request.body?.raw) {
+            bodyText = substituteVariables(request.body.raw, variables);
+            setContentType(bodyMode === 'xml' ? 'application/xml' : 'text/plain');
+        }
+        else if (bodyMode === 'binary') {
+            binaryFile = request.body?.binary?.file_name || 'file.bin';
+            setContentType('application/octet-stream');
+        }
+        else if (bodyFields.length > 0) {
+            // raw 可能带行内注释，解析失败时根据字段列表重新生成
+            body = tryParseJson(request.body?.raw) ?? buildJsonFromFieldList(bodyFields.map(f => ({ key: f.key, type: f.field_type, example: f.value })));
+            setContentType('application/json');
+        }
+    }
+    const unresolved = Array.from(new Set((`${url} ${headers.map(h => h[1]).join(' ')}`.match(/\{\{[^}]+\}\}/g) || [])));
+    return { method, url, headers, body, bodyText, form, binaryFile, unresolved };
+}
+function shellQuote(text) {
+    return `'${String(text).replace(/'/g, `'\\''`)}'`;
+}
+// 将 JSON 值转为 Python 字面量
+function toPythonLiteral(value, level = 0) {
+    const pad = (lvl) => '    '.repeat(lvl);
+    if (value === null || value === undefined)
+        return 'None';
+    if (value === true)
+        return 'True';
+    if (value === false)
+        return 'False';
+    if (Array.isArray(value)) {
+        if (value.length === 0)
+            return '[]';
+        return `[\n${value.map(item => `${pad(level + 1)}${toPythonLiteral(item, level + 1)}`).join(',\n')}\n${pad(level)}]`;
+    }
+    if (typeof value === 'object') {
+        const keys = Object.keys(value);
+        if (keys.length === 0)
+            return '{}';
+        return `{\n${keys.map(key => `${pad(level + 1)}${JSON.stringify(key)}: ${toPythonLiteral(value[key], level + 1)}`).join(',\n')}\n${pad(level)}}`;
+    }
+    return JSON.stringify(value);
+}
+// 按 Go strconv.Quote 规则生成双引号字符串字面量（控制字符转义，孤立代理项替换为 U+FFFD）
+const GO_SIMPLE_ESCAPES = { '\x07': '\\a', '\b': '\\b', '\f': '\\f', '\n': '\\n', '\r': '\\r', '\t': '\\t', '\v': '\\v', '"': '\\"', '\\': '\\\\' };
+function toGoStringLiteral(text) {
+    let result = '"';
+    for (const char of String(text).replace(/[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/g, '\ufffd')) {
+        const code = char.codePointAt(0);
+        if (GO_SIMPLE_ESCAPES[char])
+            result += GO_SIMPLE_ESCAPES[char];
+        else if (code < 0x20 || code === 0x7f)
+            result += `\\x${code.toString(16).padStart(2, '0')}`;
+        else if (code === 0x2028 || code === 0x2029)
+            result += `\\u${code.toString(16)}`;
+        else
+            result += char;
+    }
+    return result + '"';
+}
+const SNIPPET_RENDERERS = {
+    curl: (req) => {
+        // curl -X HEAD 会等待响应体，HEAD 使用 -I
+        const lines = [req.method === 'HEAD' ? `curl -I ${shellQuote(req.url)}` : `curl -X ${req.method} ${shellQuote(req.url)}`];
+        req.headers.forEach(([key, value]) => lines.push(`  -H ${shellQuote(`${key}: ${value}`)}`));
+        if (req.body !== undefined)
+            lines.push(`  --data-raw ${shellQuote(JSON.stringify(req.body, null, 2))}`);
+        else if (req.bodyText !== undefined)
+            lines.push(`  --data-raw ${shellQuote(req.bodyText)}`);
+        else if (req.form)
+            req.form.forEach(([key, value, isFile]) => lines.push(`  -F ${shellQuote(`${key}=${isFile ? '@' : ''}${value}`)}`));
+        else if (req.binaryFile !== undefined)
+            lines.push(`  --data-binary ${shellQuote(`@${req.binaryFile}`)}`);
+        return lines.join(' \\\n');
+    },
+    fetch: (req) => {
+        let code = '';
+        if (req.form || req.binaryFile !== undefined)
+            code += `import { openAsBlob } from 'node:fs';\n\n`;
+        if (req.form) {
+            code += `const form = new FormData();\n`;
+            req.form.forEach(([key, value, isFile]) => {
+                code += isFile
+                    ? `form.append(${JSON.stringify(key)}, await openAsBlob(${JSON.stringify(value)}), ${JSON.stringify(path.basename(String(value)))});\n`
+                    : `form.append(${JSON.stringify(key)}, ${JSON.stringify(String(value))});\n`;
+            });
+            code += '\n';
+        }
+        code += `const response = await fetch(${JSON.stringify(req.url)}, {\n  method: ${JSON.stringify(req.method)}`;
+        if (req.headers.length > 0) {
+            code += `,\n  headers: {\n${req.headers.map(([key, value]) => `    ${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(',\n')}\n  }`;
+        }
+        if (req.body !== undefined) {
+            code += `,\n  body: JSON.stringify(${JSON.stringify(req.body, null, 2).replace(/\n/g, '\n  ')})`;
+        }
+        else if (req.bodyText !== undefined) {
+            code += `,\n  body: ${JSON.stringify(req.bodyText)}`;
+        }
+        else if (req.form) {
+            code += `,\n  body: form`;
+        }
+        else if (req.binaryFile !== undefined) {
+            code += `,\n  body: await openAsBlob(${JSON.stringify(req.binaryFile)})`;
+        }
+        code += `\n});\nconst data = await response.json();\nconsole.log(data);`;
+        return code;
+    },
+    axios: (req) => {
+        let code = `import axios from 'axios';\n`;
+        if (req.form || req.binaryFile !== undefined)
+            code += `import fs from 'node:fs';\n`;
+        code += '\n';
+        if (req.form) {
+            code += `const form = new FormData();\n`;
+            req.form.forEach(([key, value, isFile]) => {
+                code += isFile
+                    ? `form.append(${JSON.stringify(key)}, await fs.openAsBlob(${JSON.stringify(value)}), ${JSON.stringify(path.basename(String(value)))});\n`
+                    : `form.append(${JSON.stringify(key)}, ${JSON.stringify(String(value))});\n`;
+            });
+            code += '\n';
+        }
+        code += `const response = await axios({\n  method: ${JSON.stringify(req.method.toLowerCase())},\n  url: ${JSON.stringify(req.url)}`;
+        if (req.headers.length > 0) {
+            code += `,\n  headers: {\n${req.headers.map(([key, value]) => `    ${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(',\n')}\n  }`;
+        }
+        if (req.body !== undefined) {
+            code += `,\n  data: ${JSON.stringify(req.body, null, 2).replace(/\n/g, '\n  ')}`;
+        }
+        else if (req.bodyText !== undefined) {
+            code += `,\n  data: ${JSON.stringify(req.bodyText)}`;
+        }
+        else if (req.form) {
+            code += `,\n  data: form`;
+        }
+        else if (req.binaryFile !== undefined) {
+            code += `,\n  data: fs.createReadStream(${JSON.stringify(req.binaryFile)})`;
+        }
+        code += `\n});\nconsole.log(response.data);`;
+        return code;
+    },
+    python: (req) => {
+        let code = `import requests\n\nurl = ${JSON.stringify(req.url)}\n`;
+        const callArgs = [JSON.stringify(req.method), 'url'];
+        if (req.headers.length > 0) {
+            code += `headers = {\n${req.headers.map(([key, value]) => `    ${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(',\n')}\n}\n`;
+            callArgs.push('headers=headers');
+        }
+        if (req.body !== undefined) {
+            code += `payload = ${toPythonLiteral(req.body)}\n`;
+            callArgs.push('json=payload');
+        }
+        else if (req.bodyText !== undefined) {
+            code += `payload = ${JSON.stringify(req.bodyText)}\n`;
+            callArgs.push('data=payload.encode("utf-8")');
+        }
+        else if (req.form) {
+            const textFields = req.form.filter(([, , isFile]) => !isFile);
+            const fileFields = req.form.filter(([, , isFile]) => isFile);
+            if (textFields.length > 0) {
+                code += `data = {\n${textFields.map(([key, value]) => `    ${JSON.stringify(key)}: ${JSON.stringify(String(value))}`).join(',\n')}\n}\n`;
+                callArgs.push('data=data');
+            }
+            if (fileFields.length > 0) {
+                code += `files = {\n${fileFields.map(([key, value]) => `    ${JSON.stringify(key)}: open(${JSON.stringify(value)}, "rb")`).join(',\n')}\n}\n`;
+                callArgs.push('files=files');
+            }
+        }
+        else if (req.binaryFile !== undefined) {
+            code += `payload = open(${JSON.stringify(req.binaryFile)}, "rb")\n`;
+            callArgs.push('data=payload');
+        }
+        code += `\nresponse = requests.request(${callArgs.join(', ')})\nprint(response.status_code)\nprint(response.text)`;
+        return code;
+    },
+    go: (req) => {
+        const bodyText = req.body !== undefined ? JSON.stringify(req.body, null, 2) : req.bodyText;
+        const imports = ['"fmt"', '"io"', '"net/http"'];
+        let code = '';
+        let payloadVar = 'nil';
+        if (bodyText !== undefined) {
+            imports.push('"strings"');
+            // 反引号原始字符串无法包含 ` 且会丢弃 \r，此时改用双引号字面量
+            const goLiteral = /[`\r]/.test(bodyText) ? toGoStringLiteral(bodyText) : `\`${bodyText}\``;
+            code += `\tpayload := strings.NewReader(${goLiteral})\n`;
+            payloadVar = 'payload';
+        }
+        else if (req.form) {
+            imports.push('"bytes"', '"mime/multipart"');
+            if (req.form.some(([, , isFile]) => isFile))
+                imports.push('"os"', '"path/filepath"');
+            code += `\tpayload := &bytes.Buffer{}\n\twriter := multipart.NewWriter(payload)\n`;
+            req.form.forEach(([key, value, isFile]) => {
+                if (isFile) {
+                    code += `\tif file, err := os.Open(${toGoStringLiteral(value)}); err == nil {\n\t\tpart, _ := writer.CreateFormFile(${toGoStringLiteral(key)}, filepath.Base(${toGoStringLiteral(value)}))\n\t\tio.Copy(part, file)\n\t\tfile.Close()\n\t}\n`;
+                }
+                else {
+                    code += `\twriter.WriteField(${toGoStringLiteral(key)}, ${toGoStringLiteral(String(value))})\n`;
+                }
+            });
+            code += `\twriter.Close()\n`;
+            payloadVar = 'payload';
+        }
+        else if (req.binaryFile !== undefined) {
+            imports.push('"os"');
+            code += `\tpayload, err := os.Open(${toGoStringLiteral(req.binaryFile)})\n\tif err != nil {\n\t\tpanic(err)\n\t}\n\tdefer payload.Close()\n`;
+            payloadVar = 'payload';
+        }
+        code += `\treq, err := http.NewRequest(${toGoStringLiteral(req.method)}, ${toGoStringLiteral(req.url)}, ${payloadVar})\n`;
+        code += `\tif err != nil {\n\t\tpanic(err)\n\t}\n`;
+        req.headers.forEach(([key, value]) => {
+            code += `\treq.Header.Add(${toGoStringLiteral(key)}, ${toGoStringLiteral(value)})\n`;
+        });
+        if (req.form)
+            code += `\treq.Header.Set("Content-Type", writer.FormDataContentType())\n`;
+        code += `\n\tres, err := http.DefaultClient.Do(req)\n\tif err != nil {\n\t\tpanic(err)\n\t}\n\tdefer res.Body.Close()\n\n\tbody, _ := io.ReadAll(res.Body)\n\tfmt.Println(res.Status)\n\tfmt.Println(string(body))\n}`;
+        return `package main\n\nimport (\n${imports.sort().map(i => `\t${i}`).join('\n')}\n)\n\nfunc main() {\n${code}`;
+    }
+};
+const SNIPPET_CODE_FENCES = { curl: 'bash', fetch: 'javascript', axios: 'javascript', python: 'python', go: 'go' };
+// 去除 JS/TS 注释（保留换行以便定位行号）；maskStrings 为 true 时字符串内容也替换为空格（保留引号），偏移量与原文一致
+function stripCodeComments(code, maskStrings = false) {
+    let result = '';
+    let i = 0;
+    while (i < code.length) {
+        const ch = code[i];
+        const next = code[i + 1];
+        if (ch === '/' && next === '/') {
+            while (i < code.length && code[i] !== '\n') {
+                result += ' ';
+                i++;
+            }
+            continue;
+        }
+        if (ch === '/' && next === '*') {
+            const end = code.indexOf('*/', i + 2);
+            const stop = end === -1 ? code.length : end + 2;
+            result += code.slice(i, stop).replace(/[^\n]/g, ' ');
+            i = stop;
+            continue;
+        }
+        if (ch === '"' || ch === "'" || ch === '`') {
+            let j = i + 1;
+            while (j < code.length && code[j] !== ch) {
+                if (code[j] === '\\')
+                    j++;
+                j++;
+            }
+            const literal = code.slice(i, j + 1);
+            result += maskStrings ? ch + literal.slice(1, -1).replace(/[^\n]/g, ' ') + literal.slice(-1) : literal;
+            i = j + 1;
+            continue;
+        }
+        result += ch;
+        i++;
+    }
+    return result;
+}
+// 读取 index 处的字符串字面量（含 ${} 的模板字符串不视为静态路径），返回 { value, end }
+function readStringLiteral(source, index) {
+    const quote = source[index];
+    if (quote !== '"' && quote !== "'" && quote !== '`')
+        return null;
+    let value = '';
+    let j = index + 1;
+    while (j < source.length && source[j] !== quote) {
+        if (source[j] === '\\') {
+            value += source[j + 1] ?? '';
+            j += 2;
+            continue;
+        }
+        value += source[j];
+        j++;
+    }
+    if (quote === '`' && value.includes('${'))
+        return null;
+    return { value, end: j + 1 };
+}
+// 读取路由路径参数：单个字符串或字符串数组（['a', 'b']），不是静态字符串时返回 null
+function readRoutePaths(source, index) {
+    const single = readStringLiteral(source, index);
+    if (single)
+        return { paths: [single.value], end: single.end };
+    if (source[index] !== '[')
+        return null;
+    const paths = [];
+    let j = index + 1;
+    while (j < source.length) {
+        while (/[\s,]/.test(source[j] || ''))
+            j++;
+        if (source[j] === ']')
+            return { paths, end: j + 1 };
+        const literal = readStringLiteral(source, j);
+        if (!literal)
+            return null;
+        paths.push(literal.value);
+        j = literal.end;
+    }
+    return null;
+}
+// 在已屏蔽注释与字符串的源码中查找与 openIndex 处 ( 配对的 )
+function findClosingParen(masked, openIndex) {
+    let depth = 0;
+    for (let j = openIndex; j < masked.length; j++) {
+        if (masked[j] === '(')
+            depth++;
+        else if (masked[j] === ')' && --depth === 0)
+            return j;
+    }
+    return masked.length;
+}
+// 拼接路由路径片段
+function joinRoutePath(...parts) {
+    const joined = parts
+        .filter(part => part !== undefined && part !== null && part !== '')
+        .map(part => String(part).replace(/^\/+|\/+$/g, ''))
+        .filter(Boolean)
+        .join('/');
+    return '/' + joined;
+}
+const ROUTE_SCAN_EXTENSIONS = ['.ts', '.js', '.mjs', '.cjs', '.mts', '.cts'];
+const ROUTE_SCAN_EXCLUDED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', '.git', '.next', '.nuxt', 'out']);
+// 递归收集待扫描的源码文件
+function collectSourceFiles(dir, files = [], maxFiles = 5000) {
+    let entries = [];
+    try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+    }
+    catch {
+        return files;
+    }
+    for (const entry of entries) {
+        if (files.length >= maxFiles)
+            break;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!ROUTE_SCAN_EXCLUDED_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
+                collectSourceFiles(fullPath, files, maxFiles);
+            }
+        }
+        else if (ROUTE_SCAN_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+// 静态扫描单个文件中的路由注册：Express/Koa 的 app.get/router.post/router.route().get() 等，以及 NestJS 的 @Controller + @Get/@Post 等
+// 在屏蔽了注释与字符串内容的副本上匹配，避免把字符串里的 "app.get('/x')" 当作路由；路径取自原文中对应位置的字面量
+function scanRoutesInSource(code, file) {
+    const source = stripCodeComments(code);
+    const masked = stripCodeComments(code, true);
+    const routes = [];
+    const lineOf = (index) => source.slice(0, index).split('\n').length;
+    const skipSpaces = (index) => {
+        while (/\s/.test(source[index] || ''))
+            index++;
+        return index;
+    };
+    // Koa Router 的 prefix：const userRouter = new Router({ prefix: '/users' })
+    const routerPrefixes = new Map();
+    const prefixPattern = /([A-Za-z_$][\w$]*)\s*=\s*new\s+(?:Koa)?Router\s*\(\s*\{[^}]*?prefix\s*:\s*/g;
+    let match;
+    while ((match = prefixPattern.exec(masked)) !== null) {
+        const prefix = readStringLiteral(source, match.index + match[0].length);
+        if (prefix)
+            routerPrefixes.set(match[1], prefix.value);
+    }
+    // 只识别常见的应用/路由对象，避免把 axios.get、map.get 当作路由
+    const isRouterReceiver = (receiver) => /^(app|server|router|routes|route|api[A-Z]\w*|\w*Router|\w*router|\w*App|\w*app)$/.test(receiver);
+    const pushExpressRoutes = (receiver, method, paths, index) => {
+        paths.filter(routePath => routePath.startsWith('/')).forEach(routePath => {
+            routes.push({
+                method: method.toUpperCase(),
+                path: joinRoutePath(routerPrefixes.get(receiver), routePath),
+                file,
+                line: lineOf(index),
+                framework: routerPrefixes.has(receiver) ? 'koa' : 'express'
+            });
+        });
+    };
+    const expressPattern = /\b([A-Za-z_$][\w$]*)\s*\.\s*(get|post|put|delete|patch|head|options|all)\s*\(\s*/g;
+    while ((match = expressPattern.exec(masked)) !== null) {
+        if (!isRouterReceiver(match[1]))
+            continue;
+        const routeArgs = readRoutePaths(source, match.index + match[0].length);
+        if (routeArgs)
+            pushExpressRoutes(match[1], match[2], routeArgs.paths, match.index);
+    }
+    // Express 链式写法：router.route('/users/:id').get(handler).put(handler)
+    const routeChainPattern = /\b([A-Za-z_$][\w$]*)\s*\.\s*route\s*\(\s*/g;
+    while ((match = routeChainPattern.exec(masked)) !== null) {
+        if (!isRouterReceiver(match[1]))
+            continue;
+        const routeArgs = readRoutePaths(source, match.index + match[0].length);
+        if (!routeArgs)
+            continue;
+        let position = findClosingParen(masked, masked.lastIndexOf('(', match.index + match[0].length)) + 1;
+        const chainPattern = /\s*\.\s*(get|post|put|delete|patch|head|options|all)\s*\(/y;
+        let chained;
+        while ((chainPattern.lastIndex = position, chained = chainPattern.exec(masked)) !== null) {
+            pushExpressRoutes(match[1], chained[1], routeArgs.paths, match.index);
+            position = findClosingParen(masked, chainPattern.lastIndex - 1) + 1;
+        }
+    }
+    // NestJS：每个路由装饰器归属其前面最近的 @Controller，路径可以是字符串或字符串数组
+    const controllers = [];
+    const controllerPattern = /@Controller\s*\(\s*/g;
+    while ((match = controllerPattern.exec(masked)) !== null) {
+        const argIndex = match.index + match[0].length;
+        let prefixes = [''];
+        const routeArgs = readRoutePaths(source, argIndex);
+        if (routeArgs) {
+            prefixes = routeArgs.paths;
+        }
+        else if (masked[argIndex] === '{') {
+            const pathMatch = /\bpath\s*:\s*/g;
+            pathMatch.lastIndex = argIndex;
+            const found = pathMatch.exec(masked);
+            const objectEnd = findClosingParen(masked, masked.lastIndexOf('(', argIndex));
+            const pathArgs = found && found.index < objectEnd ? readRoutePaths(source, found.index + found[0].length) : null;
+            if (pathArgs)
+                prefixes = pathArgs.paths;
+        }
+        controllers.push({ index: match.index, prefixes });
+    }
+    if (controllers.length > 0) {
+        const methodPattern = /@(Get|Post|Put|Delete|Patch|Head|Options|All)\s*\(\s*/g;
+        while ((match = methodPattern.exec(masked)) !== null) {
+            const decoratorIndex = match.index;
+            const controller = [...controllers].reverse().find(c => c.index < decoratorIndex);
+            if (!controller)
+                continue;
+            const argIndex = match.index + match[0].length;
+            const routeArgs = masked[argIndex] === ')' ? { paths: [''] } : readRoutePaths(source, argIndex);
+            if (!routeArgs)
+                continue;
+            const decoratorEnd = findClosingParen(masked, masked.lastIndexOf('(', argIndex)) + 1;
+            const handlerMatch = masked.slice(decoratorEnd).match(/^(?:\s*@\w+(?:\s*\([^)]*\))?)*\s*(?:(?:public|private|protected|static)\s+)*(?:async\s+)?([A-Za-z_$][\w$]*)\s*\(/);
+            controller.prefixes.forEach(prefix => {
+                routeArgs.paths.forEach(routePath => {
+                    routes.push({
+                        method: match[1].toUpperCase(),
+                        path: joinRoutePath(prefix, routePath),
+                        file,
+                        line: lineOf(decoratorIndex),
+                        framework: 'nestjs',
+                        handler: handlerMatch ? handlerMatch[1] : undefined
+                    });
+                });
+            });
+        }
+    }
+    return routes.sort((a, b) => a.line - b.line);
+}
+// 将 TS/JS 源码切分为词法单元，JSDoc 注释挂到其后的第一个单元上
+function tokenizeTypeSource(code) {
+    const tokens = [];
+    const identPattern = /[A-Za-z_$][\w$]*/y;
+    const numberPattern = /\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    let pendingDoc = null;
+    let line = 1;
+    let i = 0;
+    const push = (type, value) => {
+        tokens.push({ type, value, doc: pendingDoc, line });
+        pendingDoc = null;
+    };
+    while (i < code.length) {
+        const ch = code[i];
+        if (ch === '\n')
+            line++;
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (ch === '/' && code[i + 1] === '/') {
+            const end = code.indexOf('\n', i);
+            i = end === -1 ? code.length : end;
+            continue;
+        }
+        if (ch === '/' && code[i + 1] === '*') {
+            const end = code.indexOf('*/', i + 2);
+            const stop = end === -1 ? code.length : end + 2;
+            const comment = code.slice(i, stop);
+            if (comment.startsWith('/**'))
+                pendingDoc = comment.slice(3, -2);
+            line += comment.split('\n').length - 1;
+            i = stop;
+            continue;
+        }
+        if (ch === '"' || ch === "'" || ch === '`') {
+            let j = i + 1;
+            let value = '';
+            while (j < code.length && code[j] !== ch) {
+                if (code[j] === '\\') {
+                    value += code[j + 1] || '';
+                    j += 2;
+                    continue;
+                }
+                if (code[j] === '\n')
+                    line++;
+                value += code[j];
+                j++;
+            }
+            push('string', value);
+            i = j + 1;
+            continue;
+        }
+        const prev = tokens[tokens.length - 1];
+        if (ch === '/' && (!prev || (prev.type === 'punct' && '(,=:[!&|?{};'.includes(prev.value)))) {
+            // 正则字面量（如 z.string().regex(/.../)）
+            let j = i + 1;
+            let inClass = false;
+            while (j < code.length && code[j] !== '\n') {
+                if (code[j] === '\\') {
+                    j += 2;
+                    continue;
+                }
+                if (code[j] === '[')
+                    inClass = true;
+                else if (code[j] === ']')
+                    inClass = false;
+                else if (code[j] === '/' && !inClass)
+                    break;
+                j++;
+            }
+            j++;
+            while (j < code.length && /[a-z]/i.test(code[j]))
+                j++;
+            push('regex', code.slice(i, j));
+            i = j;
+            continue;
+        }
+        identPattern.lastIndex = i;
+        const identMatch = identPattern.exec(code);
+        if (identMatch) {
+            push('ident', identMatch[0]);
+            i += identMatch[0].length;
+            continue;
+        }
+        numberPattern.lastIndex = i;
+        const numberMatch = numberPattern.exec(code);
+        if (numberMatch) {
+            push('number', Number(numberMatch[0].replace(/_/g, '')));
+            i += numberMatch[0].length;
+            continue;
+        }
+        const multi = ['...', '=>', '?.'].find(op => code.startsWith(op, i));
+        push('punct', multi || ch);
+        i += multi ? multi.length : 1;
+    }
+    return tokens;
+}
+// 解析 JSDoc：正文作为描述，@example/@default 作为示例值
+function parseJsDoc(raw) {
+    if (!raw)
+        return {};
+    const lines = raw.split('\n').map(l => l.replace(/^\s*\*?\s?/, '').trimEnd());
+    const descLines = [];
+    const tags = {};
+    let currentTag = null;
+    lines.forEach(l => {
+        const tagMatch = l.match(/^@(\w+)\s*(.*)$/);
+        if (tagMatch) {
+            currentTag = tagMatch[1];
+            tags[currentTag] = tagMatch[2];
+        }
+        else if (currentTag) {
+            tags[currentTag] = `${tags[currentTag]}\n${l}`.trim();
+        }
+        else if (l.trim()) {
+            descLines.push(l.trim());
+        }
+    });
+    const doc = {};
+    const desc = descLines.join(' ') || (tags.description || '').trim();
+    if (desc)
+        doc.desc = desc;
+    const exampleText = (tags.example ?? tags.default ?? '').trim();
+    if (exampleText) {
+        const parsed = tryParseJson(exampleText);
+        doc.example = parsed === undefined ? exampleText.replace(/^(['"`])(.*)\1$/s, '$2') : parsed;
+    }
+    return doc;
+}
+const TS_PRIMITIVE_TYPES = new Set(['string', 'number', 'boolean', 'bigint', 'any', 'unknown', 'object', 'null', 'undefined', 'void', 'never', 'symbol']);
+const TS_MEMBER_MODIFIERS = new Set(['readonly', 'public', 'private', 'protected', 'static', 'declare', 'abstract', 'override', 'get', 'set', 'async']);
+// 解析文件中的 interface / type / class / enum 声明与 zod schema 常量，返回 名称→类型节点 的映射
+function parseTypeDeclarations(code) {
+    const tokens = tokenizeTypeSource(code);
+    const declarations = new Map();
+    const warnings = [];
+    let pos = 0;
+    const peek = (offset = 0) => tokens[pos + offset];
+    const isPunct = (value, offset = 0) => peek(offset)?.type === 'punct' && peek(offset).value === value;
+    const isIdent = (value, offset = 0) => peek(offset)?.type === 'ident' && (value === undefined || peek(offset).value === value);
+    const expectPunct = (value) => {
+        if (!isPunct(value))
+            throw new Error(`第 ${peek()?.line ?? '末尾'} 行附近应为 "${value}"`);
+        pos++;
+    };
+    const expectIdent = () => {
+        if (!isIdent())
+            throw new Error(`第 ${peek()?.line ?? '末尾'} 行附近应为标识符`);
+        return tokens[pos++].value;
+    };
+    // 跳过成对括号包裹的内容，pos 需指向开括号
+    const skipBalanced = () => {
+        const pairs = { '(': ')', '[': ']', '{': '}', '<': '>' };
+        const open = peek().value;
+        const close = pairs[open];
+        let depth = 0;
+        const start = pos;
+        while (pos < tokens.length) {
+            const token = tokens[pos++];
+            if (token.type !== 'punct')
+                continue;
+            if (token.value === open)
+                depth++;
+            else if (token.value === close && --depth === 0)
+                break;
+        }
+        return tokens.slice(start + 1, pos - 1);
+    };
+    const literalTokenValue = (token) => {
+        if (token?.type === 'string' || token?.type === 'number')
+            return token.value;
+        if (token?.type === 'ident' && (token.value === 'true' || token.value === 'false'))
+            return token.value === 'true';
+        return undefined;
+    };
+    const parseQualifiedName = () => {
+        let name = expectIdent();
+        while (isPunct('.') && isIdent(undefined, 1)) {
+            pos++;
+            name += '.' + expectIdent();
+        }
+        return name;
+    };
+    const parseTypeArgs = () => {
+        const args = [];
+        expectPunct('<');
+        while (!isPunct('>') && pos < tokens.length) {
+            args.push(parseType());
+            if (isPunct(','))
+                pos++;
+        }
+        expectPunct('>');
+        return args;
+    };
+    // 类型参数列表，记录默认类型（interface R<T, E = string>）
+    const parseTypeParams = () => {
+        if (!isPunct('<'))
+            return [];
+        const params = [];
+        pos++;
+        while (!isPunct('>') && pos < tokens.length) {
+            const param = { name: expectIdent() };
+            params.push(param);
+            if (isIdent('extends')) {
+                pos++;
+                parseType();
+            }
+            if (isPunct('=')) {
+                pos++;
+                param.fallback = parseType();
+            }
+            if (isPunct(','))
+                pos++;
+        }
+        expectPunct('>');
+        return params;
+    };
+    const parsePrimaryType = () => {
+        const token = peek();
+        if (!token)
+            throw new Error('类型表达式不完整');
+        if (token.type === 'string' || token.type === 'number') {
+            pos++;
+            return { kind: 'literal', value: token.value };
+        }
+        if (token.type === 'punct') {
+            if (token.value === '-' && peek(1)?.type === 'number') {
+                pos += 2;
+                return { kind: 'literal', value: -peek(-1).value };
+            }
+            if (token.value === '{')
+                return parseObjectType();
+            if (token.value === '[') {
+                pos++;
+                const elements = [];
+                while (!isPunct(']') && pos < tokens.length) {
+                    if (isPunct('...'))
+                        pos++;
+                    if (isIdent() && (isPunct(':', 1) || (isPunct('?', 1) && isPunct(':', 2))))
+                        pos += isPunct('?', 1) ? 3 : 2;
+                    elements.push(parseType());
+                    if (isPunct(','))
+                        pos++;
+                }
+                expectPunct(']');
+                return { kind: 'tuple', elements };
+            }
+            if (token.value === '(' || token.value === '<') {
+                // 函数类型 (a: T) => R，或带括号的类型
+                const start = pos;
+                if (token.value === '<')
+                    skipBalanced();
+                skipBalanced();
+                if (isPunct('=>')) {
+                    pos++;
+                    parseType();
+                    return { kind: 'prim', name: 'function' };
+                }
+                pos = start + 1;
+                const inner = parseType();
+                expectPunct(')');
+                return inner;
+            }
+            throw new Error(`第 ${token.line} 行无法识别的类型符号 "${token.value}"`);
+        }
+        if (token.type !== 'ident')
+            throw new Error(`第 ${token.line} 行无法识别的类型`);
+        if (token.value === 'typeof') {
+            pos++;
+            return { kind: 'typeof', name: parseQualifiedName() };
+        }
+        if (token.value === 'keyof') {
+            pos++;
+            parsePostfixType();
+            return { kind: 'prim', name: 'string' };
+        }
+        if (token.value === 'new') {
+            pos++;
+            return parsePrimaryType();
+        }
+        if ((token.value === 'readonly' || token.value === 'unique') && (peek(1)?.type === 'ident' || isPunct('[', 1) || isPunct('(', 1))) {
+            // readonly string[]、unique symbol 不影响字段结构
+            pos++;
+            return parsePostfixType();
+        }
+        if (token.value === 'true' || token.value === 'false') {
+            pos++;
+            return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (TS_PRIMITIVE_TYPES.has(token.value)) {
+            pos++;
+            return { kind: 'prim', name: token.value };
+        }
+        const name = parseQualifiedName();
+        const args = isPunct('<') ? parseTypeArgs() : [];
+        return { kind: 'ref', name, args };
+    };
+    const parsePostfixType = () => {
+        let node = parsePrimaryType();
+        while (isPunct('[')) {
+            if (isPunct(']', 1)) {
+                pos += 2;
+                node = { kind: 'array', element: node };
+            }
+            else {
+                // 索引访问类型 T['key'] 无法静态求值
+                skipBalanced();
+                node = { kind: 'prim', name: 'any' };
+            }
+        }
+        return node;
+    };
+    const parseIntersectionType = () => {
+        const types = [parsePostfixType()];
+        while (isPunct('&')) {
+            pos++;
+            types.push(parsePostfixType());
+        }
+        return types.length === 1 ? types[0] : { kind: 'intersection', types };
+    };
+    function parseType() {
+        if (isPunct('|') || isPunct('&'))
+            pos++;
+        const types = [parseIntersectionType()];
+        while (isPunct('|')) {
+            pos++;
+            types.push(parseIntersectionType());
+        }
+        return types.length === 1 ? types[0] : { kind: 'union', types };
+    }
+    // 解析类装饰器（class-validator / @nestjs/swagger）中的可选、整数、描述与示例
+    const parseDecorators = () => {
+        const info = {};
+        while (isPunct('@')) {
+            pos++;
+            const decoratorName = parseQualifiedName().split('.').pop();
+            const argTokens = isPunct('(') ? skipBalanced() : [];
+            if (decoratorName === 'IsOptional' || decoratorName === 'ApiPropertyOptional')
+                info.optional = true;
+            if (decoratorName === 'IsInt')
+                info.integer = true;
+            argTokens.forEach((t, index) => {
+                const value = argTokens[index + 2];
+                if (t.type !== 'ident' || argTokens[index + 1]?.value !== ':' || !value)
+                    return;
+                if (t.value === 'description' && value.type === 'string')
+                    info.desc = value.value;
+                if (t.value === 'example' && (value.type === 'string' || value.type === 'number'))
+                    info.example = value.value;
+                if (t.value === 'required' && value.value === 'false')
+                    info.optional = true;
+            });
+        }
+        return info;
+    };
+    // 跳过类属性初始值，直到分号、类结束或下一行的新成员
+    const skipInitializer = () => {
+        const startLine = peek()?.line;
+        let depth = 0;
+        while (pos < tokens.length) {
+            const token = peek();
+            if (token.type === 'punct') {
+                if ('([{'.includes(token.value))
+                    depth++;
+                else if (')]}'.includes(token.value)) {
+                    if (depth === 0)
+                        return;
+                    depth--;
+                }
+                else if (token.value === ';' && depth === 0)
+                    return;
+            }
+            const prev = peek(-1);
+            if (depth === 0 && token.line > startLine && (token.type === 'ident' || isPunct('@')) && !(prev.type === 'punct' && '=+-*/.,(?:&|'.includes(prev.value)))
+                return;
+            pos++;
+        }
+    };
+    const inferInitializerType = () => {
+        const token = peek();
+        if (!token)
+            return { kind: 'prim', name: 'any' };
+        if (token.type === 'string')
+            return { kind: 'prim', name: 'string' };
+        if (token.type === 'number')
+            return { kind: 'prim', name: 'number' };
+        if (token.value === 'true' || token.value === 'false')
+            return { kind: 'prim', name: 'boolean' };
+        if (isPunct('['))
+            return { kind: 'array', element: { kind: 'prim', name: 'any' } };
+        if (isIdent('new') && isIdent('Date', 1))
+            return { kind: 'ref', name: 'Date', args: [] };
+        return { kind: 'prim', name: 'any' };
+    };
+    // 解析 { ... } 成员列表（interface 体、类型字面量、class 体）
+    function parseObjectType(isClass = false) {
+        expectPunct('{');
+        const members = [];
+        while (!isPunct('}') && pos < tokens.length) {
+            if (isPunct(';') || isPunct(',')) {
+                pos++;
+                continue;
+            }
+            const doc = parseJsDoc(peek().doc);
+            const decoratorInfo = parseDecorators();
+            const modifiers = [];
+            while (isIdent() && TS_MEMBER_MODIFIERS.has(peek().value) && (peek(1)?.type === 'ident' || peek(1)?.type === 'string' || isPunct('[', 1)))
+                modifiers.push(tokens[pos++].value);
+            if (isPunct('[')) {
+                // 索引签名 / 映射类型 / 计算属性，无法展开为固定字段
+                skipBalanced();
+                if (isPunct('?') || isPunct('-') || isPunct('+'))
+                    pos++;
+                if (isPunct('?'))
+                    pos++;
+                if (isPunct(':')) {
+                    pos++;
+                    parseType();
+                }
+                continue;
+            }
+            if (isPunct('(') || isPunct('<')) {
+                // 调用签名
+                if (isPunct('<'))
+                    skipBalanced();
+                skipBalanced();
+                if (isPunct(':')) {
+                    pos++;
+                    parseType();
+                }
+                continue;
+            }
+            const nameToken = tokens[pos++];
+            if (!nameToken || nameToken.type === 'punct')
+                throw new Error(`第 ${nameToken?.line ?? '末尾'} 行无法识别的成员`);
+            const member = { name: String(nameToken.value), optional: false, doc: { ...doc, ...decoratorInfo } };
+            if (isPunct('?')) {
+                member.optional = true;
+                pos++;
+            }
+            else if (isPunct('!')) {
+                pos++;
+            }
+            if (isPunct('(') || isPunct('<')) {
+                // 方法：跳过参数、返回类型与方法体
+                if (isPunct('<'))
+                    skipBalanced();
+                skipBalanced();
+                if (isPunct(':')) {
+                    pos++;
+                    parseType();
+                }
+                if (isClass && isPunct('{'))
+                    skipBalanced();
+                continue;
+            }
+            if (isPunct(':')) {
+                pos++;
+                member.type = parseType();
+            }
+            if (isClass && isPunct('=')) {
+                pos++;
+                member.type = member.type || inferInitializerType();
+                skipInitializer();
+            }
+            // 构造函数与静态成员不属于实例字段
+            if (nameToken.value === 'constructor' || modifiers.includes('static'))
+                continue;
+            member.type = member.type || { kind: 'prim', name: 'any' };
+            if (decoratorInfo.optional)
+                member.optional = true;
+            if (decoratorInfo.integer && member.type.kind === 'prim' && member.type.name === 'number')
+                member.type = { kind: 'prim', name: 'integer' };
+            members.push(member);
+        }
+        expectPunct('}');
+        return { kind: 'object', members };
+    }
+    // NestJS 映射类型：PartialType(A)、PickType(A, ['x'])、OmitType(A, ['x'])、IntersectionType(A, B)
+    const parseClassHeritage = () => {
+        const name = parseQualifiedName();
+        if (!isPunct('('))
+            return { kind: 'ref', name, args: isPunct('<') ? parseTypeArgs() : [] };
+        expectPunct('(');
+        const parts = [];
+        let keys = [];
+        while (!isPunct(')') && pos < tokens.length) {
+            if (isPunct('[')) {
+                keys = skipBalanced().filter(t => t.type === 'string').map(t => t.value);
+            }
+            else if (isIdent()) {
+                parts.push(parseClassHeritage());
+            }
+            else {
+                pos++;
+            }
+        }
+        expectPunct(')');
+        const helper = name.split('.').pop();
+        if (helper === 'PartialType')
+            return { kind: 'partial', type: parts[0] };
+        if (helper === 'PickType')
+            return { kind: 'pick', type: parts[0], keys };
+        if (helper === 'OmitType')
+            return { kind: 'omit', type: parts[0], keys };
+        return { kind: 'intersection', types: parts };
+    };
+    const parseZodArgsObject = () => {
+        expectPunct('{');
+        const members = [];
+        while (!isPunct('}') && pos < tokens.length) {
+            if (isPunct(',')) {
+                pos++;
+                continue;
+            }
+            if (isPunct('...')) {
+                pos++;
+                parseZodExpr();
+                continue;
+            }
+            const nameToken = tokens[pos++];
+            const doc = parseJsDoc(nameToken.doc);
+            expectPunct(':');
+            const type = parseZodExpr();
+            members.push({ name: String(nameToken.value), optional: !!type.optional, doc, type });
+        }
+        expectPunct('}');
+        return { kind: 'object', members };
+    };
+    const parseZodList = () => {
+        expectPunct('[');
+        const items = [];
+        while (!isPunct(']') && pos < tokens.length) {
+            items.push(parseZodExpr());
+            if (isPunct(','))
+                pos++;
+        }
+        expectPunct(']');
+        return items;
+    };
+    const parseZodFactory = (method) => {
+        expectPunct('(');
+        let node;
+        switch (method) {
+            case 'object':
+            case 'strictObject':
+            case 'looseObject':
+                node = isPunct('{') ? parseZodArgsObject() : { kind: 'object', members: [] };
+                break;
+            case 'array':
+            case 'set':
+                node = { kind: 'array', element: parseZodExpr() };
+                break;
+            case 'optional':
+            case 'nullable':
+                node = { ...parseZodExpr(), optional: method === 'optional' };
+                break;
+            case 'enum':
+                node = isPunct('[')
+                    ? { kind: 'union', types: skipBalanced().filter(t => t.type === 'string').map(t => ({ kind: 'literal', value: t.value })) }
+                    : { kind: 'ref', name: parseQualifiedName(), args: [] };
+                break;
+            case 'nativeEnum':
+                node = { kind: 'ref', name: parseQualifiedName(), args: [] };
+                break;
+            case 'literal':
+                node = { kind: 'literal', value: literalTokenValue(peek()) };
+                pos++;
+                break;
+            case 'union':
+                node = { kind: 'union', types: parseZodList() };
+                break;
+            case 'discriminatedUnion':
+                pos++;
+                expectPunct(',');
+                node = { kind: 'union', types: parseZodList() };
+                break;
+            case 'intersection': {
+                const left = parseZodExpr();
+                expectPunct(',');
+                node = { kind: 'intersection', types: [left, parseZodExpr()] };
+                break;
+            }
+            case 'tuple':
+                node = { kind: 'tuple', elements: parseZodList() };
+                break;
+            case 'lazy':
+                // z.lazy(() => Schema)
+                skipBalanced();
+                expectPunct('=>');
+                node = parseZodExpr();
+                break;
+            case 'int':
+            case 'int32':
+            case 'int64':
+                node = { kind: 'prim', name: 'integer' };
+                break;
+            case 'number':
+            case 'float32':
+            case 'float64':
+            case 'nan':
+                node = { kind: 'prim', name: 'number' };
+                break;
+            case 'bigint':
+                node = { kind: 'prim', name: 'bigint' };
+                break;
+            case 'boolean':
+                node = { kind: 'prim', name: 'boolean' };
+                break;
+            case 'date':
+                node = { kind: 'ref', name: 'Date', args: [] };
+                break;
+            case 'record':
+            case 'map':
+                node = { kind: 'prim', name: 'object' };
+                break;
+            case 'null':
+                node = { kind: 'prim', name: 'null' };
+                break;
+            case 'any':
+            case 'unknown':
+                node = { kind: 'prim', name: 'any' };
+                break;
+            default:
+                // string 以及 email/uuid/url/datetime 等字符串格式
+                node = { kind: 'prim', name: 'string' };
+        }
+        // 跳过未消费的参数（如 z.string({ message }) 的选项）
+        let depth = 0;
+        while (pos < tokens.length && !(depth === 0 && isPunct(')'))) {
+            if (isPunct('(') || isPunct('[') || isPunct('{'))
+                depth++;
+            else if (isPunct(')') || isPunct(']') || isPunct('}'))
+                depth--;
+            pos++;
+        }
+        expectPunct(')');
+        return node;
+    };
+    // 解析 zod 表达式：z.xxx(...) 或引用其它 schema 常量，再处理链式调用
+    function parseZodExpr() {
+        let node;
+        if (isIdent('z') && isPunct('.', 1)) {
+            pos++;
+            let method = '';
+            while (isPunct('.') && isIdent(undefined, 1)) {
+                pos++;
+                method = expectIdent();
+            }
+            node = parseZodFactory(method);
+        }
+        else if (isIdent()) {
+            node = { kind: 'ref', name: expectIdent(), args: [] };
+        }
+        else {
+            throw new Error(`第 ${peek()?.line ?? '末尾'} 行无法识别的 zod 表达式`);
+        }
+        while (isPunct('.') && isIdent(undefined, 1)) {
+            pos++;
+            const method = expectIdent();
+            if (!isPunct('(')) {
+                // 属性访问（如 Schema.shape），不影响类型
+                continue;
+            }
+            if (method === 'extend' || method === 'merge' || method === 'and' || method === 'or') {
+                expectPunct('(');
+                const other = isPunct('{') ? parseZodArgsObject() : parseZodExpr();
+                expectPunct(')');
+                const kind = method === 'or' ? 'union' : 'intersection';
+                node = { kind, types: [node, other], optional: node.optional, desc: node.desc };
+                continue;
+            }
+            const argTokens = skipBalanced();
+            const firstArg = argTokens[0];
+            if (method === 'optional' || method === 'nullish')
+                node = { ...node, optional: true };
+            else if (method === 'default' || method === 'catch')
+                node = { ...node, optional: true, example: literalTokenValue(firstArg) };
+            else if (method === 'describe' && firstArg?.type === 'string')
+                node = { ...node, desc: firstArg.value };
+            else if (method === 'meta')
+                argTokens.forEach((t, index) => {
+                    if (t.value === 'description' && argTokens[index + 2]?.type === 'string')
+                        node = { ...node, desc: argTokens[index + 2].value };
+                });
+            else if (method === 'int')
+                node = { ...node, kind: 'prim', name: 'integer' };
+            else if (method === 'array')
+                node = { kind: 'array', element: node };
+            else if (method === 'partial')
+                node = { kind: 'partial', type: node };
+            else if (method === 'pick' || method === 'omit')
+                node = { kind: method, type: node, keys: argTokens.filter((t, index) => (t.type === 'ident' || t.type === 'string') && argTokens[index + 1]?.value === ':').map(t => t.value) };
+        }
+        return node;
+    }
+    const register = (name, declaration) => {
+        declarations.set(name, declaration);
+    };
+    let depth = 0;
+    while (pos < tokens.length) {
+        const token = peek();
+        if (token.type === 'punct') {
+            if ('({['.includes(token.value))
+                depth++;
+            else if (')}]'.includes(token.value))
+                depth = Math.max(0, depth - 1);
+            pos++;
+            continue;
+        }
+        const prevToken = peek(-1);
+        if (depth !== 0 || token.type !== 'ident' || (prevToken && prevToken.type === 'punct' && prevToken.value === '.')) {
+            pos++;
+            continue;
+        }
+        const start = pos;
+        try {
+            if (token.value === 'interface' && isIdent(undefined, 1)) {
+                pos++;
+                const declName = expectIdent();
+                const params = parseTypeParams();
+                const bases = [];
+                if (isIdent('extends')) {
+                    pos++;
+                    bases.push(parseClassHeritage());
+                    while (isPunct(',')) {
+                        pos++;
+                        bases.push(parseClassHeritage());
+                    }
+                }
+                const body = parseObjectType();
+                register(declName, { kind: 'interface', params, node: bases.length ? { kind: 'intersection', types: [...bases, body] } : body });
+                continue;
+            }
+            if (token.value === 'type' && isIdent(undefined, 1) && (isPunct('=', 2) || isPunct('<', 2))) {
+                pos++;
+                const declName = expectIdent();
+                const params = parseTypeParams();
+                expectPunct('=');
+                register(declName, { kind: 'type', params, node: parseType() });
+                continue;
+            }
+            if (token.value === 'enum' && isIdent(undefined, 1) && isPunct('{', 2)) {
+                pos++;
+                const declName = expectIdent();
+                const values = [];
+                let nextValue = 0;
+                expectPunct('{');
+                while (!isPunct('}') && pos < tokens.length) {
+                    if (isPunct(',')) {
+                        pos++;
+                        continue;
+                    }
+                    pos++;
+                    let value = nextValue;
+                    if (isPunct('=')) {
+                        pos++;
+                        const negative = isPunct('-');
+                        if (negative)
+                            pos++;
+                        value = negative ? -peek().value : peek().value;
+                        pos++;
+                    }
+                    values.push(value);
+                    if (typeof value === 'number')
+                        nextValue = value + 1;
+                }
+                expectPunct('}');
+                register(declName, { kind: 'enum', values });
+                continue;
+            }
+            if (token.value === 'class' && isIdent(undefined, 1)) {
+                pos++;
+                const declName = expectIdent();
+                const params = parseTypeParams();
+                const bases = [];
+                if (isIdent('extends')) {
+                    pos++;
+                    bases.push(parseClassHeritage());
+                }
+                if (isIdent('implements')) {
+                    pos++;
+                    while (!isPunct('{') && pos < tokens.length)
+                        pos++;
+                }
+                const body = parseObjectType(true);
+                register(declName, { kind: 'class', params, node: bases.length ? { kind: 'intersection', types: [...bases, body] } : body });
+                continue;
+            }
+            if (['const', 'let', 'var'].includes(token.value) && isIdent(undefined, 1)) {
+                pos++;
+                const declName = expectIdent();
+                if (isPunct(':')) {
+                    pos++;
+                    parseType();
+                }
+                if (isPunct('=') && isIdent(undefined, 1) && (peek(1).value === 'z' || declarations.get(peek(1).value)?.kind === 'zod') && isPunct('.', 2)) {
+                    pos++;
+                    register(declName, { kind: 'zod', params: [], node: parseZodExpr() });
+                }
+                continue;
+            }
+        }
+        catch (error) {
+            warnings.push(`跳过无法解析的声明（第 ${token.line} 行）: ${error instanceof Error ? error.message : String(error)}`);
+            pos = start + 1;
+            continue;
+        }
+        pos++;
+    }
+    return { declarations, warnings };
+}
+// 合并 allOf 并去掉组合关键字，便于 Partial/Pick/Omit 修改 required/properties
+function flattenTypeSchema(schema) {
+    const { allOf, anyOf, oneOf, ...merged } = mergeSchemaComposition({}, schema, []);
+    return merged;
+}
+// 将类型节点转为 JSON Schema（泛型参数通过 env 绑定，stack 用于循环引用检测）
+function typeNodeToSchema(node, declarations, warnings, env = {}, stack = []) {
+    const convert = (child, childEnv = env, childStack = stack) => typeNodeToSchema(child, declarations, warnings, childEnv, childStack);
+    let schema;
+    switch (node?.kind) {
+        case 'prim':
+            schema = {
+                string: { type: 'string' },
+                number: { type: 'number' },
+                integer: { type: 'integer' },
+                bigint: { type: 'integer' },
+                boolean: { type: 'boolean' },
+                null: { type: 'null' },
+                undefined: { type: 'null' },
+                object: { type: 'object' }
+            }[node.name] || {};
+            break;
+        case 'literal':
+            schema = { type: inferFieldType(node.value), enum: [node.value] };
+            break;
+        case 'array':
+            schema = { type: 'array', items: convert(node.element) };
+            break;
+        case 'tuple':
+            schema = { type: 'array', items: node.elements.length ? convert(node.elements[0]) : {} };
+            break;
+        case 'object': {
+            const properties = {};
+            const required = [];
+            node.members.forEach(member => {
+                if (member.type.kind === 'prim' && member.type.name === 'function')
+                    return;
+                let propSchema = convert(member.type);
+                if (member.doc.desc)
+                    propSchema = { ...propSchema, description: member.doc.desc };
+                if (member.doc.example !== undefined)
+                    propSchema = { ...propSchema, example: member.doc.example };
+                properties[member.name] = propSchema;
+                // T | undefined 与可选属性等价
+                const acceptsUndefined = member.type.kind === 'union' && member.type.types.some(t => t.kind === 'prim' && (t.name === 'undefined' || t.name === 'void'));
+                if (!member.optional && !member.type.optional && !acceptsUndefined)
+                    required.push(member.name);
+            });
+            schema = { type: 'object', properties, required };
+            break;
+        }
+        case 'union': {
+            const types = node.types.filter(t => !(t.kind === 'prim' && ['null', 'undefined', 'void'].includes(t.name)));
+            if (types.length === 0) {
+                schema = { type: 'null' };
+            }
+            else if (types.every(t => t.kind === 'literal')) {
+                schema = { type: inferFieldType(types[0].value), enum: types.map(t => t.value) };
+            }
+            else if (types.length === 1) {
+                schema = convert(types[0]);
+            }
+            else {
+                schema = { anyOf: types.map(t => convert(t)) };
+                warnings.push(`联合类型包含 ${types.length} 个分支，字段按第一个分支展开`);
+            }
+            break;
+        }
+        case 'intersection':
+            schema = { type: 'object', allOf: node.types.map(t => convert(t)) };
+            break;
+        case 'partial':
+            schema = { ...flattenTypeSchema(convert(node.type)), required: [] };
+            break;
+        case 'pick':
+        case 'omit': {
+            const base = flattenTypeSchema(convert(node.type));
+            const keep = (key) => node.kind === 'pick' ? node.keys.includes(key) : !node.keys.includes(key);
+            schema = {
+                ...base,
+                properties: Object.fromEntries(Object.entries(base.properties || {}).filter(([key]) => keep(key))),
+                required: (base.required || []).filter(keep)
+            };
+            break;
+        }
+        case 'typeof':
+            schema = convert({ kind: 'ref', name: node.name, args: [] });
+            break;
+        case 'ref': {
+            const [firstArg, secondArg] = node.args;
+            const literalKeys = (arg) => (arg?.kind === 'union' ? arg.types : [arg]).filter(t => t?.kind === 'literal').map(t => String(t.value));
+            if (Object.hasOwn(env, node.name)) {
+                schema = env[node.name];
+            }
+            else if (['Array', 'ReadonlyArray', 'Set'].includes(node.name)) {
+                schema = { type: 'array', items: firstArg ? convert(firstArg) : {} };
+            }
+            else if (['Promise', 'Readonly', 'Required', 'NonNullable', 'Awaited', 'z.infer', 'z.input', 'z.output'].includes(node.name) && firstArg) {
+                schema = convert(firstArg);
+            }
+            else if (node.name === 'Partial' && firstArg) {
+                schema = convert({ kind: 'partial', type: firstArg });
+            }
+            else if ((node.name === 'Pick' || node.name === 'Omit') && firstArg) {
+                schema = convert({ kind: node.name.toLowerCase(), type: firstArg, keys: literalKeys(secondArg) });
+            }
+            else if (['Record', 'Map'].includes(node.name)) {
+                schema = { type: 'object' };
+            }
+            else if (node.name === 'Date') {
+                schema = { type: 'string', format: 'date-time' };
+            }
+            else if (['String', 'Number', 'Boolean'].includes(node.name)) {
+                schema = { type: node.name.toLowerCase() };
+            }
+            else if (declarations.has(node.name)) {
+                const declaration = declarations.get(node.name);
+                if (declaration.kind === 'enum') {
+                    schema = { type: inferFieldType(declaration.values[0] ?? ''), enum: declaration.values };
+                }
+                else if (stack.includes(node.name)) {
+                    // 递归类型只展开一层
+                    schema = { type: 'object' };
+                }
+                else {
+                    const childEnv = {};
+                    declaration.params.forEach((param, index) => {
+                        if (node.args[index])
+                            childEnv[param.name] = convert(node.args[index]);
+                        else
+                            childEnv[param.name] = param.fallback ? convert(param.fallback, childEnv) : {};
+                    });
+                    schema = convert(declaration.node, childEnv, [...stack, node.name]);
+                }
+            }
+            else {
+                warnings.push(`未找到类型 ${node.name}（可能从其他文件导入），按 object 处理`);
+                schema = { type: 'object' };
+            }
+            break;
+        }
+        default:
+            schema = {};
+    }
+    if (node?.desc)
+        schema = { ...schema, description: node.desc };
+    if (node?.example !== undefined)
+        schema = { ...schema, example: node.example };
+    return schema;
+}
+// 将指定类型声明展开为字段列表，同时返回缺少注释的字段与解析提示；没有注释的字段 desc 取自 descriptions，否则留空
+function typeDeclarationToFields(code, typeName, descriptions = {}) {
+    const { declarations, warnings } = parseTypeDeclarations(code);
+    const declaration = declarations.get(typeName);
+    if (!declaration || declaration.kind === 'enum') {
+        const available = [...declarations.entries()].filter(([, d]) => d.kind !== 'enum').map(([declName]) => declName);
+        throw new Error(`未找到类型 ${typeName}${available.length ? `，文件中可用的类型: ${available.join(', ')}` : '，文件中没有可识别的 interface/type/class/zod 声明'}`);
+    }
+    const convertWarnings = [];
+    const schema = flattenTypeSchema(typeNodeToSchema({ kind: 'ref', name: typeName, args: [] }, declarations, convertWarnings));
+    const rootType = getSchemaType(schema);
+    if (rootType !== 'object') {
+        throw new Error(`类型 ${typeName} 的根节点为 ${rootType}，字段列表仅支持对象根节点`);
+    }
+    const fields = schemaToFieldList({}, schema);
+    const undocumented = [];
+    fields.forEach(field => {
+        // schemaToFieldList 对没有描述的字段以字段名兜底
+        if (field.desc !== field.key.split('.').pop().replace(/\[\]$/, ''))
+            return;
+        field.desc = descriptions[field.key] || '';
+        if (!field.desc)
+            undocumented.push(field.key);
+    });
+    fields.filter(field => field.key.endsWith('[]') && field.type === 'array').forEach(field => {
+        convertWarnings.push(`${field.key} 为嵌套数组，字段列表无法表示内层元素，未展开`);
+    });
+    return { kind: declaration.kind, fields, undocumented, warnings: [...warnings, ...new Set(convertWarnings)] };
+}
+// 格式化批量导入结果
+function formatImportReport(title, summaryLines, results, createdFolders = []) {
+    const succeeded = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success);
+    let text = `${title}\n${summaryLines.join('\n')}${summaryLines.length > 0 ? '\n' : ''}`;
+    text += `接口总数: ${results.length}, 成功: ${succeeded.length}, 失败: ${failed.length}\n`;
+    if (createdFolders.length > 0) {
+        text += `新建目录: ${createdFolders.join(', ')}\n`;
+    }
+    if (succeeded.length > 0) {
+        text += `\n✅ 成功:\n`;
+        succeeded.forEach((r, index) => {
+            text += `${index + 1}. ${r.label} → ID: ${r.targetId}\n`;
+        });
+    }
+    if (failed.length > 0) {
+        text += `\n❌ 失败:\n`;
+        failed.forEach((r, index) => {
+            text += `${index + 1}. ${r.label}\n   原因: ${r.error}\n`;
+        });
+    }
+    const withWarnings = results.filter(r => r.warnings && r.warnings.length > 0);
+    if (withWarnings.length > 0) {
+        text += `\n⚠️ 提示:\n`;
+        withWarnings.forEach(r => {
+            r.warnings.forEach(w => {
+                text += `• ${r.label}: ${w}\n`;
+            });
+        });
+    }
+    return text;
+}
+// 写入本地文件（自动创建目录）
+function writeLocalFile(filePath, content) {
+    const fullPath = path.resolve(process.cwd(), filePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content, 'utf8');
+    return fullPath;
+}
+// 本地数据目录（回收站、修订历史），按项目隔离
+function getStorageDir(...segments) {
+    return path.join(APIPOST_STORAGE_DIR, currentWorkspace.projectId, ...segments);
+}
+function writeStorageJson(relativePath, data) {
+    return writeLocalFile(getStorageDir(relativePath), JSON.stringify(data, null, 2));
+}
+function readStorageJson(relativePath) {
+    const fullPath = getStorageDir(relativePath);
+    if (!fs.existsSync(fullPath))
+        return undefined;
+    return JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+}
+function listStorageJson(dir) {
+    const fullPath = getStorageDir(dir);
+    if (!fs.existsSync(fullPath))
+        return [];
+    return fs.readdirSync(fullPath).filter(file => file.endsWith('.json')).map(file => readStorageJson(path.join(dir, file)));
+}
+// 修订历史中保存的接口字段（不含服务端附加信息）
+const REVISION_SNAPSHOT_KEYS = ['target_id', 'target_type', 'parent_id', 'name', 'method', 'url', 'description', 'version', 'request', 'response', 'tags', 'attribute_info'];
+function pickRevisionSnapshot(api) {
+    return Object.fromEntries(REVISION_SNAPSHOT_KEYS.filter(key => api[key] !== undefined).map(key => [key, api[key]]));
+}
+// 记录接口修改前后的本地快照：修改前状态与上一条记录一致时不重复保存；记录失败不影响接口操作
+function recordRevision(action, after, before) {
+    if (!after || (after.target_type && after.target_type !== 'api'))
+        return;
+    try {
+        const file = path.join('history', `${after.target_id}.json`);
+        const history = readStorageJson(file) || { target_id: after.target_id, revisions: [] };
+        const append = (stage, api) => {
+            const snapshot = pickRevisionSnapshot(api);
+            history.revisions.push({ revision: history.revisions.length + 1, recorded_at: new Date().toISOString(), action, stage, version: snapshot.version, snapshot });
+        };
+        const last = history.revisions[history.revisions.length - 1];
+        if (before) {
+            const { version: _lastVersion, ...lastContent } = last ? last.snapshot : {};
+            const { version: _beforeVersion, ...beforeContent } = pickRevisionSnapshot(before);
+            if (!last || !isDeepStrictEqual(lastContent, beforeContent))
+                append('before', before);
+        }
+        append('after', after);
+        writeStorageJson(file, history);
+    }
+    catch (error) {
+        logWithTime(`⚠️ 记录修订历史失败 (${after.target_id}): ${error.message}`);
+    }
+}
+// 删除接口的本地修订历史（原子批量创建回滚后，这些接口不复存在，不应留下“创建”记录）
+function discardRevisionHistory(targetId) {
+    try {
+        fs.rmSync(getStorageDir('history', `${targetId}.json`), { force: true });
+    }
+    catch (error) {
+        logWithTime(`⚠️ 清理修订历史失败 (${targetId}): ${error.message}`);
+    }
+}
+// 新建接口的修订按服务端返回的ID记录（服务端不一定沿用本地模板ID），返回该ID
+function recordCreatedRevision(action, template, createResult) {
+    const targetId = createResult.data.data?.target_id || template.target_id;
+    recordRevision(action, { ...template, target_id: targetId });
+    return targetId;
+}
+function formatDiffValue(value) {
+    if (value === undefined || value === null || value === '')
+        return '(空)';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.length > 80 ? `${text.slice(0, 80)}...` : text;
+}
+// 按 key 比较两组 ApiPost 参数，输出新增(+)、删除(-)、修改(~)
+function diffParameterLists(label, before, after) {
+    const lines = [];
+    const beforeMap = new Map((before || []).filter(p => p && p.key).map(p => [p.key, p]));
+    const afterMap = new Map((after || []).filter(p => p && p.key).map(p => [p.key, p]));
+    const attributes = [['field_type', '类型'], ['not_null', '必填'], ['description', '描述'], ['value', '示例']];
+    afterMap.forEach((param, key) => {
+        if (!beforeMap.has(key))
+            lines.push(`+ ${label} ${key} (${param.field_type || 'string'}${param.not_null === 1 ? ', 必填' : ''}): ${param.description || '无描述'}`);
+    });
+    beforeMap.forEach((param, key) => {
+        if (!afterMap.has(key))
+            lines.push(`- ${label} ${key}`);
+    });
+    afterMap.forEach((param, key) => {
+        const old = beforeMap.get(key);
+        if (!old)
+            return;
+        const changes = attributes
+            .filter(([attr]) => String(old[attr] ?? '') !== String(param[attr] ?? ''))
+            .map(([attr, name]) => attr === 'not_null'
+            ? `${name}: ${old.not_null === 1 ? '是' : '否'} → ${param.not_null === 1 ? '是' : '否'}`
+            : `${name}: ${formatDiffValue(old[attr])} → ${formatDiffValue(param[attr])}`);
+        if (changes.length > 0)
+            lines.push(`~ ${label} ${key}: ${changes.join(', ')}`);
+    });
+    return lines;
+}
+function bodyParameterList(body) {
+    return (FORM_BODY_MODES.includes(body?.mode) ? body?.parameter : body?.raw_parameter) || [];
+}
+// 字段级比较两个接口快照，返回差异行（空数组表示无差异）
+function diffApiSnapshots(before, after) {
+    const lines = [];
+    [['name', '名称'], ['method', '方法'], ['url', 'URL'], ['description', '描述'], ['parent_id', '父目录']].forEach(([key, label]) => {
+        if ((before[key] ?? '') !== (after[key] ?? ''))
+            lines.push(`~ ${label}: ${formatDiffValue(before[key])} → ${formatDiffValue(after[key])}`);
+    });
+    const beforeRequest = before.request || {};
+    const afterRequest = after.request || {};
+    const beforeAuth = beforeRequest.auth?.type || 'inherit';
+    const afterAuth = afterRequest.auth?.type || 'inherit';
+    if (beforeAuth !== afterAuth)
+        lines.push(`~ 认证: ${beforeAuth} → ${afterAuth}`);
+    else if (!isDeepStrictEqual(beforeRequest.auth?.[beforeAuth] ?? null, afterRequest.auth?.[afterAuth] ?? null))
+        lines.push(`~ 认证 ${afterAuth} 配置已修改`);
+    [['header', 'Header'], ['query', 'Query'], ['cookie', 'Cookie'], ['restful', '路径参数']].forEach(([section, label]) => {
+        lines.push(...diffParameterLists(label, beforeRequest[section]?.parameter, afterRequest[section]?.parameter));
+    });
+    const beforeMode = beforeRequest.body?.mode || 'none';
+    const afterMode = afterRequest.body?.mode || 'none';
+    if (beforeMode !== afterMode)
+        lines.push(`~ Body 模式: ${beforeMode} → ${afterMode}`);
+    lines.push(...diffParameterLists('Body', bodyParameterList(beforeRequest.body), bodyParameterList(afterRequest.body)));
+    if (['xml', 'plain'].includes(afterMode) && beforeMode === afterMode && (beforeRequest.body?.raw || '') !== (afterRequest.body?.raw || ''))
+        lines.push(`~ Body 原始内容已修改`);
+    const responseKey = (example) => `${example.expect?.code || 200} ${example.expect?.name || ''}`.trim();
+    const beforeResponses = new Map((before.response?.example || []).map(example => [responseKey(example), example]));
+    const afterResponses = new Map((after.response?.example || []).map(example => [responseKey(example), example]));
+    afterResponses.forEach((example, key) => {
+        if (!beforeResponses.has(key))
+            lines.push(`+ 响应 ${key}`, ...diffParameterLists(`响应 ${key}`, [], example.raw_parameter));
+    });
+    beforeResponses.forEach((example, key) => {
+        if (!afterResponses.has(key))
+            lines.push(`- 响应 ${key}`, ...diffParameterLists(`响应 ${key}`, example.raw_parameter, []));
+    });
+    afterResponses.forEach((example, key) => {
+        const old = beforeResponses.get(key);
+        if (!old)
+            return;
+        const oldType = old.expect?.content_type || 'application/json';
+        const newType = example.expect?.content_type || 'application/json';
+        if (oldType !== newType)
+            lines.push(`~ 响应 ${key} 内容类型: ${oldType} → ${newType}`);
+        lines.push(...diffParameterLists(`响应 ${key} Header`, old.headers, example.headers));
+        lines.push(...diffParameterLists(`响应 ${key}`, old.raw_parameter, example.raw_parameter));
+        if (!isJsonContentType(newType) && oldType === newType && (old.raw || '') !== (example.raw || ''))
+            lines.push(`~ 响应 ${key} 示例内容已修改`);
+    });
+    return lines;
+}
+const REVISION_ACTION_LABELS = { create: '创建', update: '修改', move: '移动', clone: '复制', restore: '恢复', import_har: 'HAR导入', revert: '回滚' };
+// 读取接口的修订历史，指定修订号时返回该修订
+function loadRevisionHistory(targetId) {
+    if (!targetId || !/^[0-9a-zA-Z_-]+$/.test(targetId)) {
+        throw new Error('请提供有效的接口ID');
+    }
+    const history = readStorageJson(path.join('history', `${targetId}.json`));
+    if (!history || history.revisions.length === 0) {
+        throw new Error(`接口 ${targetId} 暂无本地修订历史（仅记录通过本工具进行的创建与修改）`);
+    }
+    return history;
+}
+function findRevision(history, revision) {
+    const found = history.revisions.find(item => item.revision === Number(revision));
+    if (!found) {
+        throw new Error(`未找到修订 #${revision}，可用范围: #1 - #${history.revisions.length}`);
+    }
+    return found;
+}
+// 回滚模板：基于线上状态生成修改模板，再用修订中的文档内容覆盖；目录位置与版本号沿用线上
+function buildRevertTemplate(liveApi, snapshot) {
+    const { updateTemplate } = buildUpdateTemplate(liveApi, {});
+    ['name', 'method', 'url', 'description', 'request', 'response'].forEach(key => {
+        if (snapshot[key] !== undefined)
+            updateTemplate[key] = snapshot[key];
+    });
+    return updateTemplate;
+}
+// 查找本地记录中指定版本的最近一次快照，未记录时返回 null
+function findSnapshotByVersion(targetId, version) {
+    const history = readStorageJson(path.join('history', `${targetId}.json`));
+    const found = (history?.revisions || []).filter(item => item.version === version).pop();
+    return found ? found.snapshot : null;
+}
+// 版本冲突报告：分别列出对方（线上）与本次修改的变更，均不提交
+function buildConflictReport(targetId, expectedVersion, latestApi, theirLines, ourLines) {
+    let text = `⚠️ 版本冲突，修改未提交\n接口ID: ${targetId}\n期望版本: v${expectedVersion}\n线上版本: v${latestApi.version || 0}\n`;
+    if (theirLines === null)
+        text += `\n📥 线上变更: 本地无 v${expectedVersion} 快照，无法列出具体差异，请用 apipost_detail 查看最新内容\n`;
+    else
+        text += theirLines.length > 0
+            ? `\n📥 线上变更 (v${expectedVersion} → v${latestApi.version || 0}, ${theirLines.length}处):\n${theirLines.join('\n')}\n`
+            : `\n📥 线上变更: 内容无差异（仅版本号变化）\n`;
+    text += ourLines.length > 0
+        ? `\n📤 本次修改 (${ourLines.length}处):\n${ourLines.join('\n')}\n`
+        : `\n📤 本次修改: 内容无变化\n`;
+    text += `\n💡 确认线上变更后，以 expected_version: ${latestApi.version || 0} 重新调用即可基于最新版本提交`;
+    return text;
+}
+// 删除前把接口/目录详情及其祖先目录写入本地回收站，恢复时可重建缺失的父目录
+async function snapshotToTrash(allItems, targetIds) {
+    const itemMap = new Map(allItems.map(item => [item.target_id, item]));
+    const ids = targetIds.filter(id => itemMap.has(id));
+    if (ids.length === 0)
+        return null;
+    const idSet = new Set(ids);
+    const ancestorIds = new Set();
+    ids.forEach(id => {
+        let parentId = itemMap.get(id).parent_id;
+        while (parentId && parentId !== '0' && !idSet.has(parentId) && !ancestorIds.has(parentId) && itemMap.has(parentId)) {
+            ancestorIds.add(parentId);
+            parentId = itemMap.get(parentId).parent_id;
+        }
+    });
+    const detailMap = new Map((await fetchApiDetails([...ids, ...ancestorIds])).map(detail => [detail.target_id, detail]));
+    const pathMap = buildPathMap(allItems);
+    const entry = {
+        trash_id: generateId(),
+        deleted_at: new Date().toISOString(),
+        project_id: currentWorkspace.projectId,
+        items: ids.map(id => detailMap.get(id) || itemMap.get(id)),
+        ancestors: [...ancestorIds].map(id => detailMap.get(id) || itemMap.get(id)),
+        paths: Object.fromEntries(ids.map(id => [id, `/${(pathMap.get(id) || []).join('/')}`]))
+    };
+    writeStorageJson(path.join('trash', `${entry.trash_id}.json`), entry);
+    return entry;
+}
+// 从回收站恢复：沿用原ID、原父目录、名称与内容，父目录已不存在时按快照先重建；原ID无法复用时改用新ID
+// 创建失败是否因为 ID 已被占用（如服务端仍保留同ID的记录），只有这种情况才值得换新ID重试
+function isIdConflictError(message) {
+    const text = String(message || '');
+    return /(target_id|\bid\b)[^，,。.]*(已存在|重复|占用|exist|duplicate|conflict|taken)/i.test(text)
+        || /(已存在|重复|占用|duplicate|conflict)[^，,。.]*(target_id|\bid\b)/i.test(text);
+}
+async function restoreFromTrash(entry, selectedIds) {
+    const currentIds = new Set((await fetchProjectItems()).map(item => item.target_id));
+    const snapshotMap = new Map([...(entry.ancestors || []), ...entry.items].map(item => [item.target_id, item]));
+    const idMap = new Map();
+    const results = [];
+    const recreatedFolders = [];
+    async function recreate(snapshot) {
+        const parentId = await ensureParent(snapshot.parent_id);
+        const template = buildCloneTemplate(snapshot, snapshot.target_id, parentId);
+        template.version = snapshot.version ?? template.version;
+        let result = await apiClient.post('/open/apis/create', template);
+        if (result.data.code !== 0 && isIdConflictError(result.data.msg)) {
+            template.target_id = generateId();
+            result = await apiClient.post('/open/apis/create', template);
+        }
+        if (result.data.code !== 0) {
+            throw new Error(result.data.msg);
+        }
+        const newId = recordCreatedRevision('restore', template, result);
+        idMap.set(snapshot.target_id, newId);
+        return newId;
+    }
+    async function ensureParent(parentId) {
+        if (!parentId || parentId === '0')
+            return '0';
+        if (idMap.has(parentId))
+            return idMap.get(parentId);
+        if (currentIds.has(parentId))
+            return parentId;
+        const snapshot = snapshotMap.get(parentId);
+        if (!snapshot)
+            return '0';
+        const newId = await recreate(snapshot);
+        if (!selectedIds.includes(parentId))
+            recreatedFolders.push(`${snapshot.name} (${newId})`);
+        return newId;
+    }
+    for (const id of selectedIds) {
+        const snapshot = snapshotMap.get(id);
+        const label = `${snapshot.target_type === 'folder' ? '📁' : `[${snapshot.method}]`} ${entry.paths?.[id] || snapshot.name}`;
+        if (currentIds.has(id)) {
+            results.push({ success: true, label, targetId: id, warnings: ['项目仍存在，未重复创建'] });
+            continue;
+        }
+        try {
+            const newId = idMap.get(id) || await recreate(snapshot);
+            results.push({ success: true, label, targetId: newId, warnings: newId !== id ? [`原ID ${id} 无法复用，已使用新ID`] : [] });
+        }
+        catch (error) {
+            results.push({ success: false, label, error: error.message });
+        }
+    }
+    return { results, recreatedFolders, idMap };
+}
+// 工作空间信息
+let currentWorkspace = null;
+// 初始化工作空间
+async function initWorkspace(startTime) {
+    try {
+        logWithTime('📈 获取团队列表...', startTime);
+        const teamsResult = await apiClient.get('/open/team/list');
+        if (!teamsResult.data.data || teamsResult.data.data.length === 0) {
+            console.error('📋 获取团队列表原始数据:', JSON.stringify(teamsResult.data, null, 2));
+            throw new Error('未找到可用团队');
+        }
+        // 选择团队：优先使用指定的团队名称，否则使用第一个
+        let selectedTeam = teamsResult.data.data[0];
+        if (APIPOST_DEFAULT_TEAM_NAME) {
+            const targetTeam = teamsResult.data.data.find((team) => team.name === APIPOST_DEFAULT_TEAM_NAME);
+            if (targetTeam) {
+                selectedTeam = targetTeam;
+                logWithTime(`🎯 使用指定团队: ${APIPOST_DEFAULT_TEAM_NAME}`, startTime);
+            }
+            else {
+                logWithTime(`⚠️ 未找到指定团队 "${APIPOST_DEFAULT_TEAM_NAME}"，使用默认团队`, startTime);
+            }
+        }
+        logWithTime(`✅ 选中团队
+团队名称: ${selectedTeam.name}
+团队ID: ${selectedTeam.team_id}`, startTime);
+        logWithTime('📁 获取项目列表...', startTime);
+        const projectsResult = await apiClient.get('/open/project/list', {
+            params: { team_id: selectedTeam.team_id, action: 0 }
+        });
+        if (!projectsResult.data.data || projectsResult.data.data.length === 0) {
+            throw new Error('未找到可用项目');
+        }
+        // 选择项目：优先使用指定的项目名称，否则使用第一个
+        let selectedProject = projectsResult.data.data[0];
+        if (APIPOST_DEFAULT_PROJECT_NAME) {
+            const targetProject = projectsResult.data.data.find((project) => project.name === APIPOST_DEFAULT_PROJECT_NAME);
+            if (targetProject) {
+                selectedProject = targetProject;
+                logWithTime(`🎯 使用指定项目: ${APIPOST_DEFAULT_PROJECT_NAME}`, startTime);
+            }
+            else {
+                logWithTime(`⚠️ 未找到指定项目 "${APIPOST_DEFAULT_PROJECT_NAME}"，使用默认项目`, startTime);
+            }
+        }
+        logWithTime(`
+✅ 选中项目
+项目名称: ${selectedProject.name}
+项目ID: ${selectedProject.project_id}`, startTime);
+        currentWorkspace = {
+            teamId: selectedTeam.team_id,
+            teamName: selectedTeam.name,
+            projectId: selectedProject.project_id,
+            projectName: selectedProject.name
+        };
+        logWithTime(`✨ 工作空间初始化完成 (安全模式: ${APIPOST_SECURITY_MODE})`, startTime);
+    }
+    catch (error) {
+        logWithTime('❌ 工作空间初始化失败: ' + error, startTime);
+        throw error;
+    }
+}
+// 获取当前项目的全部接口与目录
+async function fetchProjectItems() {
+    const result = await apiClient.get('/open/apis/list', {
+        params: { project_id: currentWorkspace.projectId }
+    });
+    if (result.data.code !== 0) {
+        throw new Error(`获取列表失败: ${result.data.msg}`);
+    }
+    return result.data.data.list || [];
+}
+// 分批获取接口详情
+async function fetchApiDetails(targetIds, batchSize = 50) {
+    const details = [];
+    for (let i = 0; i < targetIds.length; i += batchSize) {
+        const batchIds = targetIds.slice(i, i + batchSize);
+        const result = await apiClient.post('/open/apis/details', {
+            project_id: currentWorkspace.projectId,
+            target_ids: batchIds
+        });
+        if (result.data.code !== 0) {
+            throw new Error(`获取接口详情失败: ${result.data.msg}`);
+        }
+        details.push(...(result.data.data.list || []));
+    }
+    return details;
+}
+// 获取单个接口详情
+async function fetchApiDetail(targetId) {
+    const result = await apiClient.post('/open/apis/details', {
+        project_id: currentWorkspace.projectId,
+        target_ids: [targetId]
+    });
+    if (result.data.code !== 0) {
+        throw new Error(`获取接口详情失败: ${result.data.msg}`);
+    }
+    const detail = result.data.data.list[0]; // 获取数组中的第一个接口
+    if (!detail) {
+        throw new Error(`未找到接口详情 (ID: ${targetId})。可能原因：1) 接口不存在 2) 无权限访问 3) 接口已被删除。请检查接口ID是否正确。`);
+    }
+    return detail;
+}
+// 创建目录并返回目录ID
+async function createFolder(name, parentId = '0', description = '') {
+    const template = generateFolderTemplate(name, parentId, description);
+    template.project_id = currentWorkspace.projectId;
+    const result = await apiClient.post('/open/apis/create', template);
+    if (result.data.code !== 0) {
+        throw new Error(`创建目录 "${name}" 失败: ${result.data.msg}`);
+    }
+    return result.data.data?.target_id || template.target_id;
+}
+// 根据字段列表配置创建接口并返回接口ID
+async function createApiFromConfig(method, url, name, config, parentId = '0') {
+    const template = generateApiTemplate(method, url, name, config);
+    template.project_id = currentWorkspace.projectId;
+    template.parent_id = parentId;
+    const result = await apiClient.post('/open/apis/create', template);
+    if (result.data.code !== 0) {
+        throw new Error(`创建失败: ${result.data.msg}`);
+    }
+    return recordCreatedRevision('create', template, result);
+}
+// 按并发上限执行任务，结果顺序与输入一致；worker 需自行捕获错误
+async function runWithConcurrency(items, limit, worker) {
+    const results = new Array(items.length);
+    let next = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+    return results;
+}
+// 按 "a/b/c" 逐级查找目录，同名目录直接复用，缺失的依次创建并记入 createdFolders
+async function ensureFolderPath(allItems, parentId, folderPath, createdFolders) {
+    let currentId = parentId;
+    const segments = String(folderPath).split('/').map(segment => segment.trim()).filter(Boolean);
+    for (const [index, segment] of segments.entries()) {
+        const existing = allItems.find(item => item.target_type === 'folder' && item.parent_id === currentId && item.name === segment);
+        if (existing) {
+            currentId = existing.target_id;
+            continue;
+        }
+        const folderId = await createFolder(segment, currentId);
+        allItems.push({ target_id: folderId, parent_id: currentId, name: segment, target_type: 'folder' });
+        createdFolders.push({ target_id: folderId, parent_id: currentId, label: `${segments.slice(0, index + 1).join(' / ')} (${folderId})` });
+        currentId = folderId;
+    }
+    return currentId;
+}
+// 原子批量创建的回滚：逐项删除已创建的接口，再由深到浅删除新建的目录；仍有子项未回滚的目录不删除，以免连带删除或删除失败
+async function rollbackBatchCreate(createdApis, createdFolders, deleteItem, concurrency) {
+    const failures = [];
+    const keptParents = new Set();
+    const apiResults = await runWithConcurrency(createdApis, concurrency, async (api) => {
+        try {
+            await deleteItem(api.targetId);
+            discardRevisionHistory(api.targetId);
+            return true;
+        }
+        catch (error) {
+            keptParents.add(api.parentId);
+            failures.push({ label: api.label, targetId: api.targetId, error: error instanceof Error ? error.message : String(error) });
+            return false;
+        }
+    });
+    let rolledBackFolders = 0;
+    for (const folder of [...createdFolders].reverse()) {
+        if (keptParents.has(folder.target_id)) {
+            keptParents.add(folder.parent_id);
+            failures.push({ label: `📁 ${folder.label}`, targetId: folder.target_id, error: '目录下仍有未回滚的项目，未删除' });
+            continue;
+        }
+        try {
+            await deleteItem(folder.target_id);
+            rolledBackFolders++;
+        }
+        catch (error) {
+            keptParents.add(folder.parent_id);
+            failures.push({ label: `📁 ${folder.label}`, targetId: folder.target_id, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return { rolledBackApis: apiResults.filter(Boolean).length, rolledBackFolders, failures };
+}
+// 递归导入 Postman 集合项，目录先于子项创建
+async function importPostmanItems(items, parentId, results, createdFolders, folderPath = []) {
+    for (const item of items || []) {
+        if (Array.isArray(item.item)) {
+            const currentPath = [...folderPath, item.name];
+            let folderId;
+            try {
+                folderId = await createFolder(item.name || '未命名目录', parentId, postmanText(item.description));
+                createdFolders.push(`${currentPath.join(' / ')} (${folderId})`);
+            }
+            catch (error) {
+                results.push({ success: false, label: `📁 ${currentPath.join(' / ')}`, error: `${error instanceof Error ? error.message : String(error)}，其下接口均未导入`, warnings: [] });
+                continue;
+            }
+            await importPostmanItems(item.item, folderId, results, createdFolders, currentPath);
+            continue;
+        }
+        const label = `${[...folderPath, item.name].join(' / ')}`;
+        try {
+            const converted = postmanRequestToApi(item);
+            const targetId = await createApiFromConfig(converted.method, converted.url, converted.name, converted.config, parentId);
+            results.push({ success: true, label: `[${converted.method}] ${converted.url} ${label}`, targetId, warnings: converted.warnings });
+        }
+        catch (error) {
+            results.push({ success: false, label, error: error instanceof Error ? error.message : String(error), warnings: [] });
+        }
+    }
+}
+// 创建MCP服务器
+const server = new Server({
+    name: 'apipost-mcp',
+    version: '1.0.0',
+    capabilities: { tools: {} }
+});
+// 工具定义
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+        {
+            name: 'apipost_test_connection',
+            description: '测试ApiPost MCP连接状态和配置信息，验证服务可用性',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    random_string: { type: 'string', description: 'Dummy parameter for no-parameter tools' }
+                },
+                required: ['random_string']
+            }
+        },
+        {
+            name: 'apipost_workspace',
+            description: '工作空间管理：查看当前工作空间、列出团队和项目、切换工作空间',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    action: {
+                        type: 'string',
+                        enum: ['current', 'list_teams', 'list_projects', 'switch'],
+                        description: '操作类型：current(查看当前)、list_teams(列出团队)、list_projects(列出项目)、switch(切换工作空间)'
+                    },
+                    team_id: { type: 'string', description: '团队ID（用于list_projects或switch）' },
+                    project_id: { type: 'string', description: '项目ID（用于switch）' },
+                    team_name: { type: 'string', description: '团队名称（用于按名称切换）' },
+                    project_name: { type: 'string', description: '项目名称（用于按名称切换）' },
+                    show_details: { type: 'boolean', description: '是否显示详细信息，默认false' },
+                    show_all: { type: 'boolean', description: '是否显示所有可用的团队和项目，默认false' }
+                },
+                required: ['action']
+            }
+        },
+        {
+            name: 'apipost_create_folder',
+            description: '创建API文档目录，支持在指定父目录下创建新的文件夹',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', description: '目录名称' },
+                    parent_id: { type: 'string', description: '父目录ID，使用"0"表示根目录，默认为"0"' },
+                    description: { type: 'string', description: '目录描述（可选）' },
+                    headers: { type: 'string', description: '目录公共 Headers 字段列表JSON字符串（可选），子接口自动继承。格式：[{"key":"X-Tenant-ID","desc":"租户ID","type":"string","required":true,"example":"t1"}]' },
+                    query: { type: 'string', description: '目录公共 Query 字段列表JSON字符串（可选），子接口自动继承，格式同 headers' },
+                    auth: { type: 'string', description: '目录认证配置JSON字符串（可选），子接口 auth 为 inherit 时继承。格式：{"type":"bearer","bearer":{"key":"{{token}}"}}' }
+                },
+                required: ['name'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_smart_create',
+            description: 'API接口文档生成器（字段列表驱动）。规则：responses 只传 fields，不传 data；headers/query/body/cookies 统一用字段列表，嵌套用 .，数组用 []；example 填真实值（不要 JSON 字符串）；所有字段含父级都必须写 desc，父级需显式声明。例如：{"key":"data","desc":"返回体","type":"object"},{"key":"data.user","desc":"用户","type":"object"},{"key":"data.user.id","desc":"用户ID","type":"integer","example":1}',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    method: { type: 'string', description: 'HTTP方法：GET/POST/PUT/PATCH/DELETE/HEAD/OPTIONS/TRACE/CONNECT，也支持自定义方法（如 PURGE）。GET/HEAD 不能携带 body' },
+                    url: { type: 'string', description: '接口URL路径' },
+                    name: { type: 'string', description: '接口名称' },
+                    parent_id: { type: 'string', description: '父目录ID，使用"0"表示根目录，默认为"0"' },
+                    description: { type: 'string', description: '接口详细描述（可选）' },
+                    headers: { type: 'string', description: 'Headers字段列表字符串，格式：[{"key":"X-Request-ID","type":"string","required":false,"example":"req-1","desc":"说明"}]' },
+                    query: { type: 'string', description: 'Query字段列表字符串，格式同上。嵌套用 .，数组用 []（如 meta.flags.debug 或 items[].id）。' },
+                    body: { type: 'string', description: 'Body字段列表字符串，仅用字段列表生成 raw/参数描述，example 用真实值，不要放 JSON 字符串。' },
+                    cookies: { type: 'string', description: 'Cookies字段列表字符串，格式同上。' },
+                    body_mode: { type: 'string', enum: ['json', 'form-data', 'urlencoded', 'xml', 'plain', 'binary', 'none'], description: 'Body模式（可选），默认有 body 字段时为 json。form-data/urlencoded 的字段写入表单参数（form-data 支持 type 为 file 的字段）；xml 可由字段列表自动生成 XML；plain 需通过 body_raw 提供文本；binary 表示上传文件' },
+                    body_raw: { type: 'string', description: '原始请求体（可选）：xml/plain 模式的文本内容，binary 模式的示例文件名' },
+                    restful: { type: 'string', description: '路径参数字段列表字符串。URL 中的 {id} 或 :id 会自动识别，每个路径参数都必须提供 desc，且只能声明 URL 中存在的变量。格式：[{"key":"id","type":"integer","example":1,"desc":"用户ID"}]' },
+                    auth: { type: 'string', description: '认证配置JSON字符串（可选）。格式：{"type":"bearer","bearer":{"key":"your_token"}}' },
+                    responses: { type: 'string', description: '响应字段列表字符串（JSON 响应必填 fields），格式：[{"name":"成功","status":200,"fields":[{"key":"code","type":"integer","example":0,"desc":"状态码"},{"key":"data.items[].id","type":"string","example":"1"}]}]。可选 headers（响应头字段列表，如 Set-Cookie、Location、X-RateLimit-Remaining）与 content_type（默认 application/json）；非 JSON 响应（text/csv、text/event-stream、application/xml、文件下载等）可用 fields 自动生成示例，或用 example 提供原始文本，如 {"name":"导出","status":200,"content_type":"text/csv","headers":[{"key":"Content-Disposition","desc":"下载文件名","example":"attachment; filename=users.csv"}],"example":"id,name\\n1,张三"}' },
+                    dry_run: { type: 'boolean', description: '仅预览将创建的内容，不提交，默认false' }
+                },
+                required: ['method', 'url', 'name'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_list',
+            description: '查看项目API列表，支持强化的目录层级搜索和父子关系定位',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    search: { type: 'string', description: '搜索关键词（接口名称、URL、方法、ID、描述）' },
+                    parent_id: { type: 'string', description: '父目录ID，精确查找某个目录下的子项目。使用"0"查看根目录，使用具体ID查看子目录' },
+                    target_type: { type: 'string', enum: ['api', 'folder', 'all'], description: '项目类型筛选：api(仅接口)、folder(仅目录)、all(全部)，默认all' },
+                    method: { type: 'string', description: '按HTTP方法精确筛选接口（可选），多个用逗号分隔，如 "PATCH" 或 "HEAD,OPTIONS"' },
+                    show_structure: { type: 'boolean', description: '是否显示层级结构（树形展示），默认false为列表模式' },
+                    show_path: { type: 'boolean', description: '是否显示完整路径（从根目录到当前项目的完整路径），默认false' },
+                    recursive: { type: 'boolean', description: '是否递归搜索子目录（搜索指定目录及其所有子目录），默认false仅搜索当前层级' },
+                    depth: { type: 'number', description: '层级深度限制（配合recursive使用，限制搜索深度），默认无限制' },
+                    group_by_folder: { type: 'boolean', description: '是否按目录分组显示结果，默认false' },
+                    limit: { type: 'number', description: '显示数量限制（默认50，最大200）' },
+                    show_all: { type: 'boolean', description: '显示全部项目（忽略limit限制）' }
+                }
+            }
+        },
+        {
+            name: 'apipost_update',
+            description: '修改API接口文档。规则同创建：responses 只用 fields（必填），不要传 data；headers/query/body/cookies 统一用字段列表，嵌套用 .，数组用 []，example 填真实值；所有字段含父级必须写 desc，父级需显式声明。例如：{"key":"data","desc":"返回体","type":"object"},{"key":"data.user","desc":"用户","type":"object"},{"key":"data.user.id","desc":"用户ID","type":"integer","example":1}',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '要修改的接口ID' },
+                    name: { type: 'string', description: '新的接口名称（可选）' },
+                    method: { type: 'string', description: '新的HTTP方法（可选），支持标准方法与自定义方法。改为 GET/HEAD 时会清空原有 body' },
+                    url: { type: 'string', description: '新的接口URL（可选）' },
+                    description: { type: 'string', description: '接口详细描述（可选）。提供空字符串""可清空描述' },
+                    headers: { type: 'string', description: 'Headers参数JSON数组字符串（可选）。提供"[]"可删除所有headers。格式：[{"key":"Content-Type","desc":"内容类型","type":"string","required":true,"example":"application/json"}]' },
+                    query: { type: 'string', description: 'Query参数JSON数组字符串（可选）。提供"[]"可删除所有query参数。格式：[{"key":"page","desc":"页码","type":"integer","required":false,"example":"1"}]' },
+                    body: { type: 'string', description: 'Body参数JSON数组字符串（可选）。提供"[]"可删除所有body参数。格式：[{"key":"name","desc":"用户名","type":"string","required":true,"example":"张三"}]' },
+                    cookies: { type: 'string', description: 'Cookies参数JSON数组字符串（可选）。提供"[]"可删除所有cookies。格式：[{"key":"session_id","desc":"会话ID","type":"string","required":false,"example":"abc123"}]' },
+                    body_mode: { type: 'string', enum: ['json', 'form-data', 'urlencoded', 'xml', 'plain', 'binary', 'none'], description: 'Body模式（可选），未提供时沿用原模式；只改模式时原字段会迁移到新模式' },
+                    body_raw: { type: 'string', description: '原始请求体（可选）：xml/plain 模式的文本内容，binary 模式的示例文件名' },
+                    restful: { type: 'string', description: '路径参数JSON数组字符串（可选）。修改 url 时未重新声明的路径参数沿用原描述，新增的路径参数必须提供 desc。格式：[{"key":"id","desc":"用户ID","type":"integer","example":1}]' },
+                    auth: { type: 'string', description: '认证配置JSON字符串（可选）。提供"{}"可删除认证配置。格式：{"type":"bearer","bearer":{"key":"your_token"}}' },
+                    responses: { type: 'string', description: '响应示例JSON数组字符串（可选）。提供"[]"可删除所有响应示例。格式：[{"name":"成功响应","status":200,"data":{"code":0},"fields":[{"key":"code","desc":"状态码","type":"integer","example":"0"}]}]' },
+                    patch: { type: 'string', description: '字段级补丁JSON数组字符串（可选），在现有字段上增量修改，无需重传整个列表。op 为 add/remove/modify/rename，section 为 headers/query/body/cookies/restful/responses，key 使用 . 和 [] 路径；responses 需用 response 指定响应示例名称或状态码。remove/rename 同时作用于子字段。格式：[{"op":"modify","section":"body","key":"user.name","desc":"姓名"},{"op":"add","section":"query","key":"page","type":"integer","desc":"页码","example":1},{"op":"rename","section":"responses","response":"成功","key":"data.uid","to":"data.user_id"},{"op":"remove","section":"headers","key":"X-Old"}]' },
+                    expected_version: { type: 'integer', description: '期望的当前版本号（可选，取自 apipost_detail）。线上版本不一致时不提交并返回双方变更的冲突报告；提交前总会再次确认版本未被他人修改' },
+                    dry_run: { type: 'boolean', description: '仅预览修改：返回与当前接口的字段级差异（含将被删除的字段），不提交，默认false' }
+                },
+                required: ['target_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_detail',
+            description: '查看API接口的详细配置信息，包括完整的请求参数、响应格式、认证设置等。',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '要查看的接口ID' }
+                },
+                required: ['target_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_delete',
+            description: '批量删除API接口文档，支持单个或多个接口删除。删除前先用apipost_list查看接口列表获取ID。每次删除都必须先 dry_run 预览受影响的项目，再用返回的 confirm_token 确认；recursive=true 时连同目录下所有子项一起删除',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    api_ids: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'API接口ID数组（可从列表中获取target_id）- 支持单个["id1"]或多个["id1","id2","id3"]'
+                    },
+                    recursive: { type: 'boolean', description: '是否递归删除目录下的所有子目录和接口，默认false' },
+                    dry_run: { type: 'boolean', description: '仅预览受影响的项目及路径并返回确认令牌，不执行删除，默认false' },
+                    confirm_token: { type: 'string', description: 'dry_run 返回的确认令牌，执行删除时必需；需与预览时的 api_ids、recursive 一致' }
+                },
+                required: ['api_ids']
+            }
+        },
+        {
+            name: 'apipost_import_openapi',
+            description: '从本地 OpenAPI 3.x / Swagger 2.0 文件（JSON/YAML）导入接口：按 tag 创建目录，参数、requestBody、responses 自动转换为字段列表，逐个接口返回成功/失败结果',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    file_path: { type: 'string', description: 'OpenAPI/Swagger 文件路径（JSON 或 YAML，相对路径基于当前工作目录）' },
+                    parent_id: { type: 'string', description: '导入到的父目录ID，使用"0"表示根目录，默认为"0"' },
+                    use_tags_as_folders: { type: 'boolean', description: '是否按 tag 创建目录（同名目录复用），默认true' }
+                },
+                required: ['file_path'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_export_openapi',
+            description: '将整个项目或指定目录（含子目录）导出为 OpenAPI 3.1 文档，目录层级转为 tags，字段列表还原为嵌套 JSON Schema，可写入本地文件或直接返回',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    parent_id: { type: 'string', description: '仅导出该目录及其子目录下的接口（可选，默认导出整个项目）' },
+                    file_path: { type: 'string', description: '输出文件路径（可选），.yaml/.yml 输出 YAML，其他输出 JSON；不提供则直接返回文档内容' },
+                    format: { type: 'string', enum: ['json', 'yaml'], description: '直接返回时的格式，默认json' },
+                    title: { type: 'string', description: '文档标题，默认使用项目名称' }
+                },
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_import_postman',
+            description: '从本地 Postman Collection v2.1 文件导入：Postman 文件夹转为目录，请求的 headers/query/body/auth 转为字段列表，保存的响应转为响应示例',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    file_path: { type: 'string', description: 'Postman Collection 文件路径（JSON，相对路径基于当前工作目录）' },
+                    parent_id: { type: 'string', description: '导入到的父目录ID，使用"0"表示根目录，默认为"0"' },
+                    create_root_folder: { type: 'boolean', description: '是否以集合名称创建一层根目录，默认false' }
+                },
+                required: ['file_path'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_export_postman',
+            description: '将整个项目或指定目录导出为 Postman Collection v2.1，保留目录层级、名称、方法、URL、参数、认证和响应示例',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    parent_id: { type: 'string', description: '仅导出该目录下的内容（可选，默认导出整个项目）' },
+                    file_path: { type: 'string', description: '输出文件路径（可选），不提供则直接返回集合 JSON' },
+                    name: { type: 'string', description: '集合名称，默认使用项目名称或目录名称' }
+                },
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_import_har',
+            description: '从本地 HAR 抓包文件生成接口文档：按 方法+归一化路径（数字/UUID 段折叠为 {id}）分组，推断 restful/headers/query/body/cookies 与响应字段（真实值作为 example，凭证类请求头与 Cookie 替换为 {{变量}} 占位），已存在的同名路径接口走更新，否则新建。字段描述不会自动生成，缺少描述时返回待填写的 descriptions 模板，补全后再次调用即可导入',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    file_path: { type: 'string', description: 'HAR 文件路径（相对路径基于当前工作目录）' },
+                    parent_id: { type: 'string', description: '新建接口所在的父目录ID，使用"0"表示根目录，默认为"0"' },
+                    url_filter: { type: 'string', description: '仅导入 URL 包含该字符串的记录（可选，如 "/api/"）' },
+                    update_existing: { type: 'boolean', description: '已存在相同方法和路径的接口时是否更新，默认true；false 时跳过' },
+                    descriptions: { type: 'string', description: '字段描述JSON对象字符串，对所有分组生效，键为 "分区.字段名"（分区为 restful/headers/query/body/cookies/responses）或字段名，如 {"restful.id":"用户ID","page":"页码"}。更新已有接口时沿用其已有描述' }
+                },
+                required: ['file_path'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_create_from_curl',
+            description: '根据 curl 命令创建接口：解析 -X、-H、-d/--data-raw、--data-urlencode、-F、-b、-u，映射为方法、URL、headers、query、cookies、body 字段。字段描述不会自动生成，缺少描述时返回待填写的 descriptions 模板，补全后再次调用即可创建',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    curl: { type: 'string', description: '完整的 curl 命令字符串' },
+                    name: { type: 'string', description: '接口名称' },
+                    parent_id: { type: 'string', description: '父目录ID，使用"0"表示根目录，默认为"0"' },
+                    description: { type: 'string', description: '接口详细描述（可选）' },
+                    descriptions: { type: 'string', description: '字段描述JSON对象字符串，键为 "分区.字段名"（分区为 headers/query/body/cookies）或字段名，如 {"headers.Authorization":"登录令牌","body.user.name":"用户名"}' },
+                    responses: { type: 'string', description: '响应字段列表字符串（可选），格式同 apipost_smart_create' }
+                },
+                required: ['curl', 'name'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_snippet',
+            description: '将已保存的接口生成可直接运行的请求代码：curl、fetch、axios、Python requests、Go net/http，包含路径参数、查询参数、请求头、Cookie、认证和 JSON 请求体',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '接口ID' },
+                    language: { type: 'string', enum: ['curl', 'fetch', 'axios', 'python', 'go', 'all'], description: '代码类型，默认curl；all 输出全部' },
+                    variables: { type: 'string', description: 'URL/参数中 {{变量}} 的取值JSON对象字符串（可选），如 {"host":"https://api.example.com"}，未提供的变量保持原样' }
+                },
+                required: ['target_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_scan_routes',
+            description: '静态扫描本地 Express/Koa/NestJS 源码中的路由注册（app.get、router.post、@Controller + @Get/@Post 等），列出项目中尚未文档化的 方法+URL，可选在指定目录下创建占位接口',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    dir: { type: 'string', description: '要扫描的源码目录（相对路径基于当前工作目录）' },
+                    url_prefix: { type: 'string', description: '拼接到所有扫描路由前的全局前缀（可选），如 "/api"（对应 app.use("/api", router) 或 setGlobalPrefix）' },
+                    create_missing: { type: 'boolean', description: '是否为缺失的路由创建占位接口，默认false仅列出' },
+                    descriptions: { type: 'string', description: '占位接口路径参数的描述JSON对象字符串，键为 "restful.参数名" 或参数名，如 {"restful.id":"用户ID"}。create_missing=true 且缺少描述时返回待填写的模板' },
+                    parent_id: { type: 'string', description: '占位接口所在的父目录ID，默认为"0"' }
+                },
+                required: ['dir'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_fields_from_type',
+            description: '将本地 TypeScript 文件中的 interface/type/class（DTO）或 zod schema 转为字段列表，可直接用作 body 或 responses[].fields 参数。desc 取自 JSDoc 注释（或 @ApiProperty/.describe()），可选标记(?/.optional())决定 required，嵌套使用 . 和 []。没有注释的字段不会用字段名充当描述，缺少时返回待填写的 descriptions 模板',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    file_path: { type: 'string', description: 'TS/JS 文件路径（相对路径基于当前工作目录）' },
+                    type_name: { type: 'string', description: '类型名或 zod schema 常量名，如 CreateUserDto、UserSchema' },
+                    descriptions: { type: 'string', description: '没有注释的字段描述JSON对象字符串，键为字段路径，如 {"tags":"标签","address.city":"城市"}' }
+                },
+                required: ['file_path', 'type_name'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_update_folder',
+            description: '修改目录：重命名、修改描述、设置子接口继承的认证与公共 Headers/Query 参数；可查看目录下哪些接口继承了目录认证、哪些覆盖了公共参数。只传 folder_id 时仅查看继承情况',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    folder_id: { type: 'string', description: '目录ID' },
+                    name: { type: 'string', description: '新目录名称（可选）' },
+                    description: { type: 'string', description: '新目录描述（可选）' },
+                    headers: { type: 'string', description: '公共 Headers 字段列表JSON字符串（可选），提供"[]"清空，格式同 apipost_create_folder' },
+                    query: { type: 'string', description: '公共 Query 字段列表JSON字符串（可选），提供"[]"清空' },
+                    auth: { type: 'string', description: '认证配置JSON字符串（可选），提供"{}"改为继承上级。格式：{"type":"bearer","bearer":{"key":"{{token}}"}}' },
+                    show_inheritance: { type: 'boolean', description: '是否显示子接口继承情况，只传 folder_id 时默认 true，否则默认 false' }
+                },
+                required: ['folder_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_move',
+            description: '移动接口或目录到另一个目录并调整顺序，保留原ID；移动目录时其下所有子项一起移动，禁止把目录移动到自身或其子目录下',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_ids: { type: 'array', items: { type: 'string' }, description: '要移动的接口或目录ID数组，按数组顺序排列' },
+                    parent_id: { type: 'string', description: '目标目录ID，使用"0"表示根目录' },
+                    position: { type: 'integer', minimum: 0, description: '插入到目标目录第几个位置（从0开始，可选），不传则追加到末尾' }
+                },
+                required: ['target_ids', 'parent_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_clone',
+            description: '复制接口或整个目录（含所有子目录与接口）到指定目录，生成新ID，可替换 URL 前缀和名称（如 v1→v2），返回旧ID→新ID映射',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '要复制的接口或目录ID' },
+                    parent_id: { type: 'string', description: '副本所在目录ID，使用"0"表示根目录，默认与原项目相同' },
+                    url_prefix_from: { type: 'string', description: '要替换的 URL 前缀（可选），如 /api/v1' },
+                    url_prefix_to: { type: 'string', description: '替换后的 URL 前缀，如 /api/v2' },
+                    name_from: { type: 'string', description: '名称中要替换的文本（可选），对所有复制的接口和目录生效' },
+                    name_to: { type: 'string', description: '名称替换后的文本' }
+                },
+                required: ['target_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_trash_list',
+            description: '查看本地回收站：apipost_delete 删除前保存的接口与目录快照，按删除时间倒序',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', description: '显示的记录数，默认20' }
+                },
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_restore',
+            description: '从本地回收站恢复已删除的接口或目录，保留原父目录、名称与内容，父目录已被删除时自动重建',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    trash_id: { type: 'string', description: '回收站记录ID（来自 apipost_trash_list 或删除结果）' },
+                    target_ids: { type: 'array', items: { type: 'string' }, description: '只恢复其中部分项目（可选），默认恢复整条记录' }
+                },
+                required: ['trash_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_history',
+            description: '查看接口的本地修订历史：每次通过本工具创建、修改、移动、回滚接口时记录的修改前后快照',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '接口ID' },
+                    limit: { type: 'integer', description: '显示最近多少条修订，默认20' }
+                },
+                required: ['target_id'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_diff',
+            description: '字段级比较接口的两个修订，或某个修订与线上当前状态，列出名称/URL/参数/Body/认证/响应的新增、删除与修改',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '接口ID' },
+                    from_revision: { type: 'integer', description: '起始修订号（来自 apipost_history）' },
+                    to_revision: { type: 'integer', description: '目标修订号（可选），不传则与线上当前状态比较' }
+                },
+                required: ['target_id', 'from_revision'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_revert',
+            description: '将接口回滚到指定修订的内容（名称、方法、URL、描述、请求参数与响应），通过修改接口提交并记录新的修订',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    target_id: { type: 'string', description: '接口ID' },
+                    revision: { type: 'integer', description: '要回滚到的修订号' }
+                },
+                required: ['target_id', 'revision'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_batch_create',
+            description: '批量创建接口：先用与 apipost_smart_create 相同的规则校验全部条目，任一不合法则不创建；校验通过后按并发上限创建，folder_path 指定的目录不存在时自动创建。atomic 为 true 时任一失败即删除本次已创建的接口与目录',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    apis: {
+                        type: 'array',
+                        items: { type: 'object' },
+                        description: '接口定义数组（最多100个），每项字段同 apipost_smart_create（method/url/name 必填），headers/query/body/cookies/restful/responses/auth 可直接写数组或对象；可选 folder_path（如 "用户/地址"，相对 parent_id 逐级查找或创建目录）。例如：[{"method":"GET","url":"/users/{id}","name":"用户详情","folder_path":"用户","restful":[{"key":"id","desc":"用户ID","type":"integer","example":1}]}]'
+                    },
+                    parent_id: { type: 'string', description: '默认父目录ID（条目未指定 parent_id 时使用），使用"0"表示根目录，默认为"0"' },
+                    atomic: { type: 'boolean', description: '任一条目创建失败时删除本次已创建的接口与目录，默认false（保留成功项并报告失败项）；需要 full 安全模式' },
+                    concurrency: { type: 'integer', description: '并发创建数，默认5，最大10' }
+                },
+                required: ['apis'],
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_bulk_update',
+            description: '按目录（递归）、关键字、方法或 URL 正则筛选多个接口，统一添加/删除 Header、设置认证、正则替换 URL 或添加描述前缀。先用 dry_run 预览每个接口的变更并获取 confirm_token，再带令牌提交',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    parent_id: { type: 'string', description: '筛选：目录ID，递归包含所有子目录中的接口；"0" 表示整个项目' },
+                    search: { type: 'string', description: '筛选：关键字，匹配名称、URL 或描述' },
+                    method: { type: 'string', description: '筛选：HTTP方法，多个用逗号分隔，如 "POST,PUT"' },
+                    url_pattern: { type: 'string', description: '筛选：URL 正则表达式，如 "^/api/admin/"' },
+                    add_headers: { type: 'string', description: '变换：要添加的 Header 字段列表JSON字符串，已存在的同名 Header 会被更新。格式：[{"key":"X-Tenant-Id","desc":"租户ID","type":"string","required":true,"example":"t1"}]' },
+                    remove_headers: { type: 'array', items: { type: 'string' }, description: '变换：要删除的 Header 名称列表' },
+                    auth: { type: 'string', description: '变换：认证配置JSON字符串，"{}" 表示删除认证（继承父级）。格式：{"type":"bearer","bearer":{"key":"{{token}}"}}' },
+                    url_find: { type: 'string', description: '变换：URL 中要替换的正则表达式（替换第一处匹配），需与 url_replace 一起使用' },
+                    url_replace: { type: 'string', description: '变换：替换文本，支持 $1 等分组引用' },
+                    description_prefix: { type: 'string', description: '变换：添加到描述开头的文本，已有该前缀的接口不会重复添加' },
+                    dry_run: { type: 'boolean', description: '仅预览匹配的接口与字段级变更并返回确认令牌，不提交，默认false' },
+                    confirm_token: { type: 'string', description: '确认令牌（来自 dry_run 预览），提交时必需' }
+                },
+                additionalProperties: false
+            }
+        },
+        {
+            name: 'apipost_migrate_url_prefix',
+            description: '迁移已有接口的 URL 前缀：将以旧前缀开头（或未带前缀）的接口 URL 改为新前缀，如硬编码域名改为 {{host}}。先用 dry_run 预览并获取 confirm_token，提交后在本地记录被修改的接口ID及原 URL',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    from_prefix: { type: 'string', description: '旧前缀，如 "https://api.example.com" 或 "{{old_host}}/gateway"；不传表示匹配未带前缀的路径（以 / 开头）' },
+                    to_prefix: { type: 'string', description: '新前缀，默认使用 APIPOST_URL_PREFIX；传 "" 表示去掉前缀' },
+                    parent_id: { type: 'string', description: '只迁移该目录（递归）下的接口（可选），默认整个项目' },
+                    dry_run: { type: 'boolean', description: '仅预览将被修改的接口及新旧 URL 并返回确认令牌，不提交，默认false' },
+                    confirm_token: { type: 'string', description: '确认令牌（来自 dry_run 预览），提交时必需' }
+                },
+                additionalProperties: false
+            }
+        }
+    ]
+}));
+// 工具处理
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    if (!args) {
+        throw new Error('缺少参数');
+    }
+    const startTime = Date.now();
+    try {
+        if (!currentWorkspace) {
+            await initWorkspace(startTime);
+        }
+        switch (name) {
+            case 'apipost_test_connection':
+                const connectionInfo = {
+                    status: '✅ 连接正常',
+                    mcp_version: '1.0.0',
+                    api_host: APIPOST_HOST,
+                    security_mode: APIPOST_SECURITY_MODE,
+                    workspace: currentWorkspace ? {
+                        team_name: currentWorkspace.teamName,
+                        project_name: currentWorkspace.projectName,
+                        project_id: currentWorkspace.projectId
+                    } : null,
+                    environment: {
+                        token_configured: !!APIPOST_TOKEN,
+                        host_configured: !!APIPOST_HOST,
+                        node_version: process.version,
+                        platform: process.platform,
+                        url_prefix: APIPOST_URL_PREFIX
+                    },
+                    available_operations: {
+                        create_api: checkSecurityPermission('write'),
+                        update_api: checkSecurityPermission('write'),
+                        delete_api: checkSecurityPermission('write'),
+                        read_api: checkSecurityPermission('read')
+                    },
+                    test_time: new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
+                };
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `🎉 ApiPost MCP 连接测试成功！
+
+📊 连接状态: ${connectionInfo.status}
+🔗 MCP版本: ${connectionInfo.mcp_version}
+🌐 API地址: ${connectionInfo.api_host}
+🔒 安全模式: ${connectionInfo.security_mode}
+
+🏢 当前工作空间:
+${connectionInfo.workspace ? `• 团队: ${connectionInfo.workspace.team_name}
+• 项目: ${connectionInfo.workspace.project_name}
+• 项目ID: ${connectionInfo.workspace.project_id}` : '• 工作空间未初始化'}
+
+🔧 环境配置:
+• Token配置: ${connectionInfo.environment.token_configured ? '✅ 已配置' : '❌ 未配置'}
+• Host配置: ${connectionInfo.environment.host_configured ? '✅ 已配置' : '❌ 未配置'}
 • URL前缀: ${connectionInfo.environment.url_prefix || '（未配置）'}
 • Node版本: ${connectionInfo.environment.node_version}
 • 系统平台: ${connectionInfo.environment.platform}
@@ -1139,621 +5757,1647 @@ ${connectionInfo.workspace ? `• 团队: ${connectionInfo.workspace.team_name}
                             throw new Error('请指定团队ID或确保已初始化工作空间');
                         }
 
-                        const projectsResult = await apiClient.get('/open/project/list', {
-                            params: { team_id: targetTeamId, action: 0 }
-                        });
-                        if (projectsResult.data.code !== 0) {
-                            throw new Error(`获取项目列表失败: ${projectsResult.data.msg}`);
-                        }
-                        const projects = projectsResult.data.data || [];
-                        const showProjectDetails = args.show_details;
-                        // 获取团队信息
-                        const teamsRes = await apiClient.get('/open/team/list');
-                        const currentTeam = teamsRes.data.data?.find((t) => t.team_id === targetTeamId);
-                        const teamName = currentTeam?.name || targetTeamId;
-                        let projectsText = `📁 团队 "${teamName}" 的项目列表 (共 ${projects.length} 个):\n\n`;
-                        if (projects.length === 0) {
-                            projectsText += '📭 该团队下未找到项目\n';
-                        }
-                        else {
-                            projects.forEach((project, index) => {
-                                const num = (index + 1).toString().padStart(2, ' ');
-                                const isCurrent = currentWorkspace?.projectId === project.project_id ? ' ⭐ 当前' : '';
-                                projectsText += `${num}. ${project.name}${isCurrent}\n`;
-                                projectsText += `     🆔 ID: ${project.project_id}\n`;
-                                if (showProjectDetails) {
-                                    projectsText += `     📅 创建时间: ${project.created_at || '未知'}\n`;
-                                    projectsText += `     👤 创建者: ${project.creator_name || '未知'}\n`;
-                                    if (project.description) {
-                                        projectsText += `     📝 描述: ${project.description}\n`;
-                                    }
-                                    projectsText += `     🔒 可见性: ${project.is_public ? '公开' : '私有'}\n`;
-                                }
-                                projectsText += '\n';
+                        const projectsResult = await apiClient.get('/open/project/list', {
+                            params: { team_id: targetTeamId, action: 0 }
+                        });
+                        if (projectsResult.data.code !== 0) {
+                            throw new Error(`获取项目列表失败: ${projectsResult.data.msg}`);
+                        }
+                        const projects = projectsResult.data.data || [];
+                        const showProjectDetails = args.show_details;
+                        // 获取团队信息
+                        const teamsRes = await apiClient.get('/open/team/list');
+                        const currentTeam = teamsRes.data.data?.find((t) => t.team_id === targetTeamId);
+                        const teamName = currentTeam?.name || targetTeamId;
+                        let projectsText = `📁 团队 "${teamName}" 的项目列表 (共 ${projects.length} 个):\n\n`;
+                        if (projects.length === 0) {
+                            projectsText += '📭 该团队下未找到项目\n';
+                        }
+                        else {
+                            projects.forEach((project, index) => {
+                                const num = (index + 1).toString().padStart(2, ' ');
+                                const isCurrent = currentWorkspace?.projectId === project.project_id ? ' ⭐ 当前' : '';
+                                projectsText += `${num}. ${project.name}${isCurrent}\n`;
+                                projectsText += `     🆔 ID: ${project.project_id}\n`;
+                                if (showProjectDetails) {
+                                    projectsText += `     📅 创建时间: ${project.created_at || '未知'}\n`;
+                                    projectsText += `     👤 创建者: ${project.creator_name || '未知'}\n`;
+                                    if (project.description) {
+                                        projectsText += `     📝 描述: ${project.description}\n`;
+                                    }
+                                    projectsText += `     🔒 可见性: ${project.is_public ? '公开' : '私有'}\n`;
+                                }
+                                projectsText += '\n';
+                            });
+                        }
+                        if (currentWorkspace && currentWorkspace.teamId === targetTeamId) {
+                            projectsText += `💡 当前项目: ${currentWorkspace.projectName} (${currentWorkspace.projectId})\n`;
+                        }
+                        projectsText += '\n💡 使用 apipost_workspace action:switch 切换到指定项目';
+                        return {
+                            content: [{ type: 'text', text: projectsText }]
+                        };
+                    case 'switch':
+                        // 切换工作空间
+                        const newTeamId = args.team_id;
+                        const newProjectId = args.project_id;
+                        const teamNameToSwitch = args.team_name;
+                        const projectNameToSwitch = args.project_name;
+
+                        // 如果提供了名称，先查找对应的ID
+                        let finalTeamId = newTeamId;
+                        let finalProjectId = newProjectId;
+                        if (teamNameToSwitch && !newTeamId) {
+                            const teamsRes = await apiClient.get('/open/team/list');
+                            const team = teamsRes.data.data?.find((t) => t.name === teamNameToSwitch);
+                            if (!team) {
+                                throw new Error(`未找到名称为 "${teamNameToSwitch}" 的团队`);
+                            }
+                            finalTeamId = team.team_id;
+                        }
+                        if (projectNameToSwitch && !newProjectId) {
+                            if (!finalTeamId) {
+                                throw new Error('切换到指定项目需要先指定团队');
+                            }
+                            const projectsRes = await apiClient.get('/open/project/list', {
+                                params: { team_id: finalTeamId, action: 0 }
+                            });
+                            const project = projectsRes.data.data?.find((p) => p.name === projectNameToSwitch);
+                            if (!project) {
+                                throw new Error(`在团队中未找到名称为 "${projectNameToSwitch}" 的项目`);
+                            }
+                            finalProjectId = project.project_id;
+                        }
+                        if (!finalTeamId || !finalProjectId) {
+                            throw new Error('请提供团队ID和项目ID，或者提供团队名称和项目名称');
+                        }
+                        // 验证团队和项目是否存在且可访问
+                        const teamCheckRes = await apiClient.get('/open/team/list');
+                        const targetTeam = teamCheckRes.data.data?.find((t) => t.team_id === finalTeamId);
+                        if (!targetTeam) {
+                            throw new Error(`团队ID "${finalTeamId}" 不存在或无权限访问`);
+                        }
+                        const projectCheckRes = await apiClient.get('/open/project/list', {
+                            params: { team_id: finalTeamId, action: 0 }
+                        });
+                        const targetProject = projectCheckRes.data.data?.find((p) => p.project_id === finalProjectId);
+                        if (!targetProject) {
+                            throw new Error(`项目ID "${finalProjectId}" 在指定团队中不存在或无权限访问`);
+                        }
+                        // 更新工作空间
+                        const oldWorkspace = currentWorkspace;
+                        currentWorkspace = {
+                            teamId: finalTeamId,
+                            teamName: targetTeam.name,
+                            projectId: finalProjectId,
+                            projectName: targetProject.name
+                        };
+
+                        let switchText = '🔄 工作空间切换成功！\n\n';
+                        if (oldWorkspace) {
+                            switchText += `📤 原工作空间:\n`;
+                            switchText += `   团队: ${oldWorkspace.teamName} (${oldWorkspace.teamId})\n`;
+                            switchText += `   项目: ${oldWorkspace.projectName} (${oldWorkspace.projectId})\n\n`;
+                        }
+                        switchText += `📥 新工作空间:\n`;
+                        switchText += `   团队: ${currentWorkspace.teamName} (${currentWorkspace.teamId})\n`;
+                        switchText += `   项目: ${currentWorkspace.projectName} (${currentWorkspace.projectId})\n\n`;
+                        switchText += `✨ 现在可以在新的工作空间中进行 API 操作了！`;
+                        return {
+                            content: [{ type: 'text', text: switchText }]
+                        };
+                    default:
+                        throw new Error(`未知的操作类型: ${action}. 可用操作: current, list_teams, list_projects, switch`);
+                }
+            case 'apipost_create_folder':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                const folderName = args.name;
+                const folderParentId = args.parent_id || '0';
+                const folderDescription = args.description || '';
+                if (!folderName) {
+                    throw new Error('请提供目录名称');
+                }
+                // 目录公共参数与认证，子接口继承
+                const { config: folderConfig } = buildApiConfig({ headers: args.headers, query: args.query, auth: args.auth });
+                // 生成目录模板
+                const folderTemplate = generateFolderTemplate(folderName, folderParentId, folderDescription, folderConfig);
+                folderTemplate.project_id = currentWorkspace.projectId;
+                // 创建目录
+                const createFolderResult = await apiClient.post('/open/apis/create', folderTemplate);
+                if (createFolderResult.data.code !== 0) {
+                    throw new Error(`创建目录失败: ${createFolderResult.data.msg}`);
+                }
+
+                return {
+                    content: [{
+                            type: 'text',
+                            text: `目录创建成功!\n名称: ${folderName}\n目录ID: ${folderTemplate.target_id}\n父目录ID: ${folderParentId}${folderDescription ? '\n描述: ' + folderDescription : ''}\n认证: ${folderTemplate.request.auth.type}\n公共Headers: ${folderConfig.headers?.length || 0}个\n公共Query参数: ${folderConfig.query?.length || 0}个`
+                        }]
+                };
+            case 'apipost_smart_create':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                // 构建配置对象与创建模板
+                const { template, config } = buildCreateTemplate(args);
+                if (args.dry_run) {
+                    const createPreviewLines = diffApiSnapshots({}, template);
+                    return {
+                        content: [{
+                                type: 'text',
+                                text: `🧪 创建预览（未提交）\n名称: ${template.name}\n方法: ${template.method}\nURL: ${template.url}\n父目录ID: ${template.parent_id}\n\n将创建 (${createPreviewLines.length}项):\n${createPreviewLines.join('\n')}\n\n💡 确认无误后去掉 dry_run 重新调用即可创建`
+                            }]
+                    };
+                }
+                const headerCount = config.headers?.length || 0;
+                const queryCount = config.query?.length || 0;
+                const bodyCount = config.body?.length || 0;
+                const responseCount = config.responses?.length || 0;
+                const createResult = await apiClient.post('/open/apis/create', template);
+                if (createResult.data.code !== 0) {
+                    throw new Error(`创建失败: ${createResult.data.msg}`);
+                }
+                recordCreatedRevision('create', template, createResult);
+
+                return {
+                    content: [{
+                            type: 'text',
+                            text: `API创建成功!\n名称: ${args.name}\n方法: ${template.method}\nURL: ${args.url}\nID: ${createResult.data.data.target_id}\n\n字段统计:\n• Headers: ${headerCount}个\n• Query参数: ${queryCount}个\n• Body参数: ${bodyCount}个\n• 响应示例: ${responseCount}个`
+                        }]
+                };
+            case 'apipost_list':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
+                }
+                const searchKeyword = args.search;
+                const parentId = args.parent_id;
+                const targetType = args.target_type || 'all';
+                const methodFilter = args.method ? args.method.split(',').map(m => m.trim().toUpperCase()).filter(Boolean) : [];
+                const showStructure = args.show_structure;
+                const showPath = args.show_path;
+                const recursive = args.recursive;
+                const depth = args.depth;
+                const groupByFolderFlag = args.group_by_folder;
+                const limit = Math.min(args.limit || 50, 200);
+                const showAll = args.show_all;
+                const listResult = await apiClient.get('/open/apis/list', {
+                    params: { project_id: currentWorkspace.projectId }
+                });
+                if (listResult.data.code !== 0) {
+                    throw new Error(`获取列表失败: ${listResult.data.msg}`);
+                }
+                let items = listResult.data.data.list;
+                const totalCount = items.length;
+                const allItems = [...items]; // 保存完整列表用于路径构建和分组
+                // 递归搜索或按目录过滤
+                if (recursive && parentId !== undefined) {
+                    // 递归搜索指定目录及其子目录
+                    items = getChildrenRecursively(items, parentId, depth);
+                }
+                else if (parentId !== undefined) {
+                    // 仅搜索当前层级
+                    items = items.filter((item) => item.parent_id === parentId);
+                }
+                // 按类型过滤
+                if (targetType !== 'all') {
+                    items = items.filter((item) => item.target_type === targetType);
+                }
+                // 按方法过滤（仅保留接口）
+                if (methodFilter.length > 0) {
+                    items = items.filter((item) => item.target_type === 'api' && methodFilter.includes(String(item.method || '').toUpperCase()));
+                }
+                // 搜索过滤
+                if (searchKeyword) {
+                    const keyword = searchKeyword.toLowerCase();
+                    items = items.filter((item) => item.name?.toLowerCase().includes(keyword) ||
+                        item.url?.toLowerCase().includes(keyword) ||
+                        item.method?.toLowerCase().includes(keyword) ||
+                        item.target_id?.toLowerCase().includes(keyword) ||
+                        item.description?.toLowerCase().includes(keyword));
+                }
+                // 分页处理
+                const filteredCount = items.length;
+                let displayItems = items;
+                let isLimited = false;
+                if (!showAll && filteredCount > limit) {
+                    displayItems = items.slice(0, limit);
+                    isLimited = true;
+                }
+                // 构建显示文本
+                const listResult_display = buildListDisplay(displayItems, totalCount, filteredCount, showStructure, searchKeyword, parentId, targetType, isLimited, limit, showPath, recursive, depth, groupByFolderFlag, allItems, methodFilter);
+                // 构建日志信息
+                const filterInfo = [];
+                if (parentId !== undefined)
+                    filterInfo.push(`父目录: ${parentId}`);
+                if (targetType !== 'all')
+                    filterInfo.push(`类型: ${targetType}`);
+                if (methodFilter.length > 0)
+                    filterInfo.push(`方法: ${methodFilter.join(',')}`);
+                if (searchKeyword)
+                    filterInfo.push(`搜索: "${searchKeyword}"`);
+                if (recursive)
+                    filterInfo.push('递归搜索');
+                if (depth !== undefined)
+                    filterInfo.push(`深度限制: ${depth}`);
+                const logInfo = filterInfo.length > 0 ? `\n筛选条件: ${filterInfo.join(', ')}` : '';
+                const limitInfo = isLimited ? `\n显示限制: 前${limit}条` : '';
+
+                return {
+                    content: [{ type: 'text', text: listResult_display }]
+                };
+            case 'apipost_update':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
+                }
+                const targetId = args.target_id;
+                if (!targetId) {
+                    throw new Error('请提供要修改的API接口ID');
+                }
+                if (args.expected_version !== undefined && (!Number.isInteger(args.expected_version) || args.expected_version < 0)) {
+                    throw new Error('expected_version 必须是非负整数');
+                }
+                // 获取原接口信息
+                const originalApi = await fetchApiDetail(targetId);
+                // 构建增量更新模板
+                const { updateTemplate, providedFields, warnings: updateWarnings } = buildUpdateTemplate(originalApi, args);
+                if (args.expected_version !== undefined && (originalApi.version || 0) !== args.expected_version) {
+                    const expectedSnapshot = findSnapshotByVersion(targetId, args.expected_version);
+                    return {
+                        content: [{ type: 'text', text: buildConflictReport(targetId, args.expected_version, originalApi, expectedSnapshot ? diffApiSnapshots(expectedSnapshot, originalApi) : null, diffApiSnapshots(originalApi, updateTemplate)) }],
+                        isError: true
+                    };
+                }
+                if (args.dry_run) {
+                    const updatePreviewLines = diffApiSnapshots(originalApi, updateTemplate);
+                    const droppedLines = updatePreviewLines.filter(line => line.startsWith('- '));
+                    let previewText = `🧪 修改预览（未提交）\n接口ID: ${targetId}\n版本: v${originalApi.version || 0} → v${updateTemplate.version}\n`;
+                    previewText += updatePreviewLines.length > 0
+                        ? `\n变更 (${updatePreviewLines.length}处):\n${updatePreviewLines.join('\n')}\n`
+                        : `\n(内容无变化，提交后仅更新版本)\n`;
+                    if (droppedLines.length > 0)
+                        previewText += `\n⚠️ 将被删除 (${droppedLines.length}项):\n${droppedLines.join('\n')}\n`;
+                    if (updateWarnings.length > 0)
+                        previewText += `\n⚠️ ${updateWarnings.join('\n⚠️ ')}\n`;
+                    previewText += `\n💡 确认无误后去掉 dry_run 重新调用即可提交`;
+                    return {
+                        content: [{ type: 'text', text: previewText }]
+                    };
+                }
+                const newName = args.name;
+                const newMethod = args.method ? updateTemplate.method : undefined;
+                const newUrl = args.url ? updateTemplate.url : undefined;
+                // 提交前再次确认线上版本，避免覆盖期间他人的修改
+                const latestApi = await fetchApiDetail(targetId);
+                if ((latestApi.version || 0) !== (originalApi.version || 0)) {
+                    return {
+                        content: [{ type: 'text', text: buildConflictReport(targetId, originalApi.version || 0, latestApi, diffApiSnapshots(originalApi, latestApi), diffApiSnapshots(originalApi, updateTemplate)) }],
+                        isError: true
+                    };
+                }
+                // 执行修改
+                const updateResult = await apiClient.post('/open/apis/update', updateTemplate);
+                if (updateResult.data.code !== 0) {
+                    throw new Error(`修改失败: ${updateResult.data.msg}`);
+                }
+                recordRevision('update', updateTemplate, originalApi);
+                // 统计修改的字段
+                const changedFields = [];
+                if (newName && newName !== originalApi.name)
+                    changedFields.push('名称');
+                if (newMethod && newMethod !== originalApi.method)
+                    changedFields.push('方法');
+                if (newUrl && newUrl !== originalApi.url)
+                    changedFields.push('URL');
+                // 检查是否有配置相关的更新
+                if (providedFields.size > 0)
+                    changedFields.push('配置');
+                const changedFieldsText = changedFields.length > 0 ? `\n修改字段: ${changedFields.join(', ')}` : '\n仅更新版本';
+
+                let updateText = `接口修改成功!\n接口ID: ${targetId}\n`;
+                if (newName)
+                    updateText += `新名称: ${newName}\n`;
+                if (newMethod)
+                    updateText += `新方法: ${newMethod}\n`;
+                if (newUrl)
+                    updateText += `新URL: ${newUrl}\n`;
+                updateText += `版本: v${updateTemplate.version}\n修改字段: ${changedFields.join(', ') || '仅更新版本'}`;
+                if (updateWarnings.length > 0)
+                    updateText += `\n⚠️ ${updateWarnings.join('\n⚠️ ')}`;
+                return {
+                    content: [{ type: 'text', text: updateText }]
+                };
+            case 'apipost_detail':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
+                }
+                const detailTargetId = args.target_id;
+                if (!detailTargetId) {
+                    throw new Error('请提供要查看的API接口ID');
+                }
+                // 获取接口详情
+                const detailResult = await apiClient.post('/open/apis/details', {
+                    project_id: currentWorkspace.projectId,
+                    target_ids: [detailTargetId]
+                });
+                if (detailResult.data.code !== 0) {
+                    throw new Error(`获取接口详情失败: ${detailResult.data.msg}`);
+                }
+                const apiDetail = detailResult.data.data.list[0];
+                if (!apiDetail) {
+                    throw new Error(`未找到接口详情 (ID: ${detailTargetId})。可能原因：1) 接口不存在 2) 无权限访问 3) 接口已被删除。请检查接口ID是否正确。`);
+                }
+                // 格式化接口详情
+                let detailText = `📋 接口详情\n\n`;
+                detailText += `🏷️  基本信息\n`;
+                detailText += `   接口名称: ${apiDetail.name}\n`;
+                detailText += `   请求方法: ${apiDetail.method}\n`;
+                detailText += `   请求URL: ${apiDetail.url}\n`;
+                detailText += `   接口ID: ${detailTargetId}\n`;
+                detailText += `   版本: v${apiDetail.version || 1}\n`;
+                detailText += `   冲突状态: ${apiDetail.is_conflicted === 1 ? '⚠️ 存在未解决的冲突，请在 ApiPost 中处理后再修改' : '无'}\n`;
+                if (apiDetail.description) {
+                    detailText += `   描述: ${apiDetail.description}\n`;
+                }
+                detailText += `\n`;
+                // Headers参数
+                const headers = apiDetail.request?.header?.parameter || [];
+                detailText += `📨 Headers参数 (${headers.length}个)\n`;
+                if (headers.length > 0) {
+                    headers.forEach((header, index) => {
+                        detailText += `   ${index + 1}. ${header.key}: ${header.description || '无描述'}\n`;
+                        detailText += `      类型: ${header.field_type || 'string'}, 必需: ${header.not_null ? '是' : '否'}\n`;
+                        if (header.value)
+                            detailText += `      示例: ${header.value}\n`;
+                    });
+                }
+                else {
+                    detailText += `   (无Headers参数)\n`;
+                }
+                detailText += `\n`;
+                // 路径参数
+                const detailRestful = apiDetail.request?.restful?.parameter || [];
+                if (detailRestful.length > 0) {
+                    detailText += `🧭 路径参数 (${detailRestful.length}个)\n`;
+                    detailRestful.forEach((param, index) => {
+                        detailText += `   ${index + 1}. ${param.key}: ${param.description || '无描述'}\n`;
+                        detailText += `      类型: ${param.field_type || 'string'}, 必需: ${param.not_null ? '是' : '否'}\n`;
+                        if (param.value)
+                            detailText += `      示例: ${param.value}\n`;
+                    });
+                    detailText += `\n`;
+                }
+                // Query参数
+                const queryParams = apiDetail.request?.query?.parameter || [];
+                detailText += `🔍 Query参数 (${queryParams.length}个)\n`;
+                if (queryParams.length > 0) {
+                    queryParams.forEach((param, index) => {
+                        detailText += `   ${index + 1}. ${param.key}: ${param.description || '无描述'}\n`;
+                        detailText += `      类型: ${param.field_type || 'string'}, 必需: ${param.not_null ? '是' : '否'}\n`;
+                        if (param.value)
+                            detailText += `      示例: ${param.value}\n`;
+                    });
+                }
+                else {
+                    detailText += `   (无Query参数)\n`;
+                }
+                detailText += `\n`;
+                // Body参数
+                const detailBody = apiDetail.request?.body || {};
+                const detailBodyMode = detailBody.mode || 'none';
+                const bodyParams = (FORM_BODY_MODES.includes(detailBodyMode) ? detailBody.parameter : detailBody.raw_parameter) || [];
+                detailText += `📝 Body参数 (${bodyParams.length}个, 模式: ${detailBodyMode})\n`;
+                if (bodyParams.length > 0) {
+                    bodyParams.forEach((param, index) => {
+                        detailText += `   ${index + 1}. ${param.key}: ${param.description || '无描述'}\n`;
+                        detailText += `      类型: ${param.field_type || 'string'}, 必需: ${param.not_null ? '是' : '否'}\n`;
+                        if (param.value)
+                            detailText += `      示例: ${param.value}\n`;
+                    });
+                }
+                else if (detailBodyMode === 'binary') {
+                    detailText += `   文件: ${detailBody.binary?.file_name || '(未指定)'}\n`;
+                }
+                else if (detailBodyMode !== 'plain') {
+                    detailText += `   (无Body参数)\n`;
+                }
+                if ((detailBodyMode === 'xml' || detailBodyMode === 'plain') && detailBody.raw) {
+                    detailText += `   原始内容:\n${detailBody.raw.split('\n').map(line => `      ${line}`).join('\n')}\n`;
+                }
+                detailText += `\n`;
+                // Cookies参数
+                const cookies = apiDetail.request?.cookie?.parameter || [];
+                detailText += `🍪 Cookies参数 (${cookies.length}个)\n`;
+                if (cookies.length > 0) {
+                    cookies.forEach((cookie, index) => {
+                        detailText += `   ${index + 1}. ${cookie.key}: ${cookie.description || '无描述'}\n`;
+                        detailText += `      类型: ${cookie.field_type || 'string'}, 必需: ${cookie.not_null ? '是' : '否'}\n`;
+                        if (cookie.value)
+                            detailText += `      示例: ${cookie.value}\n`;
+                    });
+                }
+                else {
+                    detailText += `   (无Cookies参数)\n`;
+                }
+                detailText += `\n`;
+                // 认证配置
+                const auth = apiDetail.request?.auth || {};
+                detailText += `🔐 认证配置\n`;
+                if (auth.type && auth.type !== 'inherit') {
+                    detailText += `   类型: ${auth.type}\n`;
+                    if (auth.bearer?.key) {
+                        detailText += `   Token: ${auth.bearer.key.substring(0, 20)}...\n`;
+                    }
+                }
+                else {
+                    detailText += `   (继承父级认证或无认证)\n`;
+                }
+                detailText += `\n`;
+                // 响应示例
+                const responses = apiDetail.response?.example || [];
+                detailText += `📤 响应示例 (${responses.length}个)\n`;
+                if (responses.length > 0) {
+                    responses.forEach((resp, index) => {
+                        detailText += `   ${index + 1}. ${resp.expect?.name || '响应' + (index + 1)}\n`;
+                        detailText += `      状态码: ${resp.expect?.code || 200}, 内容类型: ${resp.expect?.content_type || 'application/json'}\n`;
+                        const respHeaders = (resp.headers || []).filter(h => h && h.key);
+                        if (respHeaders.length > 0) {
+                            detailText += `      响应头 (${respHeaders.length}个):\n`;
+                            respHeaders.forEach(h => {
+                                detailText += `         • ${h.key}: ${h.description || '无描述'}${h.value ? ` (示例: ${h.value})` : ''}\n`;
                             });
                         }
-                        if (currentWorkspace && currentWorkspace.teamId === targetTeamId) {
-                            projectsText += `💡 当前项目: ${currentWorkspace.projectName} (${currentWorkspace.projectId})\n`;
+                        if (resp.raw) {
+                            const rawData = resp.raw.length > 200 ? resp.raw.substring(0, 200) + '...' : resp.raw;
+                            detailText += `      数据: ${rawData}\n`;
                         }
-                        projectsText += '\n💡 使用 apipost_workspace action:switch 切换到指定项目';
-                        return {
-                            content: [{ type: 'text', text: projectsText }]
-                        };
-                    case 'switch':
-                        // 切换工作空间
-                        const newTeamId = args.team_id;
-                        const newProjectId = args.project_id;
-                        const teamNameToSwitch = args.team_name;
-                        const projectNameToSwitch = args.project_name;
+                    });
+                }
+                else {
+                    detailText += `   (无响应示例)\n`;
+                }
 
-                        // 如果提供了名称，先查找对应的ID
-                        let finalTeamId = newTeamId;
-                        let finalProjectId = newProjectId;
-                        if (teamNameToSwitch && !newTeamId) {
-                            const teamsRes = await apiClient.get('/open/team/list');
-                            const team = teamsRes.data.data?.find((t) => t.name === teamNameToSwitch);
-                            if (!team) {
-                                throw new Error(`未找到名称为 "${teamNameToSwitch}" 的团队`);
-                            }
-                            finalTeamId = team.team_id;
-                        }
-                        if (projectNameToSwitch && !newProjectId) {
-                            if (!finalTeamId) {
-                                throw new Error('切换到指定项目需要先指定团队');
-                            }
-                            const projectsRes = await apiClient.get('/open/project/list', {
-                                params: { team_id: finalTeamId, action: 0 }
-                            });
-                            const project = projectsRes.data.data?.find((p) => p.name === projectNameToSwitch);
-                            if (!project) {
-                                throw new Error(`在团队中未找到名称为 "${projectNameToSwitch}" 的项目`);
+                return {
+                    content: [{ type: 'text', text: detailText }]
+                };
+            case 'apipost_delete':
+                if (!checkSecurityPermission('delete')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许删除操作。需要 "full" 模式。`);
+                }
+                const apiIds = args.api_ids;
+                if (!apiIds || !Array.isArray(apiIds) || apiIds.length === 0) {
+                    throw new Error('请提供要删除的API接口ID数组');
+                }
+                const deleteItems = await fetchProjectItems();
+                // 所有删除都需先 dry_run 预览并回传确认令牌，令牌覆盖实际受影响的全部项目
+                const { affected: deleteAffected, missing: deleteMissing } = planDelete(deleteItems, apiIds, args.recursive);
+                const deleteToken = buildDeleteConfirmToken(deleteAffected.map(item => item.target_id));
+                if (args.dry_run) {
+                    const deletePathMap = buildPathMap(deleteItems);
+                    const deletePaths = deleteAffected
+                        .map(item => ({ item, path: `/${(deletePathMap.get(item.target_id) || [item.name]).join('/')}` }))
+                        .sort((a, b) => a.path.localeCompare(b.path));
+                    const deleteFolderCount = deleteAffected.filter(item => item.target_type === 'folder').length;
+                    let previewText = `🧪 删除预览（未执行删除）\n受影响: ${deleteAffected.length}项（目录 ${deleteFolderCount} 个, 接口 ${deleteAffected.length - deleteFolderCount} 个）\n\n`;
+                    deletePaths.forEach(({ item, path: itemPath }) => {
+                        previewText += item.target_type === 'folder'
+                            ? `📁 ${itemPath}  (${item.target_id})\n`
+                            : `   [${item.method}] ${itemPath}  ${item.url || ''}  (${item.target_id})\n`;
+                    });
+                    if (deleteMissing.length > 0) {
+                        previewText += `\n⚠️ 未找到: ${deleteMissing.join(', ')}\n`;
+                    }
+                    const unexpandedFolders = args.recursive ? [] : deleteAffected.filter(item => item.target_type === 'folder' && deleteItems.some(child => child.parent_id === item.target_id));
+                    if (unexpandedFolders.length > 0) {
+                        previewText += `\n⚠️ 目录 ${unexpandedFolders.map(item => item.name).join(', ')} 下仍有子项，未开启 recursive 时不会一起删除\n`;
+                    }
+                    previewText += `\n确认令牌: ${deleteToken}\n💡 确认无误后传入相同的 api_ids${args.recursive ? '、recursive: true' : ''} 与 confirm_token: "${deleteToken}" 执行删除`;
+                    return {
+                        content: [{ type: 'text', text: previewText }]
+                    };
+                }
+                if (!args.confirm_token) {
+                    throw new Error('删除需要确认令牌，请先使用 dry_run: true 预览受影响的项目并获取 confirm_token');
+                }
+                if (args.confirm_token !== deleteToken) {
+                    throw new Error('确认令牌不匹配：删除范围可能在预览后发生变化，请重新 dry_run 预览');
+                }
+                if (deleteAffected.length === 0) {
+                    throw new Error(`未找到要删除的项目: ${deleteMissing.join(', ')}`);
+                }
+                const deleteTargetIds = deleteAffected.map(item => item.target_id);
+                // 删除前写入本地回收站，快照失败时不执行删除
+                const trashEntry = await snapshotToTrash(deleteItems, deleteTargetIds);
+                const deleteData = {
+                    project_id: currentWorkspace.projectId,
+                    target_ids: deleteTargetIds
+                };
+                const deleteResult = await apiClient.post('/open/apis/delete', deleteData);
+                if (deleteResult.data.code !== 0) {
+                    throw new Error(`删除失败: ${deleteResult.data.msg}`);
+                }
+
+                let deleteText = `批量删除完成!\n删除数量: ${deleteTargetIds.length} 个${args.recursive ? '项目（含目录子项）' : '接口'}\n删除的ID:\n`;
+                deleteTargetIds.forEach((id, index) => {
+                    deleteText += `${index + 1}. ${id}\n`;
+                });
+                if (deleteMissing.length > 0)
+                    deleteText += `\n⚠️ 未找到: ${deleteMissing.join(', ')}\n`;
+                if (trashEntry)
+                    deleteText += `\n🗑️ 已存入本地回收站: ${trashEntry.trash_id}（可用 apipost_restore 恢复）`;
+                return {
+                    content: [{ type: 'text', text: deleteText }]
+                };
+            case 'apipost_import_openapi':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                if (!args.file_path) {
+                    throw new Error('请提供 OpenAPI 文件路径');
+                }
+                const spec = readLocalDataFile(args.file_path);
+                if (!spec || (!spec.openapi && !spec.swagger)) {
+                    throw new Error('不是有效的 OpenAPI 3.x / Swagger 2.0 文档（缺少 openapi 或 swagger 字段）');
+                }
+                const specVersion = spec.openapi ? `OpenAPI ${spec.openapi}` : `Swagger ${spec.swagger}`;
+                const importParentId = args.parent_id || '0';
+                const useTagsAsFolders = args.use_tags_as_folders !== false;
+                const operations = extractOpenApiOperations(spec);
+                if (operations.length === 0) {
+                    throw new Error('文档中未找到任何接口（paths 为空）');
+                }
+                // 同一父目录下的同名目录直接复用，避免重复导入产生重复目录
+                const tagFolderIds = new Map();
+                if (useTagsAsFolders) {
+                    (await fetchProjectItems())
+                        .filter((item) => item.target_type === 'folder' && item.parent_id === importParentId)
+                        .forEach((folder) => tagFolderIds.set(folder.name, folder.target_id));
+                }
+                const tagDescriptions = new Map((spec.tags || []).map((tag) => [tag.name, tag.description || '']));
+                const createdFolders = [];
+                const importResults = [];
+                for (const operation of operations) {
+                    const opLabel = `[${operation.method}] ${operation.url} ${operation.name}`;
+                    try {
+                        let opParentId = importParentId;
+                        if (useTagsAsFolders && operation.tag) {
+                            if (!tagFolderIds.has(operation.tag)) {
+                                const tagFolderId = await createFolder(operation.tag, importParentId, tagDescriptions.get(operation.tag) || '');
+                                tagFolderIds.set(operation.tag, tagFolderId);
+                                createdFolders.push(`${operation.tag} (${tagFolderId})`);
                             }
-                            finalProjectId = project.project_id;
+                            opParentId = tagFolderIds.get(operation.tag);
                         }
-                        if (!finalTeamId || !finalProjectId) {
-                            throw new Error('请提供团队ID和项目ID，或者提供团队名称和项目名称');
+                        const importTargetId = await createApiFromConfig(operation.method, operation.url, operation.name, operation.config, opParentId);
+                        importResults.push({ success: true, label: opLabel, targetId: importTargetId, warnings: operation.warnings });
+                    }
+                    catch (error) {
+                        importResults.push({ success: false, label: opLabel, error: error instanceof Error ? error.message : String(error), warnings: operation.warnings });
+                    }
+                }
+                const importText = formatImportReport('OpenAPI 导入完成!', [`文件: ${args.file_path}`, `规范版本: ${specVersion}`], importResults, createdFolders);
+                return {
+                    content: [{ type: 'text', text: importText }]
+                };
+            case 'apipost_export_openapi':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
+                }
+                const exportAllItems = await fetchProjectItems();
+                const exportScope = args.parent_id && args.parent_id !== '0'
+                    ? getChildrenRecursively(exportAllItems, args.parent_id)
+                    : exportAllItems;
+                const exportApiIds = exportScope.filter((item) => item.target_type === 'api').map((item) => item.target_id);
+                if (exportApiIds.length === 0) {
+                    throw new Error(args.parent_id ? `目录 ${args.parent_id} 下没有可导出的接口` : '项目中没有可导出的接口');
+                }
+                const exportApis = await fetchApiDetails(exportApiIds);
+                const { document: openApiDocument, skipped: exportSkipped } = buildOpenApiDocument(exportApis, exportAllItems, args.title || currentWorkspace.projectName);
+                const exportPathCount = Object.keys(openApiDocument.paths).length;
+                const exportOperationCount = exportApis.length - exportSkipped.length;
+                let exportText = '';
+                if (args.file_path) {
+                    const isYamlFile = /\.ya?ml$/i.test(args.file_path);
+                    const exportContent = isYamlFile ? YAML.stringify(openApiDocument) : JSON.stringify(openApiDocument, null, 2);
+                    const exportFullPath = writeLocalFile(args.file_path, exportContent);
+                    exportText += `OpenAPI 导出成功!\n文件: ${exportFullPath}\n`;
+                }
+                else {
+                    exportText += `OpenAPI 导出成功!\n`;
+                }
+                exportText += `接口数: ${exportOperationCount}, 路径数: ${exportPathCount}, 标签数: ${openApiDocument.tags?.length || 0}\n`;
+                if (exportSkipped.length > 0) {
+                    exportText += `\n⚠️ 跳过 ${exportSkipped.length} 个接口:\n`;
+                    exportSkipped.forEach((item, index) => {
+                        exportText += `${index + 1}. ${item}\n`;
+                    });
+                }
+                if (!args.file_path) {
+                    exportText += '\n' + (args.format === 'yaml' ? YAML.stringify(openApiDocument) : JSON.stringify(openApiDocument, null, 2));
+                }
+                return {
+                    content: [{ type: 'text', text: exportText }]
+                };
+            case 'apipost_import_postman':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                if (!args.file_path) {
+                    throw new Error('请提供 Postman Collection 文件路径');
+                }
+                const collection = readLocalDataFile(args.file_path);
+                if (!collection || !Array.isArray(collection.item)) {
+                    throw new Error('不是有效的 Postman Collection（缺少 item 数组）');
+                }
+                const collectionSchema = collection.info?.schema || '';
+                if (collectionSchema && !collectionSchema.includes('v2.1')) {
+                    logWithTime(`⚠️ Collection schema 不是 v2.1: ${collectionSchema}，将尝试按 v2.1 导入`, startTime);
+                }
+                let postmanParentId = args.parent_id || '0';
+                const postmanFolders = [];
+                if (args.create_root_folder) {
+                    const collectionName = collection.info?.name || 'Postman Collection';
+                    postmanParentId = await createFolder(collectionName, postmanParentId, postmanText(collection.info?.description));
+                    postmanFolders.push(`${collectionName} (${postmanParentId})`);
+                }
+                const postmanResults = [];
+                await importPostmanItems(collection.item, postmanParentId, postmanResults, postmanFolders);
+                const postmanImportText = formatImportReport('Postman 导入完成!', [`文件: ${args.file_path}`, `集合: ${collection.info?.name || '未命名'}`], postmanResults, postmanFolders);
+                return {
+                    content: [{ type: 'text', text: postmanImportText }]
+                };
+            case 'apipost_export_postman':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
+                }
+                const postmanAllItems = await fetchProjectItems();
+                const postmanRootId = args.parent_id || '0';
+                const postmanScope = getChildrenRecursively(postmanAllItems, postmanRootId);
+                const postmanApiIds = postmanScope.filter((item) => item.target_type === 'api').map((item) => item.target_id);
+                const postmanDetails = await fetchApiDetails(postmanApiIds);
+                const postmanDetailMap = new Map(postmanDetails.map((api) => [api.target_id, api]));
+                const postmanRootFolder = postmanAllItems.find((item) => item.target_id === postmanRootId);
+                const postmanCollection = {
+                    info: {
+                        name: args.name || postmanRootFolder?.name || currentWorkspace.projectName,
+                        schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+                    },
+                    item: buildPostmanItems(postmanRootId, postmanAllItems, postmanDetailMap)
+                };
+                if (postmanRootFolder?.description) {
+                    postmanCollection.info.description = postmanRootFolder.description;
+                }
+                const postmanFolderCount = postmanScope.filter((item) => item.target_type === 'folder').length;
+                let postmanExportText = `Postman 导出成功!\n集合: ${postmanCollection.info.name}\n接口数: ${postmanDetails.length}, 目录数: ${postmanFolderCount}\n`;
+                if (args.file_path) {
+                    const postmanFullPath = writeLocalFile(args.file_path, JSON.stringify(postmanCollection, null, 2));
+                    postmanExportText += `文件: ${postmanFullPath}\n`;
+                }
+                else {
+                    postmanExportText += '\n' + JSON.stringify(postmanCollection, null, 2);
+                }
+                return {
+                    content: [{ type: 'text', text: postmanExportText }]
+                };
+            case 'apipost_import_har':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                if (!args.file_path) {
+                    throw new Error('请提供 HAR 文件路径');
+                }
+                const har = readLocalDataFile(args.file_path);
+                let harEntries = har?.log?.entries;
+                if (!Array.isArray(harEntries)) {
+                    throw new Error('不是有效的 HAR 文件（缺少 log.entries）');
+                }
+                if (args.url_filter) {
+                    harEntries = harEntries.filter((entry) => String(entry.request?.url || '').includes(args.url_filter));
+                }
+                const harGroups = groupHarEntries(harEntries);
+                if (harGroups.length === 0) {
+                    throw new Error('HAR 中没有可导入的请求记录');
+                }
+                const harUpdateExisting = args.update_existing !== false;
+                const harDescriptions = args.descriptions ? parseApiConfig(args.descriptions) : {};
+                const harExistingApis = (await fetchProjectItems()).filter((item) => item.target_type === 'api');
+                // 先整理全部分组，字段描述齐全后再写入
+                const harPlans = [];
+                const harMissing = [];
+                for (const group of harGroups) {
+                    const { args: harArgs, missing: groupMissing, warnings: harWarnings } = harGroupToApiArgs(group, harDescriptions);
+                    const matchedApi = harExistingApis.find((item) => String(item.method || '').toUpperCase() === group.method &&
+                        normalizePathForMatch(item.url) === normalizePathForMatch(group.path));
+                    if (matchedApi && !harUpdateExisting) {
+                        harPlans.push({ group, matchedApi, skip: true, warnings: harWarnings });
+                        continue;
+                    }
+                    let harOriginalApi = null;
+                    if (matchedApi) {
+                        try {
+                            harOriginalApi = await fetchApiDetail(matchedApi.target_id);
                         }
-                        // 验证团队和项目是否存在且可访问
-                        const teamCheckRes = await apiClient.get('/open/team/list');
-                        const targetTeam = teamCheckRes.data.data?.find((t) => t.team_id === finalTeamId);
-                        if (!targetTeam) {
-                            throw new Error(`团队ID "${finalTeamId}" 不存在或无权限访问`);
+                        catch (error) {
+                            harPlans.push({ group, error: error instanceof Error ? error.message : String(error), warnings: harWarnings });
+                            continue;
                         }
-                        const projectCheckRes = await apiClient.get('/open/project/list', {
-                            params: { team_id: finalTeamId, action: 0 }
+                    }
+                    // 更新时已有描述的字段沿用原描述，不要求重新填写
+                    const existingDescKeys = new Set();
+                    if (harOriginalApi) {
+                        const existingSections = {
+                            headers: harOriginalApi.request?.header?.parameter,
+                            query: harOriginalApi.request?.query?.parameter,
+                            body: harArgs.body_mode ? harOriginalApi.request?.body?.parameter : harOriginalApi.request?.body?.raw_parameter,
+                            cookies: harOriginalApi.request?.cookie?.parameter
+                        };
+                        Object.keys(existingSections).forEach(section => {
+                            (existingSections[section] || []).filter(p => p && p.key && p.description).forEach(p => existingDescKeys.add(`${section}.${p.key}`));
                         });
-                        const targetProject = projectCheckRes.data.data?.find((p) => p.project_id === finalProjectId);
-                        if (!targetProject) {
-                            throw new Error(`项目ID "${finalProjectId}" 在指定团队中不存在或无权限访问`);
+                    }
+                    groupMissing.forEach(key => {
+                        // 更新时不改动路径参数与未抓到的响应，无需描述
+                        const unused = harOriginalApi && (key.startsWith('restful.') || (key.startsWith('responses.') && JSON.parse(harArgs.responses).length === 0));
+                        if (!existingDescKeys.has(key) && !unused && !harMissing.includes(key))
+                            harMissing.push(key);
+                    });
+                    harPlans.push({ group, matchedApi, harArgs, harOriginalApi, warnings: harWarnings });
+                }
+                if (harMissing.length > 0) {
+                    const harDescTemplate = {};
+                    harMissing.forEach(key => {
+                        harDescTemplate[key] = '';
+                    });
+                    throw new Error(`以下字段缺少 desc，请通过 descriptions 参数补充后重试:\n${harMissing.map(key => `• ${key}`).join('\n')}\n\n分组数: ${harGroups.length}\ndescriptions 模板:\n${JSON.stringify(harDescTemplate, null, 2)}`);
+                }
+                const harResults = [];
+                for (const { group, matchedApi, skip, error: planError, harArgs, harOriginalApi, warnings: harWarnings } of harPlans) {
+                    const harLabel = `[${group.method}] ${group.path} (${group.entries.length}条记录)`;
+                    if (planError) {
+                        harResults.push({ success: false, label: harLabel, error: planError, warnings: [] });
+                        continue;
+                    }
+                    if (skip) {
+                        harResults.push({ success: true, label: `${harLabel} 已存在，跳过`, targetId: matchedApi.target_id, warnings: harWarnings });
+                        continue;
+                    }
+                    try {
+                        if (harOriginalApi) {
+                            const harUpdateArgs = {
+                                headers: inheritFieldDescriptions(harArgs.headers, harOriginalApi.request?.header?.parameter),
+                                query: inheritFieldDescriptions(harArgs.query, harOriginalApi.request?.query?.parameter),
+                                body: inheritFieldDescriptions(harArgs.body, harArgs.body_mode ? harOriginalApi.request?.body?.parameter : harOriginalApi.request?.body?.raw_parameter),
+                                body_mode: harArgs.body_mode,
+                                cookies: inheritFieldDescriptions(harArgs.cookies, harOriginalApi.request?.cookie?.parameter)
+                            };
+                            // 未抓到 JSON 响应时保留原响应示例
+                            if (JSON.parse(harArgs.responses).length > 0) {
+                                harUpdateArgs.responses = harArgs.responses;
+                            }
+                            const { updateTemplate: harUpdateTemplate } = buildUpdateTemplate(harOriginalApi, harUpdateArgs);
+                            const harUpdateResult = await apiClient.post('/open/apis/update', harUpdateTemplate);
+                            if (harUpdateResult.data.code !== 0) {
+                                throw new Error(`修改失败: ${harUpdateResult.data.msg}`);
+                            }
+                            recordRevision('import_har', harUpdateTemplate, harOriginalApi);
+                            harResults.push({ success: true, label: `${harLabel} 更新 "${harOriginalApi.name}"`, targetId: matchedApi.target_id, warnings: harWarnings });
                         }
-                        // 更新工作空间
-                        const oldWorkspace = currentWorkspace;
-                        currentWorkspace = {
-                            teamId: finalTeamId,
-                            teamName: targetTeam.name,
-                            projectId: finalProjectId,
-                            projectName: targetProject.name
-                        };
-
-                        let switchText = '🔄 工作空间切换成功！\n\n';
-                        if (oldWorkspace) {
-                            switchText += `📤 原工作空间:\n`;
-                            switchText += `   团队: ${oldWorkspace.teamName} (${oldWorkspace.teamId})\n`;
-                            switchText += `   项目: ${oldWorkspace.projectName} (${oldWorkspace.projectId})\n\n`;
+                        else {
+                            const { template: harTemplate } = buildCreateTemplate({ ...harArgs, parent_id: args.parent_id || '0' });
+                            const harCreateResult = await apiClient.post('/open/apis/create', harTemplate);
+                            if (harCreateResult.data.code !== 0) {
+                                throw new Error(`创建失败: ${harCreateResult.data.msg}`);
+                            }
+                            const harCreatedId = recordCreatedRevision('import_har', harTemplate, harCreateResult);
+                            harResults.push({ success: true, label: `${harLabel} 新建`, targetId: harCreatedId, warnings: harWarnings });
                         }
-                        switchText += `📥 新工作空间:\n`;
-                        switchText += `   团队: ${currentWorkspace.teamName} (${currentWorkspace.teamId})\n`;
-                        switchText += `   项目: ${currentWorkspace.projectName} (${currentWorkspace.projectId})\n\n`;
-                        switchText += `✨ 现在可以在新的工作空间中进行 API 操作了！`;
-                        return {
-                            content: [{ type: 'text', text: switchText }]
-                        };
-                    default:
-                        throw new Error(`未知的操作类型: ${action}. 可用操作: current, list_teams, list_projects, switch`);
+                    }
+                    catch (error) {
+                        harResults.push({ success: false, label: harLabel, error: error instanceof Error ? error.message : String(error), warnings: [] });
+                    }
                 }
-            case 'apipost_create_folder':
+                const harText = formatImportReport('HAR 导入完成!', [`文件: ${args.file_path}`, `记录数: ${harEntries.length}, 分组数: ${harGroups.length}`], harResults);
+                return {
+                    content: [{ type: 'text', text: harText }]
+                };
+            case 'apipost_create_from_curl':
                 if (!checkSecurityPermission('write')) {
                     throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
                 }
-                const folderName = args.name;
-                const folderParentId = args.parent_id || '0';
-                const folderDescription = args.description || '';
-                if (!folderName) {
-                    throw new Error('请提供目录名称');
+                if (!args.curl || !args.name) {
+                    throw new Error('请提供 curl 命令和接口名称');
                 }
-                // 生成目录模板
-                const folderTemplate = {
-                    project_id: currentWorkspace.projectId,
-                    target_id: generateId(),
-                    parent_id: folderParentId,
-                    target_type: 'folder',
-                    name: folderName,
-                    sort: 0,
-                    version: 0,
-                    server_id: '0',
-                    status: 1,
-                    is_changed: 1,
-                    is_create: 1,
-                    description: folderDescription,
-                    request: {
-                        header: { parameter: [] },
-                        query: { parameter: [] },
-                        body: { parameter: [] },
-                        cookie: { parameter: [] },
-                        auth: {
-                            type: 'inherit',
-                            kv: { key: '', value: '', in: 'header' },
-                            bearer: { key: '' },
-                            basic: { username: '', password: '' },
-                            digest: {
-                                username: '',
-                                password: '',
-                                realm: '',
-                                nonce: '',
-                                algorithm: 'MD5',
-                                qop: '',
-                                nc: '',
-                                cnonce: '',
-                                opaque: '',
-                                disableRetryRequest: false
-                            },
-                            oauth1: {
-                                consumerKey: '',
-                                consumerSecret: '',
-                                signatureMethod: 'HMAC-SHA1',
-                                addEmptyParamsToSign: true,
-                                includeBodyHash: true,
-                                addParamsToHeader: false,
-                                realm: '',
-                                version: '1.0',
-                                nonce: '',
-                                timestamp: '',
-                                verifier: '',
-                                callback: '',
-                                tokenSecret: '',
-                                token: '',
-                                disableHeaderEncoding: false
-                            },
-                            hawk: {
-                                authId: '',
-                                authKey: '',
-                                algorithm: '',
-                                user: '',
-                                nonce: '',
-                                extraData: '',
-                                app: '',
-                                delegation: '',
-                                timestamp: '',
-                                includePayloadHash: false
-                            },
-                            awsv4: {
-                                accessKey: '',
-                                secretKey: '',
-                                region: '',
-                                service: '',
-                                sessionToken: '',
-                                addAuthDataToQuery: false
-                            },
-                            ntlm: {
-                                username: '',
-                                password: '',
-                                domain: '',
-                                workstation: '',
-                                disableRetryRequest: false
-                            },
-                            edgegrid: {
-                                accessToken: '',
-                                clientToken: '',
-                                clientSecret: '',
-                                nonce: '',
-                                timestamp: '',
-                                baseURi: '',
-                                headersToSign: ''
-                            },
-                            noauth: {},
-                            jwt: {
-                                addTokenTo: 'header',
-                                algorithm: 'HS256',
-                                secret: '',
-                                isSecretBase64Encoded: false,
-                                payload: '',
-                                headerPrefix: 'Bearer',
-                                queryParamKey: 'token',
-                                header: ''
-                            },
-                            asap: {
-                                alg: 'HS256',
-                                iss: '',
-                                aud: '',
-                                kid: '',
-                                privateKey: '',
-                                sub: '',
-                                claims: '',
-                                exp: ''
-                            }
-                        },
-                        pre_tasks: [],
-                        post_tasks: []
-                    },
-                    is_force: -1,
-                    is_deleted: -1,
-                    is_conflicted: -1,
-                    mark_id: '1'
+                const curlDescriptions = args.descriptions ? parseApiConfig(args.descriptions) : {};
+                const { args: curlArgs, missing: curlMissing, warnings: curlWarnings } = curlToApiArgs(parseCurlCommand(args.curl), curlDescriptions);
+                if (curlMissing.length > 0) {
+                    const descTemplate = {};
+                    curlMissing.forEach(key => {
+                        descTemplate[key] = '';
+                    });
+                    throw new Error(`以下字段缺少 desc，请通过 descriptions 参数补充后重试:\n${curlMissing.map(key => `• ${key}`).join('\n')}\n\n解析结果: ${curlArgs.method} ${curlArgs.url}\ndescriptions 模板:\n${JSON.stringify(descTemplate, null, 2)}`);
+                }
+                const { template: curlTemplate, config: curlConfig } = buildCreateTemplate({
+                    ...curlArgs,
+                    name: args.name,
+                    parent_id: args.parent_id,
+                    description: args.description,
+                    responses: args.responses
+                });
+                const curlCreateResult = await apiClient.post('/open/apis/create', curlTemplate);
+                if (curlCreateResult.data.code !== 0) {
+                    throw new Error(`创建失败: ${curlCreateResult.data.msg}`);
+                }
+                recordCreatedRevision('create', curlTemplate, curlCreateResult);
+                let curlText = `API创建成功!\n名称: ${args.name}\n方法: ${curlArgs.method}\nURL: ${curlArgs.url}\nID: ${curlCreateResult.data.data.target_id}\n\n字段统计:\n• Headers: ${curlConfig.headers?.length || 0}个\n• Query参数: ${curlConfig.query?.length || 0}个\n• Body参数: ${curlConfig.body?.length || 0}个\n• Cookies: ${curlConfig.cookies?.length || 0}个\n• 响应示例: ${curlConfig.responses?.length || 0}个`;
+                if (curlWarnings.length > 0) {
+                    curlText += `\n\n⚠️ 提示:\n${curlWarnings.map(w => `• ${w}`).join('\n')}`;
+                }
+                return {
+                    content: [{ type: 'text', text: curlText }]
                 };
-                // 创建目录
-                const createFolderResult = await apiClient.post('/open/apis/create', folderTemplate);
-                if (createFolderResult.data.code !== 0) {
-                    throw new Error(`创建目录失败: ${createFolderResult.data.msg}`);
+            case 'apipost_snippet':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
+                }
+                if (!args.target_id) {
+                    throw new Error('请提供要生成代码的API接口ID');
+                }
+                const snippetLanguage = args.language || 'curl';
+                const snippetLanguages = snippetLanguage === 'all' ? Object.keys(SNIPPET_RENDERERS) : [snippetLanguage];
+                if (!snippetLanguages.every(lang => SNIPPET_RENDERERS[lang])) {
+                    throw new Error(`不支持的代码类型: ${snippetLanguage}。可用类型: ${Object.keys(SNIPPET_RENDERERS).join(', ')}, all`);
+                }
+                const snippetApi = await fetchApiDetail(args.target_id);
+                const snippetRequest = buildSnippetRequest(snippetApi, args.variables ? parseApiConfig(args.variables) : {});
+                let snippetText = `🧩 ${snippetApi.name} [${snippetRequest.method}] ${snippetApi.url}\n`;
+                snippetLanguages.forEach(lang => {
+                    snippetText += `\n${lang}:\n\`\`\`${SNIPPET_CODE_FENCES[lang]}\n${SNIPPET_RENDERERS[lang](snippetRequest)}\n\`\`\`\n`;
+                });
+                if (snippetRequest.unresolved.length > 0) {
+                    snippetText += `\n💡 未替换的变量: ${snippetRequest.unresolved.join(', ')}，可通过 variables 参数提供取值`;
+                }
+                else if (!/^https?:\/\//i.test(snippetRequest.url)) {
+                    snippetText += `\n💡 URL 不包含协议和域名，运行前请补充完整地址`;
                 }
-
                 return {
-                    content: [{
-                            type: 'text',
-                            text: `目录创建成功!\n名称: ${folderName}\n目录ID: ${folderTemplate.target_id}\n父目录ID: ${folderParentId}${folderDescription ? '\n描述: ' + folderDescription : ''}`
-                        }]
+                    content: [{ type: 'text', text: snippetText }]
                 };
-            case 'apipost_smart_create':
-                if (!checkSecurityPermission('write')) {
+            case 'apipost_scan_routes':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
+                }
+                if (args.create_missing && !checkSecurityPermission('write')) {
                     throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
                 }
-                // 构建配置对象
-                const { config } = buildApiConfig(args);
-                const template = generateApiTemplate(args.method, args.url, args.name, config);
-                template.project_id = currentWorkspace.projectId;
-                // 设置父目录ID
-                template.parent_id = args.parent_id || '0';
-                const headerCount = config.headers?.length || 0;
-                const queryCount = config.query?.length || 0;
-                const bodyCount = config.body?.length || 0;
-                const responseCount = config.responses?.length || 0;
-                const createResult = await apiClient.post('/open/apis/create', template);
-                if (createResult.data.code !== 0) {
-                    throw new Error(`创建失败: ${createResult.data.msg}`);
+                if (!args.dir) {
+                    throw new Error('请提供要扫描的源码目录');
+                }
+                const scanDir = path.resolve(process.cwd(), args.dir);
+                if (!fs.existsSync(scanDir) || !fs.statSync(scanDir).isDirectory()) {
+                    throw new Error(`目录不存在: ${scanDir}`);
+                }
+                const scanFiles = collectSourceFiles(scanDir);
+                const scannedRoutes = [];
+                const scanRouteKeys = new Set();
+                scanFiles.forEach(file => {
+                    const stat = fs.statSync(file);
+                    if (stat.size > 1024 * 1024)
+                        return;
+                    scanRoutesInSource(fs.readFileSync(file, 'utf8'), path.relative(scanDir, file)).forEach(route => {
+                        route.path = args.url_prefix ? joinRoutePath(args.url_prefix, route.path) : route.path;
+                        const routeKey = `${route.method} ${normalizePathForMatch(route.path)}`;
+                        if (scanRouteKeys.has(routeKey))
+                            return;
+                        scanRouteKeys.add(routeKey);
+                        scannedRoutes.push(route);
+                    });
+                });
+                const documentedApis = (await fetchProjectItems()).filter((item) => item.target_type === 'api');
+                const documentedKeys = new Set(documentedApis.map((item) => `${String(item.method || '').toUpperCase()} ${normalizePathForMatch(item.url)}`));
+                const documentedPaths = new Set(documentedApis.map((item) => normalizePathForMatch(item.url)));
+                // app.all / @All 匹配任意方法：该路径下已有任一方法的接口即视为已文档化
+                const missingRoutes = scannedRoutes.filter(route => route.method === 'ALL'
+                    ? !documentedPaths.has(normalizePathForMatch(route.path))
+                    : !documentedKeys.has(`${route.method} ${normalizePathForMatch(route.path)}`));
+                let scanText = `🔎 路由扫描完成\n目录: ${scanDir}\n扫描文件: ${scanFiles.length}个\n发现路由: ${scannedRoutes.length}个, 已文档化: ${scannedRoutes.length - missingRoutes.length}个, 未文档化: ${missingRoutes.length}个\n`;
+                if (missingRoutes.length > 0) {
+                    scanText += `\n📭 未文档化的路由:\n`;
+                    missingRoutes.forEach((route, index) => {
+                        scanText += `${index + 1}. [${route.method}] ${route.path}\n   📍 ${route.file}:${route.line} (${route.framework}${route.handler ? ` ${route.handler}` : ''})\n`;
+                    });
+                }
+                if (args.create_missing && missingRoutes.length > 0) {
+                    // 路径参数描述不自动生成（不用参数名充当描述），缺少时先返回模板，不创建任何接口
+                    const stubDescriptions = args.descriptions ? parseApiConfig(args.descriptions) : {};
+                    const stubRoutes = missingRoutes.filter(route => route.method !== 'ALL');
+                    const stubMissing = [...new Set(stubRoutes.flatMap(route => extractPathVariables(route.path)))]
+                        .filter(variable => !stubDescriptions[`restful.${variable}`] && !stubDescriptions[variable])
+                        .map(variable => `restful.${variable}`);
+                    if (stubMissing.length > 0) {
+                        const descTemplate = {};
+                        stubMissing.forEach(key => {
+                            descTemplate[key] = '';
+                        });
+                        throw new Error(`以下路径参数缺少 desc，请通过 descriptions 参数补充后重试:\n${stubMissing.map(key => `• ${key}`).join('\n')}\n\ndescriptions 模板:\n${JSON.stringify(descTemplate, null, 2)}`);
+                    }
+                    const stubResults = [];
+                    const stubSkipped = missingRoutes
+                        .filter(route => route.method === 'ALL')
+                        .map(route => `⏭️ 跳过 [ALL] ${route.path}：匹配任意方法，请确认实际方法后手动创建`);
+                    for (const route of stubRoutes) {
+                        const stubLabel = `[${route.method}] ${route.path}`;
+                        try {
+                            const stubId = await createApiFromConfig(route.method, route.path, route.handler || `${route.method} ${route.path}`, {
+                                description: `待完善：由源码扫描生成（${route.file}:${route.line}）`,
+                                restful: extractPathVariables(route.path).map(variable => ({ key: variable, type: 'string', required: true, example: '', desc: stubDescriptions[`restful.${variable}`] || stubDescriptions[variable] }))
+                            }, args.parent_id || '0');
+                            stubResults.push({ success: true, label: stubLabel, targetId: stubId, warnings: [] });
+                        }
+                        catch (error) {
+                            stubResults.push({ success: false, label: stubLabel, error: error instanceof Error ? error.message : String(error), warnings: [] });
+                        }
+                    }
+                    scanText += '\n' + formatImportReport('🧱 占位接口创建完成!', stubSkipped, stubResults);
+                }
+                else if (missingRoutes.length > 0) {
+                    scanText += `\n💡 使用 create_missing=true 可为以上路由创建占位接口`;
                 }
-
                 return {
-                    content: [{
-                            type: 'text',
-                            text: `API创建成功!\n名称: ${args.name}\n方法: ${args.method}\nURL: ${args.url}\nID: ${createResult.data.data.target_id}\n\n字段统计:\n• Headers: ${headerCount}个\n• Query参数: ${queryCount}个\n• Body参数: ${bodyCount}个\n• 响应示例: ${responseCount}个`
-                        }]
+                    content: [{ type: 'text', text: scanText }]
                 };
-            case 'apipost_list':
+            case 'apipost_fields_from_type':
                 if (!checkSecurityPermission('read')) {
                     throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
                 }
-                const searchKeyword = args.search;
-                const parentId = args.parent_id;
-                const targetType = args.target_type || 'all';
-                const showStructure = args.show_structure;
-                const showPath = args.show_path;
-                const recursive = args.recursive;
-                const depth = args.depth;
-                const groupByFolderFlag = args.group_by_folder;
-                const limit = Math.min(args.limit || 50, 200);
-                const showAll = args.show_all;
-                const listResult = await apiClient.get('/open/apis/list', {
-                    params: { project_id: currentWorkspace.projectId }
-                });
-                if (listResult.data.code !== 0) {
-                    throw new Error(`获取列表失败: ${listResult.data.msg}`);
+                if (!args.file_path || !args.type_name) {
+                    throw new Error('请提供 file_path 和 type_name');
                 }
-                let items = listResult.data.data.list;
-                const totalCount = items.length;
-                const allItems = [...items]; // 保存完整列表用于路径构建和分组
-                // 递归搜索或按目录过滤
-                if (recursive && parentId !== undefined) {
-                    // 递归搜索指定目录及其子目录
-                    items = getChildrenRecursively(items, parentId, depth);
+                const typeFilePath = path.resolve(process.cwd(), args.file_path);
+                if (!fs.existsSync(typeFilePath)) {
+                    throw new Error(`文件不存在: ${typeFilePath}`);
                 }
-                else if (parentId !== undefined) {
-                    // 仅搜索当前层级
-                    items = items.filter((item) => item.parent_id === parentId);
+                const typeResult = typeDeclarationToFields(fs.readFileSync(typeFilePath, 'utf8'), args.type_name, args.descriptions ? parseApiConfig(args.descriptions) : {});
+                if (typeResult.undocumented.length > 0) {
+                    const typeDescTemplate = {};
+                    typeResult.undocumented.forEach(key => {
+                        typeDescTemplate[key] = '';
+                    });
+                    throw new Error(`以下字段没有 JSDoc 注释，请通过 descriptions 参数补充后重试:\n${typeResult.undocumented.map(key => `• ${key}`).join('\n')}\n\n解析结果: ${args.type_name} (${typeResult.kind})，字段数 ${typeResult.fields.length}\ndescriptions 模板:\n${JSON.stringify(typeDescTemplate, null, 2)}`);
                 }
-                // 按类型过滤
-                if (targetType !== 'all') {
-                    items = items.filter((item) => item.target_type === targetType);
+                let typeText = `🧩 字段列表生成成功\n类型: ${args.type_name} (${typeResult.kind})\n文件: ${typeFilePath}\n字段数: ${typeResult.fields.length}\n\n`;
+                typeText += '```json\n' + JSON.stringify(typeResult.fields, null, 2) + '\n```\n';
+                if (typeResult.warnings.length > 0) {
+                    typeText += `\n⚠️ 提示:\n${typeResult.warnings.map(w => `• ${w}`).join('\n')}\n`;
                 }
-                // 搜索过滤
-                if (searchKeyword) {
-                    const keyword = searchKeyword.toLowerCase();
-                    items = items.filter((item) => item.name?.toLowerCase().includes(keyword) ||
-                        item.url?.toLowerCase().includes(keyword) ||
-                        item.method?.toLowerCase().includes(keyword) ||
-                        item.target_id?.toLowerCase().includes(keyword) ||
-                        item.description?.toLowerCase().includes(keyword));
+                typeText += `\n💡 可直接作为 apipost_smart_create / apipost_update 的 body 或 responses[].fields 参数`;
+                return {
+                    content: [{ type: 'text', text: typeText }]
+                };
+            case 'apipost_update_folder':
+                const folderUpdateOnlyView = ['name', 'description', 'headers', 'query', 'auth'].every(key => args[key] === undefined);
+                if (!checkSecurityPermission(folderUpdateOnlyView ? 'read' : 'write')) {
+                    throw new Error(folderUpdateOnlyView
+                        ? `🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`
+                        : `🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
                 }
-                // 分页处理
-                const filteredCount = items.length;
-                let displayItems = items;
-                let isLimited = false;
-                if (!showAll && filteredCount > limit) {
-                    displayItems = items.slice(0, limit);
-                    isLimited = true;
+                if (!args.folder_id) {
+                    throw new Error('请提供要修改的目录ID');
+                }
+                const originalFolder = await fetchApiDetail(args.folder_id);
+                if (originalFolder.target_type !== 'folder') {
+                    throw new Error(`ID ${args.folder_id} 不是目录，修改接口请使用 apipost_update`);
+                }
+                let folderText = '';
+                let currentFolder = originalFolder;
+                if (!folderUpdateOnlyView) {
+                    const { updateTemplate: folderUpdateTemplate, providedFields: folderProvidedFields } = buildFolderUpdateTemplate(originalFolder, args);
+                    const folderUpdateResult = await apiClient.post('/open/apis/update', folderUpdateTemplate);
+                    if (folderUpdateResult.data.code !== 0) {
+                        throw new Error(`修改目录失败: ${folderUpdateResult.data.msg}`);
+                    }
+                    currentFolder = folderUpdateTemplate;
+                    const folderFieldLabels = { name: '名称', description: '描述', headers: '公共Headers', query: '公共Query参数', auth: '认证' };
+                    folderText += `目录修改成功!\n目录ID: ${args.folder_id}\n名称: ${folderUpdateTemplate.name}\n版本: v${folderUpdateTemplate.version}\n修改字段: ${Object.keys(folderFieldLabels).filter(key => folderProvidedFields.has(key)).map(key => folderFieldLabels[key]).join(', ')}\n`;
+                }
+                const folderAuthType = currentFolder.request?.auth?.type || 'inherit';
+                const folderHeaderKeys = (currentFolder.request?.header?.parameter || []).map(p => p.key).filter(Boolean);
+                const folderQueryKeys = (currentFolder.request?.query?.parameter || []).map(p => p.key).filter(Boolean);
+                folderText += `${folderText ? '\n' : ''}📁 目录: ${currentFolder.name} (${args.folder_id})\n`;
+                if (currentFolder.description)
+                    folderText += `   描述: ${currentFolder.description}\n`;
+                folderText += `   认证: ${folderAuthType === 'inherit' ? 'inherit（继承上级）' : folderAuthType}\n`;
+                folderText += `   公共Headers: ${folderHeaderKeys.join(', ') || '无'}\n`;
+                folderText += `   公共Query参数: ${folderQueryKeys.join(', ') || '无'}\n`;
+                if (args.show_inheritance ?? folderUpdateOnlyView) {
+                    const inheritItems = await fetchProjectItems();
+                    const inheritDescendants = getChildrenRecursively(inheritItems, args.folder_id);
+                    const inheritDetails = inheritDescendants.length > 0 ? await fetchApiDetails(inheritDescendants.map(item => item.target_id)) : [];
+                    const inheritDetailMap = new Map(inheritDetails.map(detail => [detail.target_id, detail]));
+                    const inheritance = analyzeFolderInheritance(currentFolder, inheritItems, inheritDetailMap);
+                    const formatInheritApi = (api) => `[${api.method}] ${api.url || ''} ${api.name}`.replace(/\s+/g, ' ').trim();
+                    folderText += `\n🔗 继承情况 (共 ${inheritance.length} 个接口)\n`;
+                    if (inheritance.length === 0) {
+                        folderText += `   (目录下暂无接口)\n`;
+                    }
+                    else {
+                        const inheritingAuth = inheritance.filter(entry => !entry.authOwner);
+                        const ownAuth = inheritance.filter(entry => entry.authOwner);
+                        folderText += folderAuthType === 'inherit'
+                            ? `🔐 继承认证 (${inheritingAuth.length}个，目录本身也继承上级认证):\n`
+                            : `🔐 继承目录认证 ${folderAuthType} (${inheritingAuth.length}个):\n`;
+                        inheritingAuth.forEach(entry => {
+                            folderText += `   • ${formatInheritApi(entry.api)}\n`;
+                        });
+                        if (ownAuth.length > 0) {
+                            folderText += `⛔ 使用自有认证 (${ownAuth.length}个):\n`;
+                            ownAuth.forEach(entry => {
+                                const owner = entry.authOwner.target_id === entry.api.target_id ? '接口自身' : `子目录 ${entry.authOwner.name}`;
+                                folderText += `   • ${formatInheritApi(entry.api)} ← ${owner} (${entry.authType})\n`;
+                            });
+                        }
+                        const overriding = inheritance.filter(entry => entry.overrides.length > 0);
+                        if (folderHeaderKeys.length > 0 || folderQueryKeys.length > 0) {
+                            folderText += overriding.length > 0 ? `⚠️ 覆盖目录公共参数 (${overriding.length}个):\n` : `📨 所有接口均继承目录公共参数\n`;
+                            overriding.forEach(entry => {
+                                folderText += `   • ${formatInheritApi(entry.api)}: ${entry.overrides.join(', ')}\n`;
+                            });
+                        }
+                    }
+                }
+                return {
+                    content: [{ type: 'text', text: folderText.trimEnd() }]
+                };
+            case 'apipost_move':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
+                }
+                if (!Array.isArray(args.target_ids) || args.target_ids.length === 0) {
+                    throw new Error('请提供要移动的接口或目录ID数组');
+                }
+                const moveIds = [...new Set(args.target_ids)];
+                if (args.parent_id === undefined || args.parent_id === '') {
+                    throw new Error('请提供目标目录ID，根目录使用"0"');
+                }
+                const moveDestinationId = String(args.parent_id);
+                const moveItems = await fetchProjectItems();
+                const { itemMap: moveItemMap, pathMap: movePathMap, sortUpdates: moveSortUpdates } = planMove(moveItems, moveIds, moveDestinationId, args.position);
+                const moveDetails = await fetchApiDetails([...moveSortUpdates.keys()]);
+                const moveResults = [];
+                for (const detail of moveDetails) {
+                    const isMoved = moveIds.includes(detail.target_id);
+                    const label = `${detail.target_type === 'folder' ? '📁' : `[${detail.method}]`} ${detail.name}`;
+                    try {
+                        const moveTemplate = detail.target_type === 'folder'
+                            ? buildFolderUpdateTemplate(detail, {}).updateTemplate
+                            : buildUpdateTemplate(detail, {}).updateTemplate;
+                        if (isMoved)
+                            moveTemplate.parent_id = moveDestinationId;
+                        moveTemplate.sort = moveSortUpdates.get(detail.target_id);
+                        const moveResult = await apiClient.post('/open/apis/update', moveTemplate);
+                        if (moveResult.data.code !== 0) {
+                            throw new Error(moveResult.data.msg);
+                        }
+                        recordRevision('move', moveTemplate, detail);
+                        if (isMoved)
+                            moveResults.push({ success: true, label, path: `/${movePathMap.get(detail.target_id).join('/')}` });
+                    }
+                    catch (error) {
+                        moveResults.push({ success: false, label, error: `${isMoved ? '' : '调整顺序失败: '}${error.message}` });
+                    }
+                }
+                const moveDestinationName = moveDestinationId === '0' ? '根目录' : `/${movePathMap.get(moveDestinationId).join('/')}`;
+                const reorderedCount = [...moveSortUpdates.keys()].filter(id => !moveIds.includes(id)).length;
+                const movedOk = moveResults.filter(r => r.success);
+                const moveFailed = moveResults.filter(r => !r.success);
+                let moveText = `移动完成!\n目标目录: ${moveDestinationName} (${moveDestinationId})\n`;
+                if (args.position !== undefined)
+                    moveText += `插入位置: ${args.position}\n`;
+                moveText += `移动项目: ${moveIds.length}个, 成功: ${movedOk.length}, 失败: ${moveFailed.length}\n`;
+                if (reorderedCount > 0)
+                    moveText += `同步调整顺序的兄弟项: ${reorderedCount}个\n`;
+                if (movedOk.length > 0) {
+                    moveText += `\n✅ 成功:\n`;
+                    movedOk.forEach((r, index) => {
+                        moveText += `${index + 1}. ${r.label} → ${r.path}\n`;
+                    });
+                }
+                if (moveFailed.length > 0) {
+                    moveText += `\n❌ 失败:\n`;
+                    moveFailed.forEach((r, index) => {
+                        moveText += `${index + 1}. ${r.label}\n   原因: ${r.error}\n`;
+                    });
+                }
+                return {
+                    content: [{ type: 'text', text: moveText }]
+                };
+            case 'apipost_clone':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                if (!args.target_id) {
+                    throw new Error('请提供要复制的接口或目录ID');
+                }
+                if ((args.url_prefix_from === undefined) !== (args.url_prefix_to === undefined)) {
+                    throw new Error('url_prefix_from 与 url_prefix_to 需要同时提供');
+                }
+                const cloneItems = await fetchProjectItems();
+                const cloneSource = cloneItems.find(item => item.target_id === args.target_id);
+                if (!cloneSource) {
+                    throw new Error(`未找到要复制的项目 (ID: ${args.target_id})`);
+                }
+                const cloneParentId = args.parent_id !== undefined ? String(args.parent_id) : (cloneSource.parent_id || '0');
+                if (cloneParentId !== '0' && cloneItems.find(item => item.target_id === cloneParentId)?.target_type !== 'folder') {
+                    throw new Error(`目标目录不存在或不是目录 (ID: ${cloneParentId})`);
+                }
+                // 先列出整棵子树（父级在前），再按原父子关系逐个创建
+                const cloneSubtree = [cloneSource, ...(cloneSource.target_type === 'folder' ? getChildrenRecursively(cloneItems, cloneSource.target_id) : [])];
+                const cloneDetailMap = new Map((await fetchApiDetails(cloneSubtree.map(item => item.target_id))).map(detail => [detail.target_id, detail]));
+                const cloneOptions = { urlFrom: args.url_prefix_from, urlTo: args.url_prefix_to, nameFrom: args.name_from, nameTo: args.name_to };
+                const cloneIdMap = new Map();
+                const cloneResults = [];
+                for (const item of cloneSubtree) {
+                    const label = item.target_type === 'folder' ? `📁 ${item.name}` : `[${item.method}] ${item.name}`;
+                    const detail = cloneDetailMap.get(item.target_id);
+                    const newParentId = item === cloneSource ? cloneParentId : cloneIdMap.get(item.parent_id);
+                    if (!newParentId) {
+                        cloneResults.push({ success: false, label, oldId: item.target_id, error: '父目录复制失败，已跳过' });
+                        continue;
+                    }
+                    if (!detail) {
+                        cloneResults.push({ success: false, label, oldId: item.target_id, error: '获取详情失败' });
+                        continue;
+                    }
+                    try {
+                        const cloneTemplate = buildCloneTemplate(detail, generateId(), newParentId, cloneOptions);
+                        const cloneResult = await apiClient.post('/open/apis/create', cloneTemplate);
+                        if (cloneResult.data.code !== 0) {
+                            throw new Error(cloneResult.data.msg);
+                        }
+                        const newId = recordCreatedRevision('clone', cloneTemplate, cloneResult);
+                        cloneIdMap.set(item.target_id, newId);
+                        cloneResults.push({
+                            success: true,
+                            label: item.target_type === 'folder' ? `📁 ${cloneTemplate.name}` : `[${cloneTemplate.method}] ${cloneTemplate.url} ${cloneTemplate.name}`,
+                            oldId: item.target_id,
+                            newId
+                        });
+                    }
+                    catch (error) {
+                        cloneResults.push({ success: false, label, oldId: item.target_id, error: error.message });
+                    }
+                }
+                const clonedOk = cloneResults.filter(r => r.success);
+                const cloneFailed = cloneResults.filter(r => !r.success);
+                let cloneText = `复制完成!\n源: ${cloneSource.name} (${cloneSource.target_id})\n目标目录ID: ${cloneParentId}\n`;
+                if (args.url_prefix_from !== undefined)
+                    cloneText += `URL 前缀: ${args.url_prefix_from} → ${args.url_prefix_to}\n`;
+                if (args.name_from)
+                    cloneText += `名称替换: ${args.name_from} → ${args.name_to || ''}\n`;
+                cloneText += `项目总数: ${cloneResults.length}, 成功: ${clonedOk.length}, 失败: ${cloneFailed.length}\n`;
+                if (clonedOk.length > 0) {
+                    cloneText += `\n🆔 ID 映射 (旧 → 新):\n`;
+                    clonedOk.forEach((r, index) => {
+                        cloneText += `${index + 1}. ${r.oldId} → ${r.newId}  ${r.label}\n`;
+                    });
+                }
+                if (cloneFailed.length > 0) {
+                    cloneText += `\n❌ 失败:\n`;
+                    cloneFailed.forEach((r, index) => {
+                        cloneText += `${index + 1}. ${r.label} (${r.oldId})\n   原因: ${r.error}\n`;
+                    });
                 }
-                // 构建显示文本
-                const listResult_display = buildListDisplay(displayItems, totalCount, filteredCount, showStructure, searchKeyword, parentId, targetType, isLimited, limit, showPath, recursive, depth, groupByFolderFlag, allItems);
-                // 构建日志信息
-                const filterInfo = [];
-                if (parentId !== undefined)
-                    filterInfo.push(`父目录: ${parentId}`);
-                if (targetType !== 'all')
-                    filterInfo.push(`类型: ${targetType}`);
-                if (searchKeyword)
-                    filterInfo.push(`搜索: "${searchKeyword}"`);
-                if (recursive)
-                    filterInfo.push('递归搜索');
-                if (depth !== undefined)
-                    filterInfo.push(`深度限制: ${depth}`);
-                const logInfo = filterInfo.length > 0 ? `\n筛选条件: ${filterInfo.join(', ')}` : '';
-                const limitInfo = isLimited ? `\n显示限制: 前${limit}条` : '';
-
                 return {
-                    content: [{ type: 'text', text: listResult_display }]
+                    content: [{ type: 'text', text: cloneText }]
                 };
-            case 'apipost_update':
-                if (!checkSecurityPermission('write')) {
-                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
+            case 'apipost_trash_list':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
                 }
-                const targetId = args.target_id;
-                const newName = args.name;
-                const newMethod = args.method;
-                const newUrl = args.url ? applyUrlPrefix(args.url) : undefined;
-                if (!targetId) {
-                    throw new Error('请提供要修改的API接口ID');
+                const trashEntries = listStorageJson('trash').sort((a, b) => String(b.deleted_at).localeCompare(String(a.deleted_at)));
+                const trashShown = trashEntries.slice(0, args.limit || 20);
+                let trashText = `🗑️ 本地回收站 (${trashEntries.length}条记录)\n存储目录: ${getStorageDir('trash')}\n`;
+                if (trashEntries.length === 0) {
+                    trashText += `\n(回收站为空)`;
                 }
-                // 获取原接口信息
-                const getResult = await apiClient.post('/open/apis/details', {
-                    project_id: currentWorkspace.projectId,
-                    target_ids: [targetId]
+                trashShown.forEach((entry, index) => {
+                    trashText += `\n${index + 1}. 回收站ID: ${entry.trash_id}\n   删除时间: ${entry.deleted_at}\n   项目数: ${entry.items.length}\n`;
+                    entry.items.slice(0, 10).forEach(item => {
+                        trashText += `   ${item.target_type === 'folder' ? '📁' : `[${item.method}]`} ${entry.paths?.[item.target_id] || item.name}  (${item.target_id})\n`;
+                    });
+                    if (entry.items.length > 10)
+                        trashText += `   ... 还有 ${entry.items.length - 10} 项\n`;
                 });
-                if (getResult.data.code !== 0) {
-                    throw new Error(`获取接口详情失败: ${getResult.data.msg}`);
-                }
-                const originalApi = getResult.data.data.list[0]; // 获取数组中的第一个接口
-                if (!originalApi) {
-                    throw new Error(`未找到接口详情 (ID: ${targetId})。可能原因：1) 接口不存在 2) 无权限访问 3) 接口已被删除。请检查接口ID是否正确。`);
-                }
-                // 构建增量更新配置对象
-                const { config: newConfig, providedFields } = buildApiConfig(args);
-                const mergedDescription = providedFields.has('description')
-                    ? newConfig.description
-                    : (originalApi.description || '');
-                const mergedRequest = {
-                    auth: providedFields.has('auth') ? (newConfig.auth || { type: 'inherit' }) : (originalApi.request?.auth || { type: 'inherit' }),
-                    pre_tasks: originalApi.request?.pre_tasks || [],
-                    post_tasks: originalApi.request?.post_tasks || [],
-                    header: {
-                        parameter: providedFields.has('headers')
-                            ? convertParams(newConfig.headers || [])
-                            : (originalApi.request?.header?.parameter || [])
-                    },
-                    query: {
-                        query_add_equal: originalApi.request?.query?.query_add_equal ?? 1,
-                        parameter: providedFields.has('query')
-                            ? convertParams(newConfig.query || [])
-                            : (originalApi.request?.query?.parameter || [])
-                    },
-                    body: providedFields.has('body')
-                        ? buildBodySection(newConfig.body || [])
-                        : (originalApi.request?.body || buildBodySection([])),
-                    cookie: {
-                        cookie_encode: originalApi.request?.cookie?.cookie_encode ?? 1,
-                        parameter: providedFields.has('cookies')
-                            ? convertParams(newConfig.cookies || [])
-                            : (originalApi.request?.cookie?.parameter || [])
-                    },
-                    restful: originalApi.request?.restful || { parameter: [] }
+                if (trashEntries.length > trashShown.length)
+                    trashText += `\n💡 仅显示最近 ${trashShown.length} 条，可调整 limit 查看更多`;
+                return {
+                    content: [{ type: 'text', text: trashText }]
                 };
-                const responseSection = providedFields.has('responses')
-                    ? normalizeResponses(newConfig.responses, {
-                        fallbackExamples: [],
-                        useDefaultWhenMissing: false,
-                        keepEmpty: true,
-                        isCheckResult: originalApi.response?.is_check_result ?? 1
-                    })
-                    : {
-                        example: originalApi.response?.example || [],
-                        is_check_result: originalApi.response?.is_check_result ?? 1
-                    };
-                const updateTemplate = {
-                    project_id: currentWorkspace.projectId,
-                    target_id: targetId,
-                    parent_id: originalApi.parent_id || '0',
-                    target_type: originalApi.target_type || 'api',
-                    name: newName || originalApi.name,
-                    method: newMethod || originalApi.method,
-                    url: newUrl || originalApi.url,
-                    protocol: originalApi.protocol || 'http/1.1',
-                    description: mergedDescription,
-                    version: (originalApi.version || 0) + 1,
-                    mark_id: originalApi.mark_id || '1',
-                    is_force: originalApi.is_force ?? -1,
-                    sort: originalApi.sort ?? 0,
-                    status: originalApi.status ?? 1,
-                    is_deleted: originalApi.is_deleted ?? -1,
-                    is_conflicted: originalApi.is_conflicted ?? -1,
-                    request: mergedRequest,
-                    response: responseSection,
-                    attribute_info: originalApi.attribute_info || {},
-                    tags: originalApi.tags || []
+            case 'apipost_restore':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
+                }
+                if (!args.trash_id || !/^[0-9a-f]+$/i.test(args.trash_id)) {
+                    throw new Error('请提供有效的回收站记录ID');
+                }
+                const restoreFile = path.join('trash', `${args.trash_id}.json`);
+                const restoreEntry = readStorageJson(restoreFile);
+                if (!restoreEntry) {
+                    throw new Error(`未找到回收站记录: ${args.trash_id}`);
+                }
+                const restoreIds = args.target_ids && args.target_ids.length > 0 ? args.target_ids : restoreEntry.items.map(item => item.target_id);
+                const restoreUnknown = restoreIds.filter(id => !restoreEntry.items.some(item => item.target_id === id));
+                if (restoreUnknown.length > 0) {
+                    throw new Error(`回收站记录 ${args.trash_id} 中不包含: ${restoreUnknown.join(', ')}`);
+                }
+                const { results: restoreResults, recreatedFolders: restoreFolders } = await restoreFromTrash(restoreEntry, restoreIds);
+                // 已恢复的项目移出回收站记录，全部恢复后删除记录
+                const restoredIds = new Set(restoreIds.filter((id, index) => restoreResults[index].success));
+                restoreEntry.items = restoreEntry.items.filter(item => !restoredIds.has(item.target_id));
+                if (restoreEntry.items.length === 0)
+                    fs.unlinkSync(getStorageDir(restoreFile));
+                else
+                    writeStorageJson(restoreFile, restoreEntry);
+                return {
+                    content: [{
+                            type: 'text',
+                            text: formatImportReport('回收站恢复完成!', [
+                                `回收站ID: ${args.trash_id}`,
+                                `删除时间: ${restoreEntry.deleted_at}`,
+                                `剩余未恢复: ${restoreEntry.items.length}项`
+                            ], restoreResults, restoreFolders)
+                        }]
                 };
-                // 执行修改
-                const updateResult = await apiClient.post('/open/apis/update', updateTemplate);
-                if (updateResult.data.code !== 0) {
-                    throw new Error(`修改失败: ${updateResult.data.msg}`);
+            case 'apipost_history':
+                if (!checkSecurityPermission('read')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
                 }
-                // 统计修改的字段
-                const changedFields = [];
-                if (newName && newName !== originalApi.name)
-                    changedFields.push('名称');
-                if (newMethod && newMethod !== originalApi.method)
-                    changedFields.push('方法');
-                if (newUrl && newUrl !== originalApi.url)
-                    changedFields.push('URL');
-                // 检查是否有配置相关的更新
-                if (providedFields.size > 0)
-                    changedFields.push('配置');
-                const changedFieldsText = changedFields.length > 0 ? `\n修改字段: ${changedFields.join(', ')}` : '\n仅更新版本';
-
-                let updateText = `接口修改成功!\n接口ID: ${targetId}\n`;
-                if (newName)
-                    updateText += `新名称: ${newName}\n`;
-                if (newMethod)
-                    updateText += `新方法: ${newMethod}\n`;
-                if (newUrl)
-                    updateText += `新URL: ${newUrl}\n`;
-                updateText += `版本: v${updateTemplate.version}\n修改字段: ${changedFields.join(', ') || '仅更新版本'}`;
+                const historyData = loadRevisionHistory(args.target_id);
+                const historyShown = historyData.revisions.slice(-(args.limit || 20)).reverse();
+                let historyText = `🕘 修订历史: ${args.target_id} (共 ${historyData.revisions.length} 条)\n`;
+                historyShown.forEach(item => {
+                    const previous = historyData.revisions[item.revision - 2];
+                    const changeCount = previous ? diffApiSnapshots(previous.snapshot, item.snapshot).length : 0;
+                    historyText += `\n#${item.revision} ${REVISION_ACTION_LABELS[item.action] || item.action}${item.stage === 'before' ? '前' : '后'}  v${item.version ?? '-'}  ${item.recorded_at}\n`;
+                    historyText += `   [${item.snapshot.method}] ${item.snapshot.url} ${item.snapshot.name}\n`;
+                    if (previous)
+                        historyText += `   相对 #${previous.revision}: ${changeCount > 0 ? `${changeCount} 处变更` : '无变更'}\n`;
+                });
+                historyText += `\n💡 使用 apipost_diff 查看具体差异，apipost_revert 回滚到指定修订`;
                 return {
-                    content: [{ type: 'text', text: updateText }]
+                    content: [{ type: 'text', text: historyText }]
                 };
-            case 'apipost_detail':
+            case 'apipost_diff':
                 if (!checkSecurityPermission('read')) {
                     throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许读取操作。`);
                 }
-                const detailTargetId = args.target_id;
-                if (!detailTargetId) {
-                    throw new Error('请提供要查看的API接口ID');
+                const diffHistory = loadRevisionHistory(args.target_id);
+                const diffFrom = findRevision(diffHistory, args.from_revision);
+                const diffTo = args.to_revision !== undefined ? findRevision(diffHistory, args.to_revision).snapshot : await fetchApiDetail(args.target_id);
+                const diffToLabel = args.to_revision !== undefined ? `#${args.to_revision}` : `线上当前 v${diffTo.version ?? '-'}`;
+                const diffLines = diffApiSnapshots(diffFrom.snapshot, diffTo);
+                let diffText = `🔍 接口差异: ${args.target_id}\n#${diffFrom.revision} (v${diffFrom.version ?? '-'}, ${diffFrom.recorded_at}) → ${diffToLabel}\n\n`;
+                diffText += diffLines.length > 0 ? diffLines.join('\n') : '(无差异)';
+                return {
+                    content: [{ type: 'text', text: diffText }]
+                };
+            case 'apipost_revert':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
                 }
-                // 获取接口详情
-                const detailResult = await apiClient.post('/open/apis/details', {
-                    project_id: currentWorkspace.projectId,
-                    target_ids: [detailTargetId]
-                });
-                if (detailResult.data.code !== 0) {
-                    throw new Error(`获取接口详情失败: ${detailResult.data.msg}`);
+                const revertTarget = findRevision(loadRevisionHistory(args.target_id), args.revision);
+                const revertLive = await fetchApiDetail(args.target_id);
+                const revertTemplate = buildRevertTemplate(revertLive, revertTarget.snapshot);
+                const revertLines = diffApiSnapshots(revertLive, revertTemplate);
+                if (revertLines.length === 0) {
+                    return {
+                        content: [{ type: 'text', text: `接口当前内容与修订 #${args.revision} 一致，无需回滚` }]
+                    };
                 }
-                const apiDetail = detailResult.data.data.list[0];
-                if (!apiDetail) {
-                    throw new Error(`未找到接口详情 (ID: ${detailTargetId})。可能原因：1) 接口不存在 2) 无权限访问 3) 接口已被删除。请检查接口ID是否正确。`);
+                const revertResult = await apiClient.post('/open/apis/update', revertTemplate);
+                if (revertResult.data.code !== 0) {
+                    throw new Error(`回滚失败: ${revertResult.data.msg}`);
                 }
-                // 格式化接口详情
-                let detailText = `📋 接口详情\n\n`;
-                detailText += `🏷️  基本信息\n`;
-                detailText += `   接口名称: ${apiDetail.name}\n`;
-                detailText += `   请求方法: ${apiDetail.method}\n`;
-                detailText += `   请求URL: ${apiDetail.url}\n`;
-                detailText += `   接口ID: ${detailTargetId}\n`;
-                detailText += `   版本: v${apiDetail.version || 1}\n`;
-                if (apiDetail.description) {
-                    detailText += `   描述: ${apiDetail.description}\n`;
+                recordRevision('revert', revertTemplate, revertLive);
+                return {
+                    content: [{
+                            type: 'text',
+                            text: `接口已回滚到修订 #${args.revision}!\n接口ID: ${args.target_id}\n版本: v${revertTemplate.version}\n\n变更 (${revertLines.length}处):\n${revertLines.join('\n')}`
+                        }]
+                };
+            case 'apipost_batch_create':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许创建操作。需要 "limited" 或 "full" 模式。`);
                 }
-                detailText += `\n`;
-                // Headers参数
-                const headers = apiDetail.request?.header?.parameter || [];
-                detailText += `📨 Headers参数 (${headers.length}个)\n`;
-                if (headers.length > 0) {
-                    headers.forEach((header, index) => {
-                        detailText += `   ${index + 1}. ${header.key}: ${header.description || '无描述'}\n`;
-                        detailText += `      类型: ${header.field_type || 'string'}, 必需: ${header.not_null ? '是' : '否'}\n`;
-                        if (header.value)
-                            detailText += `      示例: ${header.value}\n`;
-                    });
+                if (!Array.isArray(args.apis) || args.apis.length === 0) {
+                    throw new Error('请提供要创建的接口定义数组 apis');
                 }
-                else {
-                    detailText += `   (无Headers参数)\n`;
+                if (args.apis.length > 100) {
+                    throw new Error(`单次最多批量创建100个接口，当前 ${args.apis.length} 个，请分批提交`);
                 }
-                detailText += `\n`;
-                // Query参数
-                const queryParams = apiDetail.request?.query?.parameter || [];
-                detailText += `🔍 Query参数 (${queryParams.length}个)\n`;
-                if (queryParams.length > 0) {
-                    queryParams.forEach((param, index) => {
-                        detailText += `   ${index + 1}. ${param.key}: ${param.description || '无描述'}\n`;
-                        detailText += `      类型: ${param.field_type || 'string'}, 必需: ${param.not_null ? '是' : '否'}\n`;
-                        if (param.value)
-                            detailText += `      示例: ${param.value}\n`;
-                    });
+                // 原子模式失败时需要删除已创建的项目，开始前就确认有删除权限，避免回滚不了留下半成品
+                if (args.atomic && !checkSecurityPermission('delete')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许删除操作，无法保证原子模式的回滚。需要 "full" 模式，或去掉 atomic 使用普通模式。`);
                 }
-                else {
-                    detailText += `   (无Query参数)\n`;
+                const batchParentId = args.parent_id || '0';
+                const batchConcurrency = Math.min(Math.max(args.concurrency || 5, 1), 10);
+                // 先校验全部条目，任一不合法则不创建
+                const { entries: batchEntries, errors: batchErrors } = prepareBatchEntries(args.apis, batchParentId);
+                if (batchErrors.length > 0) {
+                    throw new Error(`校验未通过，未创建任何接口 (${batchErrors.length}/${args.apis.length}项有误):\n${batchErrors.join('\n')}`);
                 }
-                detailText += `\n`;
-                // Body参数
-                const bodyParams = apiDetail.request?.body?.raw_parameter || [];
-                detailText += `📝 Body参数 (${bodyParams.length}个)\n`;
-                if (bodyParams.length > 0) {
-                    bodyParams.forEach((param, index) => {
-                        detailText += `   ${index + 1}. ${param.key}: ${param.description || '无描述'}\n`;
-                        detailText += `      类型: ${param.field_type || 'string'}, 必需: ${param.not_null ? '是' : '否'}\n`;
-                        if (param.value)
-                            detailText += `      示例: ${param.value}\n`;
+                // 依次解析目录路径，同一路径只创建一次
+                const batchCreatedFolders = [];
+                const batchFolderIds = new Map();
+                const batchFolderErrors = new Map();
+                const batchPaths = batchEntries.filter(entry => entry.folderPath);
+                if (batchPaths.length > 0) {
+                    const batchItems = await fetchProjectItems();
+                    for (const entry of batchPaths) {
+                        const pathKey = `${entry.template.parent_id}:${entry.folderPath}`;
+                        if (batchFolderIds.has(pathKey) || batchFolderErrors.has(pathKey))
+                            continue;
+                        try {
+                            batchFolderIds.set(pathKey, await ensureFolderPath(batchItems, entry.template.parent_id, entry.folderPath, batchCreatedFolders));
+                        }
+                        catch (error) {
+                            batchFolderErrors.set(pathKey, `目录 "${entry.folderPath}" 创建失败: ${error instanceof Error ? error.message : String(error)}`);
+                            if (args.atomic)
+                                break;
+                        }
+                    }
+                }
+                let batchAborted = args.atomic && batchFolderErrors.size > 0;
+                const batchResults = await runWithConcurrency(batchEntries, batchConcurrency, async (entry) => {
+                    if (batchAborted)
+                        return { success: false, skipped: true, label: entry.label, error: '已跳过：原子模式下有条目失败', warnings: [] };
+                    try {
+                        if (entry.folderPath) {
+                            const pathKey = `${entry.template.parent_id}:${entry.folderPath}`;
+                            if (!batchFolderIds.has(pathKey)) {
+                                throw new Error(batchFolderErrors.get(pathKey) || `目录 "${entry.folderPath}" 未创建`);
+                            }
+                            entry.template.parent_id = batchFolderIds.get(pathKey);
+                        }
+                        const batchResult = await apiClient.post('/open/apis/create', entry.template);
+                        if (batchResult.data.code !== 0) {
+                            throw new Error(`创建失败: ${batchResult.data.msg}`);
+                        }
+                        const batchCreatedId = recordCreatedRevision('create', entry.template, batchResult);
+                        return { success: true, label: entry.label, targetId: batchCreatedId, warnings: [] };
+                    }
+                    catch (error) {
+                        if (args.atomic)
+                            batchAborted = true;
+                        return { success: false, label: entry.label, error: error instanceof Error ? error.message : String(error), warnings: [] };
+                    }
+                });
+                if (!batchAborted) {
+                    return {
+                        content: [{
+                                type: 'text',
+                                text: formatImportReport('批量创建完成!', [`并发数: ${batchConcurrency}`], batchResults, batchCreatedFolders.map(folder => folder.label))
+                            }]
+                    };
+                }
+                // 原子模式：回滚本次已创建的接口与目录，每项的回滚结果单独报告
+                const batchFailures = [
+                    ...[...batchFolderErrors.values()].map(error => ({ label: '📁 目录', error })),
+                    ...batchResults.filter(result => !result.success && !result.skipped)
+                ];
+                const deleteCreatedItem = async (targetId) => {
+                    const rollbackResult = await apiClient.post('/open/apis/delete', {
+                        project_id: currentWorkspace.projectId,
+                        target_ids: [targetId]
                     });
+                    if (rollbackResult.data.code !== 0) {
+                        throw new Error(rollbackResult.data.msg);
+                    }
+                };
+                const rollbackApis = batchResults
+                    .map((result, index) => ({ ...result, parentId: batchEntries[index].template.parent_id }))
+                    .filter(result => result.success);
+                const { rolledBackApis, rolledBackFolders, failures: rollbackFailures } = await rollbackBatchCreate(rollbackApis, batchCreatedFolders, deleteCreatedItem, batchConcurrency);
+                let rollbackText = rollbackFailures.length > 0
+                    ? `❌ 批量创建失败，原子模式回滚未完成\n`
+                    : `❌ 批量创建失败，已按原子模式回滚\n`;
+                rollbackText += `接口总数: ${batchEntries.length}, 失败: ${batchFailures.length}, 未执行: ${batchResults.filter(result => result.skipped).length}\n`;
+                if (rollbackApis.length > 0 || batchCreatedFolders.length > 0) {
+                    rollbackText += `已回滚: ${rolledBackApis} 个接口, ${rolledBackFolders} 个目录（已回滚接口的本地修订历史一并清除）\n`;
                 }
                 else {
-                    detailText += `   (无Body参数)\n`;
+                    rollbackText += `无需回滚：尚未创建任何接口或目录\n`;
                 }
-                detailText += `\n`;
-                // Cookies参数
-                const cookies = apiDetail.request?.cookie?.parameter || [];
-                detailText += `🍪 Cookies参数 (${cookies.length}个)\n`;
-                if (cookies.length > 0) {
-                    cookies.forEach((cookie, index) => {
-                        detailText += `   ${index + 1}. ${cookie.key}: ${cookie.description || '无描述'}\n`;
-                        detailText += `      类型: ${cookie.field_type || 'string'}, 必需: ${cookie.not_null ? '是' : '否'}\n`;
-                        if (cookie.value)
-                            detailText += `      示例: ${cookie.value}\n`;
+                if (rollbackFailures.length > 0) {
+                    rollbackText += `\n⚠️ 回滚失败，以下项目仍存在，需手动删除:\n`;
+                    rollbackFailures.forEach((failure, index) => {
+                        rollbackText += `${index + 1}. ${failure.label} → ID: ${failure.targetId}\n   原因: ${failure.error}\n`;
                     });
                 }
-                else {
-                    detailText += `   (无Cookies参数)\n`;
+                rollbackText += `\n❌ 失败:\n`;
+                batchFailures.forEach((failure, index) => {
+                    rollbackText += `${index + 1}. ${failure.label}\n   原因: ${failure.error}\n`;
+                });
+                return {
+                    content: [{ type: 'text', text: rollbackText }],
+                    isError: true
+                };
+            case 'apipost_bulk_update':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
                 }
-                detailText += `\n`;
-                // 认证配置
-                const auth = apiDetail.request?.auth || {};
-                detailText += `🔐 认证配置\n`;
-                if (auth.type && auth.type !== 'inherit') {
-                    detailText += `   类型: ${auth.type}\n`;
-                    if (auth.bearer?.key) {
-                        detailText += `   Token: ${auth.bearer.key.substring(0, 20)}...\n`;
+                if ([args.parent_id, args.search, args.method, args.url_pattern].every(value => value === undefined || value === '')) {
+                    throw new Error('请至少提供一个筛选条件：parent_id、search、method 或 url_pattern（整个项目请使用 parent_id: "0"）');
+                }
+                if ((args.url_find === undefined) !== (args.url_replace === undefined)) {
+                    throw new Error('url_find 与 url_replace 需要同时提供');
+                }
+                const compileBulkRegex = (pattern, label) => {
+                    try {
+                        return new RegExp(pattern);
+                    }
+                    catch (error) {
+                        throw new Error(`${label} 不是有效的正则表达式: ${error instanceof Error ? error.message : String(error)}`);
                     }
+                };
+                const bulkUrlFilter = args.url_pattern ? compileBulkRegex(args.url_pattern, 'url_pattern') : null;
+                const bulkAddHeaders = args.add_headers !== undefined ? parseConfigParam(args.add_headers) : [];
+                ensureFieldsHaveDesc(bulkAddHeaders, 'add_headers');
+                if (bulkAddHeaders.some(field => !field || !field.key)) {
+                    throw new Error('add_headers 中每个字段都需要 key');
                 }
-                else {
-                    detailText += `   (继承父级认证或无认证)\n`;
+                const bulkRemoveHeaders = Array.isArray(args.remove_headers) ? args.remove_headers.filter(Boolean) : [];
+                const bulkHeaderConflicts = bulkAddHeaders.filter(field => bulkRemoveHeaders.includes(field.key)).map(field => field.key);
+                if (bulkHeaderConflicts.length > 0) {
+                    throw new Error(`Header ${bulkHeaderConflicts.join(', ')} 同时出现在 add_headers 与 remove_headers 中`);
                 }
-                detailText += `\n`;
-                // 响应示例
-                const responses = apiDetail.response?.example || [];
-                detailText += `📤 响应示例 (${responses.length}个)\n`;
-                if (responses.length > 0) {
-                    responses.forEach((resp, index) => {
-                        detailText += `   ${index + 1}. ${resp.expect?.name || '响应' + (index + 1)}\n`;
-                        detailText += `      状态码: ${resp.expect?.code || 200}\n`;
-                        if (resp.raw) {
-                            const rawData = resp.raw.length > 200 ? resp.raw.substring(0, 200) + '...' : resp.raw;
-                            detailText += `      数据: ${rawData}\n`;
-                        }
+                const bulkTransform = {
+                    addHeaders: bulkAddHeaders,
+                    removeHeaders: bulkRemoveHeaders,
+                    auth: args.auth,
+                    urlPattern: args.url_find !== undefined ? compileBulkRegex(args.url_find, 'url_find') : null,
+                    urlReplace: args.url_replace,
+                    descriptionPrefix: args.description_prefix
+                };
+                if (bulkAddHeaders.length === 0 && bulkRemoveHeaders.length === 0 && args.auth === undefined && !bulkTransform.urlPattern && !args.description_prefix) {
+                    throw new Error('请至少提供一种变换：add_headers、remove_headers、auth、url_find/url_replace 或 description_prefix');
+                }
+                // 筛选接口
+                let bulkItems = await fetchProjectItems();
+                if (args.parent_id !== undefined && args.parent_id !== '')
+                    bulkItems = args.parent_id === '0' ? bulkItems : getChildrenRecursively(bulkItems, args.parent_id);
+                bulkItems = bulkItems.filter(item => item.target_type === 'api');
+                const bulkMethods = args.method ? args.method.split(',').map(m => m.trim().toUpperCase()).filter(Boolean) : [];
+                if (bulkMethods.length > 0)
+                    bulkItems = bulkItems.filter(item => bulkMethods.includes(String(item.method || '').toUpperCase()));
+                if (args.search) {
+                    const bulkKeyword = args.search.toLowerCase();
+                    bulkItems = bulkItems.filter(item => item.name?.toLowerCase().includes(bulkKeyword) ||
+                        item.url?.toLowerCase().includes(bulkKeyword) ||
+                        item.description?.toLowerCase().includes(bulkKeyword));
+                }
+                if (bulkUrlFilter)
+                    bulkItems = bulkItems.filter(item => bulkUrlFilter.test(item.url || ''));
+                if (bulkItems.length === 0) {
+                    throw new Error('没有匹配筛选条件的接口');
+                }
+                // 基于最新详情为每个接口生成修改模板
+                const bulkDetails = await fetchApiDetails(bulkItems.map(item => item.target_id));
+                const bulkPlans = bulkDetails.map(detail => {
+                    try {
+                        const bulkArgs = buildBulkUpdateArgs(detail, bulkTransform);
+                        if (!bulkArgs)
+                            return { detail };
+                        // 预览的差异基于实际提交的模板，显示的就是最终保存的 URL
+                        const { updateTemplate: bulkTemplate, warnings } = buildUpdateTemplate(detail, bulkArgs, { urlPrefix: false });
+                        const lines = diffApiSnapshots(detail, bulkTemplate);
+                        return lines.length > 0 ? { detail, template: bulkTemplate, lines, warnings } : { detail };
+                    }
+                    catch (error) {
+                        return { detail, error: error instanceof Error ? error.message : String(error) };
+                    }
+                });
+                const bulkChanged = bulkPlans.filter(plan => plan.template);
+                const bulkInvalid = bulkPlans.filter(plan => plan.error);
+                const bulkToken = buildBulkUpdateToken(bulkPlans, ['parent_id', 'search', 'method', 'url_pattern', 'add_headers', 'remove_headers', 'auth', 'url_find', 'url_replace', 'description_prefix'].map(key => args[key] ?? null));
+                const bulkLabel = (detail) => `[${detail.method}] ${detail.url} ${detail.name} (${detail.target_id})`;
+                if (args.dry_run) {
+                    let bulkPreview = `🧪 批量修改预览（未提交）\n匹配接口: ${bulkPlans.length}, 将修改: ${bulkChanged.length}, 无变化: ${bulkPlans.length - bulkChanged.length - bulkInvalid.length}, 无法修改: ${bulkInvalid.length}\n`;
+                    bulkChanged.forEach((plan, index) => {
+                        bulkPreview += `\n${index + 1}. ${bulkLabel(plan.detail)}\n   ${plan.lines.join('\n   ')}\n`;
+                        plan.warnings.forEach(warning => {
+                            bulkPreview += `   ⚠️ ${warning}\n`;
+                        });
                     });
+                    if (bulkInvalid.length > 0) {
+                        bulkPreview += `\n❌ 无法修改（提交时跳过）:\n`;
+                        bulkInvalid.forEach((plan, index) => {
+                            bulkPreview += `${index + 1}. ${bulkLabel(plan.detail)}\n   原因: ${plan.error}\n`;
+                        });
+                    }
+                    bulkPreview += bulkChanged.length > 0
+                        ? `\n确认令牌: ${bulkToken}\n💡 确认无误后去掉 dry_run 并传入 confirm_token 提交`
+                        : `\n(没有需要修改的接口)`;
+                    return {
+                        content: [{ type: 'text', text: bulkPreview }]
+                    };
                 }
-                else {
-                    detailText += `   (无响应示例)\n`;
+                if (!args.confirm_token) {
+                    throw new Error('批量修改需要确认令牌，请先使用 dry_run: true 预览变更并获取 confirm_token');
                 }
-
+                if (args.confirm_token !== bulkToken) {
+                    throw new Error('确认令牌不匹配：匹配的接口或其内容可能在预览后发生变化，请重新 dry_run 预览');
+                }
+                if (bulkChanged.length === 0) {
+                    throw new Error('没有需要修改的接口');
+                }
+                const bulkResults = await runWithConcurrency(bulkChanged, 5, async (plan) => {
+                    try {
+                        const bulkResult = await apiClient.post('/open/apis/update', plan.template);
+                        if (bulkResult.data.code !== 0) {
+                            throw new Error(`修改失败: ${bulkResult.data.msg}`);
+                        }
+                        recordRevision('update', plan.template, plan.detail);
+                        return { success: true, label: `[${plan.template.method}] ${plan.template.url} ${plan.template.name}`, targetId: plan.detail.target_id, warnings: plan.warnings };
+                    }
+                    catch (error) {
+                        return { success: false, label: bulkLabel(plan.detail), error: error instanceof Error ? error.message : String(error), warnings: [] };
+                    }
+                });
                 return {
-                    content: [{ type: 'text', text: detailText }]
+                    content: [{
+                            type: 'text',
+                            text: formatImportReport('批量修改完成!', [`匹配接口: ${bulkPlans.length}, 无变化: ${bulkPlans.length - bulkChanged.length - bulkInvalid.length}, 跳过（无法修改）: ${bulkInvalid.length}`], bulkResults)
+                        }]
                 };
-            case 'apipost_delete':
-                if (!checkSecurityPermission('delete')) {
-                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许删除操作。需要 "full" 模式。`);
+            case 'apipost_migrate_url_prefix':
+                if (!checkSecurityPermission('write')) {
+                    throw new Error(`🔒 安全模式 "${APIPOST_SECURITY_MODE}" 不允许修改操作。需要 "limited" 或 "full" 模式。`);
                 }
-                const apiIds = args.api_ids;
-                if (!apiIds || !Array.isArray(apiIds) || apiIds.length === 0) {
-                    throw new Error('请提供要删除的API接口ID数组');
+                const migrateFrom = args.from_prefix || '';
+                const migrateTo = args.to_prefix ?? APIPOST_URL_PREFIX;
+                if (!migrateFrom && !migrateTo) {
+                    throw new Error('请提供 to_prefix（或配置 APIPOST_URL_PREFIX）作为新前缀');
                 }
-                const deleteData = {
-                    project_id: currentWorkspace.projectId,
-                    target_ids: apiIds
-                };
-                const deleteResult = await apiClient.post('/open/apis/delete', deleteData);
-                if (deleteResult.data.code !== 0) {
-                    throw new Error(`删除失败: ${deleteResult.data.msg}`);
+                if (migrateFrom === migrateTo) {
+                    throw new Error('from_prefix 与 to_prefix 相同，无需迁移');
                 }
-
-                let deleteText = `批量删除完成!\n删除数量: ${apiIds.length} 个接口\n删除的ID:\n`;
-                apiIds.forEach((id, index) => {
-                    deleteText += `${index + 1}. ${id}\n`;
+                let migrateItems = await fetchProjectItems();
+                if (args.parent_id && args.parent_id !== '0')
+                    migrateItems = getChildrenRecursively(migrateItems, args.parent_id);
+                const migrateCandidates = migrateItems.filter(item => item.target_type === 'api' && migrateUrlPrefix(item.url || '', migrateFrom, migrateTo) !== null);
+                const migrateDetails = migrateCandidates.length > 0 ? await fetchApiDetails(migrateCandidates.map(item => item.target_id)) : [];
+                const migratePlans = planUrlMigration(migrateDetails, migrateFrom, migrateTo);
+                const migrateToken = buildBulkUpdateToken(migratePlans, [migrateFrom, migrateTo, args.parent_id ?? null]);
+                const migrateRule = `${migrateFrom || '(无前缀)'} → ${migrateTo || '(无前缀)'}`;
+                if (args.dry_run) {
+                    let migratePreview = `🧪 URL 前缀迁移预览（未提交）\n规则: ${migrateRule}\n将修改: ${migratePlans.length} 个接口\n`;
+                    migratePlans.forEach((plan, index) => {
+                        migratePreview += `\n${index + 1}. [${plan.detail.method}] ${plan.detail.name} (${plan.detail.target_id})\n   ${plan.detail.url}\n → ${plan.url}\n`;
+                    });
+                    migratePreview += migratePlans.length > 0
+                        ? `\n确认令牌: ${migrateToken}\n💡 确认无误后去掉 dry_run 并传入 confirm_token 提交`
+                        : `\n(没有匹配的接口)`;
+                    return {
+                        content: [{ type: 'text', text: migratePreview }]
+                    };
+                }
+                if (!args.confirm_token) {
+                    throw new Error('URL 前缀迁移需要确认令牌，请先使用 dry_run: true 预览并获取 confirm_token');
+                }
+                if (args.confirm_token !== migrateToken) {
+                    throw new Error('确认令牌不匹配：匹配的接口或其内容可能在预览后发生变化，请重新 dry_run 预览');
+                }
+                if (migratePlans.length === 0) {
+                    throw new Error('没有匹配的接口');
+                }
+                const migrateResults = await runWithConcurrency(migratePlans, 5, async (plan) => {
+                    try {
+                        const migrateResult = await apiClient.post('/open/apis/update', plan.template);
+                        if (migrateResult.data.code !== 0) {
+                            throw new Error(`修改失败: ${migrateResult.data.msg}`);
+                        }
+                        recordRevision('update', plan.template, plan.detail);
+                        return { success: true, label: `[${plan.detail.method}] ${plan.detail.url} → ${plan.url}`, targetId: plan.detail.target_id, warnings: [] };
+                    }
+                    catch (error) {
+                        return { success: false, label: `[${plan.detail.method}] ${plan.detail.url} (${plan.detail.target_id})`, error: error instanceof Error ? error.message : String(error), warnings: [] };
+                    }
                 });
+                const migrationRecord = buildMigrationRecord(currentWorkspace.projectId, migrateFrom, migrateTo, migratePlans, migrateResults);
+                let migrateRecordLine = `迁移记录: ${migrationRecord.migration_id}`;
+                try {
+                    writeStorageJson(path.join('migrations', `${migrationRecord.migration_id}.json`), migrationRecord);
+                    migrateRecordLine += ` (${getStorageDir('migrations', `${migrationRecord.migration_id}.json`)})`;
+                }
+                catch (error) {
+                    migrateRecordLine += ` ⚠️ 写入失败: ${error instanceof Error ? error.message : String(error)}`;
+                }
                 return {
-                    content: [{ type: 'text', text: deleteText }]
+                    content: [{
+                            type: 'text',
+                            text: formatImportReport('URL 前缀迁移完成!', [`规则: ${migrateRule}`, migrateRecordLine], migrateResults)
+                        }]
                 };
             default:
                 throw new Error(`未知工具: ${name}`);
@@ -1810,7 +7454,7 @@ async function main() {
         const transport = new StdioServerTransport();
         await server.connect(transport);
         console.error('✅ ApiPost MCP 启动成功!');
-        console.error('📊 可用工具: apipost_create_folder, apipost_smart_create, apipost_list, apipost_update, apipost_delete');
+        console.error('📊 可用工具: apipost_create_folder, apipost_smart_create, apipost_list, apipost_update, apipost_delete, apipost_import_openapi, apipost_export_openapi, apipost_import_postman, apipost_export_postman, apipost_import_har, apipost_create_from_curl, apipost_snippet, apipost_scan_routes, apipost_fields_from_type, apipost_update_folder, apipost_move, apipost_clone, apipost_trash_list, apipost_restore, apipost_history, apipost_diff, apipost_revert, apipost_batch_create, apipost_bulk_update, apipost_migrate_url_prefix');
         console.error('📈 等待工具调用...');
         console.error('='.repeat(50));
     }
@@ -1819,4 +7463,8 @@ async function main() {
         process.exit(1);
     }
 }
-main();
+// 仅在作为入口运行时启动服务器；测试导入模块时只使用导出的纯函数
+if (process.argv[1] && fs.realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main();
+}
+export { extractOpenApiOperations, buildOpenApiDocument, generateApiTemplate, applyUrlPrefix, postmanRequestToApi, apiToPostmanItem, toOpenApiPath, normalizeHarPath, groupHarEntries, harGroupToApiArgs, parseCurlCommand, curlToApiArgs, toGoStringLiteral, SNIPPET_RENDERERS, scanRoutesInSource, typeDeclarationToFields, fieldListToJsonSchema, extractPathVariables, resolveRestfulParams, normalizeHttpMethod, ensureMethodAllowsBody, buildCreateTemplate, buildUpdateTemplate, buildApiConfig, normalizeResponses, generateFolderTemplate, buildFolderUpdateTemplate, analyzeFolderInheritance, planMove, buildCloneTemplate, planDelete, buildDeleteConfirmToken, isIdConflictError, diffApiSnapshots, buildRevertTemplate, parsePatchOperations, applyFieldPatch, applyUpdatePatches, buildConflictReport, prepareBatchEntries, rollbackBatchCreate, buildBulkUpdateArgs, buildBulkUpdateToken, migrateUrlPrefix, planUrlMigration, buildMigrationRecord };
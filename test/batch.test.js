@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { prepareBatchEntries, rollbackBatchCreate } = api;
+
+describe('prepareBatchEntries', () => {
+    it('字段列表可直接写数组，目录路径与父目录逐项生效', () => {
+        const { entries, errors } = prepareBatchEntries([
+            { method: 'get', url: '/users', name: '用户列表', query: [{ key: 'page', type: 'integer', desc: '页码' }], folder_path: '用户/查询' },
+            { method: 'POST', url: '/users', name: '创建用户', parent_id: 'f9' }
+        ], 'f1');
+        assert.deepEqual(errors, []);
+        assert.deepEqual(entries.map(entry => [entry.template.method, entry.template.parent_id, entry.folderPath]), [['GET', 'f1', '用户/查询'], ['POST', 'f9', '']]);
+        assert.deepEqual(entries[0].template.request.query.parameter.map(param => param.key), ['page']);
+        assert.equal(entries[0].label, '[GET] {{host}}/users 用户列表');
+    });
+    it('逐项收集错误，不因第一个错误中断', () => {
+        const { entries, errors } = prepareBatchEntries([
+            'x',
+            { method: 'GET', name: '缺 URL' },
+            { method: 'GET', url: '/a', name: '缺描述', query: [{ key: 'q' }] },
+            { method: 'GET', url: '/ok', name: '正常' }
+        ], '0');
+        assert.equal(entries.length, 1);
+        assert.equal(errors.length, 3);
+        assert.match(errors[0], /^apis\[0\]: 必须是接口定义对象/);
+        assert.match(errors[1], /^apis\[1\] 缺 URL: 缺少 url/);
+        assert.match(errors[2], /^apis\[2\] 缺描述: .*desc/);
+    });
+});
+
+describe('rollbackBatchCreate', () => {
+    const folders = [
+        { target_id: 'f1', parent_id: '0', label: '用户 (f1)' },
+        { target_id: 'f2', parent_id: 'f1', label: '用户 / 查询 (f2)' },
+        { target_id: 'f3', parent_id: '0', label: '订单 (f3)' }
+    ];
+    const apis = [
+        { label: 'a1', targetId: 'a1', parentId: 'f2' },
+        { label: 'a2', targetId: 'a2', parentId: 'f3' }
+    ];
+    it('先删接口再由深到浅删目录', async () => {
+        const deleted = [];
+        const result = await rollbackBatchCreate(apis, folders, async (id) => { deleted.push(id); }, 1);
+        assert.deepEqual(deleted, ['a1', 'a2', 'f3', 'f2', 'f1']);
+        assert.deepEqual(result, { rolledBackApis: 2, rolledBackFolders: 3, failures: [] });
+    });
+    it('接口删除失败时保留其所在目录及祖先目录', async () => {
+        const deleted = [];
+        const result = await rollbackBatchCreate(apis, folders, async (id) => {
+            if (id === 'a1')
+                throw new Error('网络错误');
+            deleted.push(id);
+        }, 2);
+        assert.deepEqual(deleted, ['a2', 'f3']);
+        assert.equal(result.rolledBackApis, 1);
+        assert.equal(result.rolledBackFolders, 1);
+        assert.deepEqual(result.failures.map(failure => [failure.targetId, failure.error]), [
+            ['a1', '网络错误'],
+            ['f2', '目录下仍有未回滚的项目，未删除'],
+            ['f1', '目录下仍有未回滚的项目，未删除']
+        ]);
+    });
+    it('目录删除失败时其父目录也保留', async () => {
+        const result = await rollbackBatchCreate([], folders.slice(0, 2), async (id) => {
+            if (id === 'f2')
+                throw new Error('删除失败');
+        }, 1);
+        assert.deepEqual(result.failures.map(failure => failure.targetId), ['f2', 'f1']);
+        assert.equal(result.rolledBackFolders, 0);
+    });
+});
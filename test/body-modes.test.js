@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { buildCreateTemplate, buildUpdateTemplate } = api;
+
+const create = (args) => buildCreateTemplate({ method: 'POST', url: '/upload', name: '上传', ...args }).template;
+const fields = (list) => JSON.stringify(list);
+
+describe('body_mode', () => {
+    it('form-data 与 urlencoded 字段写入 parameter，file 仅限 form-data', () => {
+        const form = create({ body_mode: 'form-data', body: fields([{ key: 'file', type: 'file', desc: '文件' }, { key: 'note', type: 'string', desc: '备注' }]) });
+        assert.equal(form.request.body.mode, 'form-data');
+        assert.deepEqual(form.request.body.parameter.map(param => [param.key, param.field_type]), [['file', 'file'], ['note', 'string']]);
+        assert.deepEqual(form.request.body.raw_parameter, []);
+        const urlencoded = create({ body_mode: 'urlencoded', body: fields([{ key: 'user', type: 'string', desc: '用户' }]) });
+        assert.deepEqual(urlencoded.request.body.parameter.map(param => param.key), ['user']);
+        assert.throws(() => create({ body_mode: 'urlencoded', body: fields([{ key: 'file', type: 'file', desc: '文件' }]) }), /仅支持 form-data 模式/);
+    });
+    it('xml 未提供 body_raw 时由字段生成示例', () => {
+        const xml = create({ body_mode: 'xml', body: fields([{ key: 'user', type: 'object', desc: '用户' }, { key: 'user.name', type: 'string', example: 'a&b', desc: '用户名' }]) });
+        assert.equal(xml.request.body.mode, 'xml');
+        assert.equal(xml.request.body.raw, '<?xml version="1.0" encoding="UTF-8"?>\n<user>\n    <name>a&amp;b</name>\n</user>');
+        assert.equal(create({ body_mode: 'xml', body_raw: '<a/>' }).request.body.raw, '<a/>');
+    });
+    it('plain 与 binary 使用 body_raw', () => {
+        assert.equal(create({ body_mode: 'plain', body_raw: 'hello' }).request.body.raw, 'hello');
+        assert.throws(() => create({ body_mode: 'plain' }), /plain 模式需要通过 body_raw/);
+        assert.throws(() => create({ body_mode: 'plain', body_raw: 'x', body: fields([{ key: 'a', desc: 'A' }]) }), /plain 模式不使用 body 字段列表/);
+        assert.deepEqual(create({ body_mode: 'binary', body_raw: 'a.png' }).request.body.binary, { file_name: 'a.png', content_type: 'application/octet-stream' });
+    });
+    it('拒绝未知模式与 JSON 模式下的 body_raw', () => {
+        assert.throws(() => create({ body_mode: 'yaml' }), /不支持的 body_mode: yaml/);
+        assert.throws(() => create({ body_raw: '{}' }), /body_raw 仅用于 xml、plain、binary 模式/);
+    });
+    it('更新时只改字段则沿用原模式，只改模式则沿用原字段', () => {
+        const original = create({ body_mode: 'urlencoded', body: fields([{ key: 'user', type: 'string', desc: '用户' }]) });
+        const { updateTemplate: renamed } = buildUpdateTemplate(original, { body: fields([{ key: 'name', type: 'string', desc: '名称' }]) });
+        assert.equal(renamed.request.body.mode, 'urlencoded');
+        assert.deepEqual(renamed.request.body.parameter.map(param => param.key), ['name']);
+        const { updateTemplate: switched } = buildUpdateTemplate(original, { body_mode: 'form-data' });
+        assert.equal(switched.request.body.mode, 'form-data');
+        assert.deepEqual(switched.request.body.parameter.map(param => param.key), ['user']);
+    });
+});
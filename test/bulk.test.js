@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { buildBulkUpdateArgs, buildBulkUpdateToken, buildCreateTemplate, buildUpdateTemplate } = api;
+
+const transform = (overrides = {}) => ({ addHeaders: [], removeHeaders: [], auth: undefined, urlPattern: null, urlReplace: undefined, descriptionPrefix: undefined, ...overrides });
+const { template: detail } = buildCreateTemplate({
+    method: 'GET',
+    url: '/v1/users',
+    name: '用户列表',
+    description: '查询用户',
+    headers: JSON.stringify([{ key: 'X-Old', type: 'string', desc: '旧头' }, { key: 'X-Tenant', type: 'string', desc: '租户' }])
+});
+
+describe('buildBulkUpdateArgs', () => {
+    it('删除与新增 Header 生成字段补丁，已存在的 Header 改为 modify', () => {
+        const args = buildBulkUpdateArgs(detail, transform({
+            removeHeaders: ['X-Old', 'X-Missing'],
+            addHeaders: [{ key: 'X-Tenant', type: 'string', desc: '租户编码' }, { key: 'X-Trace', type: 'string', desc: '追踪ID' }]
+        }));
+        assert.deepEqual(JSON.parse(args.patch).map(patch => [patch.op, patch.key]), [['remove', 'X-Old'], ['modify', 'X-Tenant'], ['add', 'X-Trace']]);
+        const { updateTemplate } = buildUpdateTemplate(detail, args);
+        assert.deepEqual(updateTemplate.request.header.parameter.map(param => [param.key, param.description]), [['X-Tenant', '租户编码'], ['X-Trace', '追踪ID']]);
+    });
+    it('URL 正则替换结果原样保存，不重复拼接全局前缀', () => {
+        const args = buildBulkUpdateArgs(detail, transform({ urlPattern: /\/v1\//, urlReplace: '/v2/' }));
+        assert.deepEqual(args, { url: '{{host}}/v2/users' });
+        const { updateTemplate } = buildUpdateTemplate(detail, args, { urlPrefix: false });
+        assert.equal(updateTemplate.url, '{{host}}/v2/users');
+    });
+    it('描述前缀与认证；无需修改时返回 null', () => {
+        assert.deepEqual(buildBulkUpdateArgs(detail, transform({ descriptionPrefix: '[废弃] ', auth: '{"type":"bearer"}' })), { auth: '{"type":"bearer"}', description: '[废弃] 查询用户' });
+        assert.equal(buildBulkUpdateArgs({ ...detail, description: '[废弃] 查询用户' }, transform({ descriptionPrefix: '[废弃] ' })), null);
+        assert.equal(buildBulkUpdateArgs(detail, transform({ removeHeaders: ['X-Missing'], urlPattern: /\/v3\//, urlReplace: '/v4/' })), null);
+    });
+});
+
+describe('buildBulkUpdateToken', () => {
+    const plans = [
+        { detail: { target_id: 'a1', version: 2 }, template: {} },
+        { detail: { target_id: 'a2', version: 5 }, template: {} },
+        { detail: { target_id: 'a3', version: 1 } }
+    ];
+    it('与计划顺序无关，忽略无变化的接口', () => {
+        const token = buildBulkUpdateToken(plans, ['0', null]);
+        assert.match(token, /^[0-9a-f]{12}$/);
+        assert.equal(buildBulkUpdateToken([...plans].reverse(), ['0', null]), token);
+        assert.equal(buildBulkUpdateToken([plans[0], plans[1], { detail: { target_id: 'a3', version: 9 } }], ['0', null]), token);
+    });
+    it('接口版本或变换参数变化时令牌失效', () => {
+        const token = buildBulkUpdateToken(plans, ['0', null]);
+        assert.notEqual(buildBulkUpdateToken([{ ...plans[0], detail: { target_id: 'a1', version: 3 } }, plans[1]], ['0', null]), token);
+        assert.notEqual(buildBulkUpdateToken(plans, ['0', 'X-Trace']), token);
+    });
+});
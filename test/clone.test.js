@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { buildCloneTemplate, buildCreateTemplate, generateFolderTemplate } = api;
+
+describe('buildCloneTemplate', () => {
+    const { template: source } = buildCreateTemplate({
+        method: 'GET',
+        url: '/v1/users/{id}',
+        name: '用户详情 v1',
+        parent_id: 'f1',
+        restful: JSON.stringify([{ key: 'id', type: 'integer', desc: '用户ID' }])
+    });
+    const detail = { ...source, version: 7, is_conflicted: 1 };
+    it('使用新 ID 与父目录，版本从 1 开始，保留请求定义', () => {
+        const clone = buildCloneTemplate(detail, 'new1', 'f2');
+        assert.equal(clone.target_id, 'new1');
+        assert.equal(clone.parent_id, 'f2');
+        assert.equal(clone.version, 1);
+        assert.equal(clone.is_conflicted, -1);
+        assert.equal(clone.name, '用户详情 v1');
+        assert.equal(clone.url, detail.url);
+        assert.deepEqual(clone.request.restful, detail.request.restful);
+        assert.equal(detail.target_id, source.target_id);
+    });
+    it('替换名称与 URL 前缀，前缀不匹配时保留原 URL', () => {
+        const clone = buildCloneTemplate(detail, 'new2', 'f2', { nameFrom: 'v1', nameTo: 'v2', urlFrom: '/v1', urlTo: '/v2' });
+        assert.equal(clone.name, '用户详情 v2');
+        assert.equal(clone.url, '{{host}}/v2/users/{id}');
+        const unmatched = buildCloneTemplate(detail, 'new3', 'f2', { urlFrom: '/v3', urlTo: '/w' });
+        assert.equal(unmatched.url, detail.url);
+    });
+    it('复制目录时保留认证与公共参数，不改写 URL', () => {
+        const folder = generateFolderTemplate('用户 v1', '0', '', { auth: { type: 'bearer', bearer: { key: '{{token}}' } }, headers: [{ key: 'X-Tenant', desc: '租户' }] });
+        const clone = buildCloneTemplate(folder, 'nf', '0', { nameFrom: 'v1', nameTo: 'v2', urlFrom: '/v1', urlTo: '/v2' });
+        assert.equal(clone.target_type, 'folder');
+        assert.equal(clone.name, '用户 v2');
+        assert.equal(clone.url, undefined);
+        assert.equal(clone.request.auth.type, 'bearer');
+        assert.deepEqual(clone.request.header.parameter.map(param => param.key), ['X-Tenant']);
+    });
+});
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { buildConflictReport, diffApiSnapshots, buildCreateTemplate, buildUpdateTemplate } = api;
+
+describe('buildConflictReport', () => {
+    const { template: base } = buildCreateTemplate({ method: 'GET', url: '/users', name: '用户列表' });
+    const expected = { ...base, version: 3 };
+    const latest = { ...base, name: '用户查询', version: 4 };
+    const { updateTemplate } = buildUpdateTemplate(expected, { url: '/members' });
+    it('分别列出线上变更与本次修改，提示基于最新版本重试', () => {
+        const report = buildConflictReport('a1', 3, latest, diffApiSnapshots(expected, latest), diffApiSnapshots(expected, updateTemplate));
+        assert.match(report, /期望版本: v3\n线上版本: v4/);
+        assert.match(report, /📥 线上变更 \(v3 → v4, 1处\):\n~ 名称: 用户列表 → 用户查询/);
+        assert.match(report, /📤 本次修改 \(1处\):\n~ URL: \{\{host\}\}\/users → \{\{host\}\}\/members/);
+        assert.match(report, /以 expected_version: 4 重新调用/);
+    });
+    it('本地没有期望版本的快照时说明无法列出线上差异', () => {
+        const report = buildConflictReport('a1', 1, latest, null, []);
+        assert.match(report, /本地无 v1 快照，无法列出具体差异/);
+        assert.match(report, /📤 本次修改: 内容无变化/);
+    });
+    it('线上只有版本号变化时注明无内容差异', () => {
+        assert.match(buildConflictReport('a1', 3, latest, [], []), /📥 线上变更: 内容无差异（仅版本号变化）/);
+    });
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { parseCurlCommand, curlToApiArgs, buildApiConfig, generateApiTemplate } = api;
+
+const convert = (command) => curlToApiArgs(parseCurlCommand(command));
+
+describe('curlToApiArgs 请求体', () => {
+    it('非 key=value 文本保存为 plain 原文', () => {
+        const { args } = convert(`curl https://x.com/notes --data-raw 'plain text'`);
+        assert.equal(args.method, 'POST');
+        assert.equal(args.body_mode, 'plain');
+        assert.equal(args.body_raw, 'plain text');
+        assert.deepEqual(JSON.parse(args.body), []);
+        const template = generateApiTemplate(args.method, args.url, 'n', buildApiConfig(args).config);
+        assert.equal(template.request.body.mode, 'plain');
+        assert.equal(template.request.body.raw, 'plain text');
+    });
+    it('部分片段不是 key=value 时不按表单解析', () => {
+        const { args } = convert(`curl https://x.com/a -d 'a=1&flag'`);
+        assert.equal(args.body_mode, 'plain');
+        assert.equal(args.body_raw, 'a=1&flag');
+    });
+    it('全部为 key=value 时按 urlencoded 解析', () => {
+        const { args, missing } = convert(`curl https://x.com/login -d 'user=a&pass=b'`);
+        assert.equal(args.body_mode, 'urlencoded');
+        assert.deepEqual(JSON.parse(args.body).map(f => [f.key, f.example]), [['user', 'a'], ['pass', 'b']]);
+        assert.deepEqual(missing, ['body.user', 'body.pass']);
+    });
+    it('--data-urlencode 按 urlencoded 解析', () => {
+        const { args } = convert(`curl https://x.com/s --data-urlencode 'q=hello world'`);
+        assert.equal(args.body_mode, 'urlencoded');
+        assert.equal(JSON.parse(args.body)[0].example, 'hello world');
+    });
+    it('JSON 对象解析为字段列表，JSON 数组保留原文', () => {
+        const objectArgs = convert(`curl https://x.com/u -H 'Content-Type: application/json' -d '{"name":"a"}'`).args;
+        assert.equal(objectArgs.body_mode, undefined);
+        assert.deepEqual(JSON.parse(objectArgs.body).map(f => f.key), ['name']);
+        const { args, warnings } = convert(`curl https://x.com/u -H 'Content-Type: application/json' -d '[1,2]'`);
+        assert.equal(args.body_mode, 'plain');
+        assert.equal(args.body_raw, '[1,2]');
+        assert.ok(warnings.some(w => w.includes('JSON')));
+    });
+    it('XML 文本保存为 xml 原文', () => {
+        const { args } = convert(`curl https://x.com/x -d '<a>1</a>'`);
+        assert.equal(args.body_mode, 'xml');
+        assert.equal(args.body_raw, '<a>1</a>');
+    });
+});
+
+describe('curlToApiArgs 凭证', () => {
+    it('-u 密码与 Authorization 请求头替换为占位变量', () => {
+        const { args, warnings } = convert(`curl https://x.com/me -u 'tom:s3cret' -H 'Authorization: Bearer eyJhbGciOi' -H 'Accept: application/json' -b 'sid=abc'`);
+        assert.deepEqual(JSON.parse(args.auth).basic, { username: 'tom', password: '{{password}}' });
+        assert.deepEqual(JSON.parse(args.headers).map(f => [f.key, f.example]), [['Authorization', 'Bearer {{token}}'], ['Accept', 'application/json']]);
+        assert.deepEqual(JSON.parse(args.cookies).map(f => [f.key, f.example]), [['sid', '{{sid}}']]);
+        assert.ok(warnings.some(w => w.includes('{{password}}')));
+        assert.ok(warnings.some(w => w.includes('headers.Authorization') && w.includes('cookies.sid')));
+    });
+    it('只有用户名时不生成密码占位', () => {
+        const { args, warnings } = convert(`curl https://x.com/me -u tom`);
+        assert.deepEqual(JSON.parse(args.auth).basic, { username: 'tom', password: '' });
+        assert.deepEqual(warnings, []);
+    });
+});
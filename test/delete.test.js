@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { planDelete, buildDeleteConfirmToken } = api;
+
+const items = [
+    { target_id: 'f1', parent_id: '0', target_type: 'folder', name: '用户' },
+    { target_id: 'f2', parent_id: 'f1', target_type: 'folder', name: '地址' },
+    { target_id: 'a1', parent_id: 'f1', target_type: 'api', name: '列表' },
+    { target_id: 'a2', parent_id: 'f2', target_type: 'api', name: '地址列表' },
+    { target_id: 'a3', parent_id: '0', target_type: 'api', name: '健康检查' }
+];
+
+describe('planDelete', () => {
+    it('非递归只包含传入的 ID，未找到的单独返回', () => {
+        const { affected, missing } = planDelete(items, ['f1', 'a3', 'x'], false);
+        assert.deepEqual(affected.map(item => item.target_id), ['f1', 'a3']);
+        assert.deepEqual(missing, ['x']);
+    });
+    it('递归时展开目录子树并去重', () => {
+        const { affected } = planDelete(items, ['f1', 'a2'], true);
+        assert.deepEqual(affected.map(item => item.target_id).sort(), ['a1', 'a2', 'f1', 'f2']);
+    });
+});
+
+describe('buildDeleteConfirmToken', () => {
+    it('与 ID 顺序无关，受影响集合变化时令牌改变', () => {
+        const token = buildDeleteConfirmToken(['a1', 'f1']);
+        assert.equal(token, buildDeleteConfirmToken(['f1', 'a1']));
+        assert.notEqual(token, buildDeleteConfirmToken(['f1']));
+        assert.match(token, /^[0-9a-f]{12}$/);
+    });
+});
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { diffApiSnapshots, buildCreateTemplate, buildUpdateTemplate } = api;
+
+const fields = (list) => JSON.stringify(list);
+
+describe('dry_run 预览差异', () => {
+    const { template: original } = buildCreateTemplate({
+        method: 'GET',
+        url: '/users',
+        name: '用户列表',
+        query: fields([{ key: 'page', type: 'integer', desc: '页码' }, { key: 'size', type: 'integer', desc: '每页条数' }])
+    });
+    it('创建预览相对空快照列出全部内容', () => {
+        const lines = diffApiSnapshots({}, original);
+        assert.ok(lines.includes('~ 名称: (空) → 用户列表'), lines.join('\n'));
+        assert.ok(lines.some(line => line.startsWith('+ Query page')));
+        assert.ok(lines.some(line => line.startsWith('+ Query size')));
+        assert.ok(lines.some(line => line.startsWith('+ 响应 200')));
+    });
+    it('整体替换参数时，被丢弃的字段显示为删除行', () => {
+        const { updateTemplate } = buildUpdateTemplate(original, { query: fields([{ key: 'page', type: 'integer', desc: '页码' }]) });
+        const lines = diffApiSnapshots(original, updateTemplate);
+        assert.deepEqual(lines.filter(line => line.startsWith('- ')), ['- Query size']);
+        assert.equal(updateTemplate.version, (original.version || 0) + 1);
+    });
+    it('未提供的字段保持不变，预览无差异', () => {
+        const { updateTemplate } = buildUpdateTemplate(original, {});
+        assert.deepEqual(diffApiSnapshots(original, updateTemplate), []);
+    });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { generateFolderTemplate, buildFolderUpdateTemplate, analyzeFolderInheritance } = api;
+
+const fields = (list) => JSON.stringify(list);
+
+describe('目录认证与公共参数', () => {
+    it('创建目录时写入认证与公共 Header，未提供认证时继承父级', () => {
+        const folder = generateFolderTemplate('用户', '0', '用户接口', {
+            auth: { type: 'bearer', bearer: { key: '{{token}}' } },
+            headers: [{ key: 'X-Tenant', type: 'string', desc: '租户' }]
+        });
+        assert.equal(folder.request.auth.type, 'bearer');
+        assert.equal(folder.request.auth.bearer.key, '{{token}}');
+        assert.deepEqual(folder.request.header.parameter.map(param => param.key), ['X-Tenant']);
+        assert.equal(generateFolderTemplate('空').request.auth.type, 'inherit');
+        assert.throws(() => generateFolderTemplate('x', '0', '', { auth: { type: 'oauth9' } }), /不支持的认证类型: oauth9/);
+    });
+    it('更新目录时未提供的字段保持不变', () => {
+        const original = { ...generateFolderTemplate('用户', '0', '说明', { headers: [{ key: 'X-Tenant', desc: '租户' }] }), version: 2 };
+        const { updateTemplate, providedFields } = buildFolderUpdateTemplate(original, { query: fields([{ key: 'lang', desc: '语言' }]) });
+        assert.deepEqual([...providedFields], ['query']);
+        assert.equal(updateTemplate.name, '用户');
+        assert.equal(updateTemplate.description, '说明');
+        assert.equal(updateTemplate.version, 3);
+        assert.deepEqual(updateTemplate.request.header.parameter.map(param => param.key), ['X-Tenant']);
+        assert.deepEqual(updateTemplate.request.query.parameter.map(param => param.key), ['lang']);
+        assert.throws(() => buildFolderUpdateTemplate(original, { name: ' ' }), /目录名称不能为空/);
+        assert.throws(() => buildFolderUpdateTemplate(original, { headers: fields([{ key: 'X-A' }]) }), /desc/);
+    });
+});
+
+describe('analyzeFolderInheritance', () => {
+    const folder = { target_id: 'f1', target_type: 'folder', parent_id: '0', request: { header: { parameter: [{ key: 'X-Tenant' }] }, query: { parameter: [{ key: 'lang' }] } } };
+    const items = [
+        folder,
+        { target_id: 'f2', target_type: 'folder', parent_id: 'f1', name: '子目录' },
+        { target_id: 'a1', target_type: 'api', parent_id: 'f1', name: '直接继承' },
+        { target_id: 'a2', target_type: 'api', parent_id: 'f2', name: '子目录认证' },
+        { target_id: 'a3', target_type: 'api', parent_id: 'f2', name: '自身认证' }
+    ];
+    const detailMap = new Map([
+        ['f2', { request: { auth: { type: 'basic' }, query: { parameter: [{ key: 'lang' }] } } }],
+        ['a1', { request: { auth: { type: 'inherit' }, header: { parameter: [{ key: 'x-tenant' }] } } }],
+        ['a2', { request: { auth: { type: 'inherit' } } }],
+        ['a3', { request: { auth: { type: 'bearer' } } }]
+    ]);
+    it('认证取最近的非 inherit 配置，同名参数记为覆盖', () => {
+        const result = analyzeFolderInheritance(folder, items, detailMap);
+        assert.deepEqual(result.map(entry => [entry.api.target_id, entry.authOwner?.target_id ?? null, entry.authType, entry.overrides]), [
+            ['a1', null, null, ['Header X-Tenant']],
+            ['a2', 'f2', 'basic', ['Query lang']],
+            ['a3', 'a3', 'bearer', ['Query lang']]
+        ]);
+    });
+});
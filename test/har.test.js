@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { normalizeHarPath, groupHarEntries, harGroupToApiArgs } = api;
+
+const entry = (method, url, options = {}) => ({
+    request: {
+        method,
+        url,
+        headers: options.headers || [],
+        queryString: options.query || [],
+        cookies: options.cookies || [],
+        postData: options.postData
+    },
+    response: {
+        status: options.status || 200,
+        statusText: 'OK',
+        content: options.response === undefined ? {} : { mimeType: 'application/json', text: JSON.stringify(options.response) }
+    }
+});
+
+describe('normalizeHarPath', () => {
+    it('数字与 UUID 段折叠为路径参数', () => {
+        assert.deepEqual(normalizeHarPath('https://x.com/users/42/orders/3f2504e0-4f89-11d3-9a0c-0305e82c3301?a=1'), {
+            path: '/users/{id}/orders/{id2}',
+            pathValues: ['42', '3f2504e0-4f89-11d3-9a0c-0305e82c3301']
+        });
+        assert.deepEqual(normalizeHarPath('/health'), { path: '/health', pathValues: [] });
+    });
+    it('不完整的 % 编码按原样保留', () => {
+        assert.deepEqual(normalizeHarPath('https://x.com/a/%E0%A4%A/7'), { path: '/a/%E0%A4%A/{id}', pathValues: ['7'] });
+    });
+});
+
+describe('HAR 转接口参数', () => {
+    it('按 方法+路径 分组并合并字段', () => {
+        const groups = groupHarEntries([
+            entry('GET', 'https://x.com/users/1?page=1&q=a', { query: [{ name: 'page', value: '1' }, { name: 'q', value: 'a' }], response: { id: 1, name: 'a' } }),
+            entry('GET', 'https://x.com/users/2?page=2', { query: [{ name: 'page', value: '2' }], response: { id: 2, name: 'b' } }),
+            entry('get', 'https://x.com/users/2', { status: 404, response: { message: 'not found' } }),
+            entry('DELETE', 'https://x.com/users/2')
+        ]);
+        assert.deepEqual(groups.map(group => `${group.method} ${group.path} ${group.entries.length}`), ['GET /users/{id} 3', 'DELETE /users/{id} 1']);
+        const { args, warnings } = harGroupToApiArgs(groups[0]);
+        assert.equal(args.url, '/users/{id}');
+        assert.deepEqual(JSON.parse(args.query).map(field => [field.key, field.required, field.example]), [['page', false, '1'], ['q', false, 'a']]);
+        assert.deepEqual(JSON.parse(args.restful), [{ key: 'id', type: 'integer', required: true, example: 1, desc: '' }]);
+        assert.deepEqual(JSON.parse(args.responses).map(response => [response.status, response.fields.map(field => field.key)]), [[200, ['id', 'name']], [404, ['message']]]);
+        assert.deepEqual(warnings, []);
+        assert.deepEqual(harGroupToApiArgs(groups[1]).warnings, ['未找到 JSON 对象响应，未生成响应示例']);
+    });
+    it('过滤无关请求头，识别表单与 JSON 请求体', () => {
+        const [form] = groupHarEntries([entry('POST', 'https://x.com/login', {
+            headers: [{ name: 'Host', value: 'x.com' }, { name: ':authority', value: 'x.com' }, { name: 'X-Token', value: 't' }],
+            postData: { mimeType: 'application/x-www-form-urlencoded', text: 'user=a&pass=b' }
+        })]);
+        const { args: formArgs } = harGroupToApiArgs(form);
+        assert.deepEqual(JSON.parse(formArgs.headers).map(field => [field.key, field.example]), [['X-Token', '{{X_Token}}']]);
+        assert.equal(formArgs.body_mode, 'urlencoded');
+        assert.deepEqual(JSON.parse(formArgs.body).map(field => [field.key, field.example]), [['user', 'a'], ['pass', 'b']]);
+        const [json] = groupHarEntries([entry('POST', 'https://x.com/users', {
+            postData: { mimeType: 'application/json', text: '{"name":"a","tags":["x"]}' }
+        })]);
+        const { args: jsonArgs } = harGroupToApiArgs(json);
+        assert.equal(jsonArgs.body_mode, undefined);
+        assert.deepEqual(JSON.parse(jsonArgs.body).map(field => field.key), ['name', 'tags', 'tags[]']);
+    });
+    it('凭证类请求头、Cookie 与响应令牌替换为占位变量', () => {
+        const [group] = groupHarEntries([entry('POST', 'https://x.com/login?access_token=abc&page=1', {
+            headers: [{ name: 'Authorization', value: 'Bearer eyJhbGciOi' }, { name: 'X-API-Key', value: 'k-123' }, { name: 'Accept', value: 'application/json' }],
+            query: [{ name: 'access_token', value: 'abc' }, { name: 'page', value: '1' }],
+            cookies: [{ name: 'lang', value: 'zh' }],
+            response: { token: 'secret-token', user: { name: 'a' } }
+        })]);
+        const { args, warnings } = harGroupToApiArgs(group);
+        assert.deepEqual(JSON.parse(args.headers).map(field => field.example), ['Bearer {{token}}', '{{X_API_Key}}', 'application/json']);
+        assert.deepEqual(JSON.parse(args.query).map(field => field.example), ['{{access_token}}', '1']);
+        assert.deepEqual(JSON.parse(args.cookies).map(field => field.example), ['{{lang}}']);
+        assert.equal(JSON.parse(args.responses)[0].fields.find(field => field.key === 'token').example, '{{token}}');
+        assert.equal(warnings.length, 1);
+        assert.match(warnings[0], /headers\.Authorization/);
+    });
+    it('字段描述来自 descriptions，缺失时列出待填写的键', () => {
+        const [group] = groupHarEntries([entry('GET', 'https://x.com/users/1?page=1', { query: [{ name: 'page', value: '1' }], response: { id: 1 } })]);
+        assert.deepEqual(harGroupToApiArgs(group).missing, ['restful.id', 'query.page', 'responses.id']);
+        const { args, missing } = harGroupToApiArgs(group, { 'restful.id': '用户ID', page: '页码', id: 'ID' });
+        assert.deepEqual(missing, []);
+        assert.equal(JSON.parse(args.restful)[0].desc, '用户ID');
+        assert.equal(JSON.parse(args.query)[0].desc, '页码');
+        assert.equal(JSON.parse(args.responses)[0].fields[0].desc, 'ID');
+    });
+});
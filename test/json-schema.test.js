@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { fieldListToJsonSchema, normalizeResponses } = api;
+
+describe('fieldListToJsonSchema', () => {
+    it('按 . 与 [] 还原嵌套对象和数组', () => {
+        const schema = fieldListToJsonSchema([
+            { key: 'user', type: 'object', required: true, desc: '用户' },
+            { key: 'user.name', type: 'string', required: true, desc: '用户名', example: 'tom' },
+            { key: 'user.age', type: 'int', required: false, desc: '年龄' },
+            { key: 'tags[]', type: 'string', desc: '标签' },
+            { key: 'items[].id', type: 'integer', required: true, desc: '条目ID' }
+        ]);
+        assert.deepEqual(schema.required, ['user']);
+        assert.equal(schema.properties.user.type, 'object');
+        assert.equal(schema.properties.user.description, '用户');
+        assert.deepEqual(schema.properties.user.required, ['name']);
+        assert.deepEqual(schema.properties.user.properties.name, { type: 'string', examples: ['tom'], description: '用户名' });
+        assert.equal(schema.properties.user.properties.age.type, 'integer');
+        assert.deepEqual(schema.properties.tags, { type: 'array', items: { type: 'string', description: '标签' } });
+        assert.equal(schema.properties.items.type, 'array');
+        assert.equal(schema.properties.items.items.properties.id.type, 'integer');
+        assert.deepEqual(schema.properties.items.items.required, ['id']);
+    });
+    it('兼容 raw_parameter 结构', () => {
+        const schema = fieldListToJsonSchema([
+            { key: 'id', field_type: 'integer', not_null: 1, description: '主键', value: '1' }
+        ]);
+        assert.deepEqual(schema.required, ['id']);
+        assert.equal(schema.properties.id.type, 'integer');
+        assert.equal(schema.properties.id.description, '主键');
+    });
+    it('数组元素字段必填时数组本身必填', () => {
+        const schema = fieldListToJsonSchema([
+            { key: 'tags[]', type: 'string', required: true, desc: '标签' },
+            { key: 'user', type: 'object', required: false, desc: '用户' },
+            { key: 'user.ids[]', type: 'integer', required: true, desc: 'ID' }
+        ]);
+        assert.deepEqual(schema.required, ['tags']);
+        assert.deepEqual(schema.properties.user.required, ['ids']);
+    });
+    it('非数组输入返回空对象 schema', () => {
+        assert.deepEqual(fieldListToJsonSchema(undefined), { type: 'object', properties: {} });
+    });
+});
+
+describe('normalizeResponses 响应 schema', () => {
+    it('JSON 响应由字段生成对象 schema', () => {
+        const { example } = normalizeResponses([{ fields: [{ key: 'id', type: 'integer', required: true, desc: 'ID' }] }]);
+        assert.equal(example[0].expect.schema.type, 'object');
+        assert.deepEqual(example[0].expect.schema.required, ['id']);
+    });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { normalizeHttpMethod, ensureMethodAllowsBody, buildCreateTemplate, buildUpdateTemplate, buildOpenApiDocument } = api;
+
+describe('normalizeHttpMethod', () => {
+    it('统一大写，允许自定义方法', () => {
+        assert.equal(normalizeHttpMethod(' patch '), 'PATCH');
+        assert.equal(normalizeHttpMethod('purge'), 'PURGE');
+        assert.equal(normalizeHttpMethod('M-SEARCH'), 'M-SEARCH');
+    });
+    it('拒绝空值与非法字符', () => {
+        assert.throws(() => normalizeHttpMethod(''), /无效的HTTP方法/);
+        assert.throws(() => normalizeHttpMethod('GET /x'), /无效的HTTP方法/);
+    });
+});
+
+describe('请求体与方法', () => {
+    it('GET/HEAD 不能携带 Body', () => {
+        assert.throws(() => ensureMethodAllowsBody('HEAD', [{ key: 'a' }]), /HEAD 请求不能携带 Body/);
+        assert.throws(() => ensureMethodAllowsBody('GET', [], 'plain'), /GET 请求不能携带 Body/);
+        assert.doesNotThrow(() => ensureMethodAllowsBody('GET', [], 'none'));
+        assert.doesNotThrow(() => ensureMethodAllowsBody('OPTIONS', [{ key: 'a' }]));
+    });
+    it('HEAD 接口不生成默认响应示例', () => {
+        const { template } = buildCreateTemplate({ method: 'head', url: '/ping', name: '探活' });
+        assert.equal(template.method, 'HEAD');
+        assert.deepEqual(template.response.example, []);
+    });
+    it('改为 GET 时清空原有 Body 并给出提示', () => {
+        const { template: original } = buildCreateTemplate({ method: 'POST', url: '/users', name: '创建用户', body: JSON.stringify([{ key: 'name', type: 'string', desc: '用户名' }]) });
+        const { updateTemplate, warnings } = buildUpdateTemplate(original, { method: 'get' });
+        assert.equal(updateTemplate.method, 'GET');
+        assert.equal(updateTemplate.request.body.mode, 'none');
+        assert.deepEqual(updateTemplate.request.body.raw_parameter, []);
+        assert.deepEqual(warnings, ['方法改为 GET，已清空原有 Body 参数']);
+    });
+});
+
+describe('OpenAPI 导出中的自定义方法', () => {
+    it('跳过 OpenAPI 不支持的方法', () => {
+        const { template } = buildCreateTemplate({ method: 'PURGE', url: '/cache', name: '清缓存' });
+        const { document, skipped } = buildOpenApiDocument([template], [template], 'p');
+        assert.deepEqual(document.paths, {});
+        assert.match(skipped[0], /OpenAPI 不支持自定义方法/);
+    });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { migrateUrlPrefix, planUrlMigration, buildMigrationRecord, buildCreateTemplate } = api;
+
+describe('migrateUrlPrefix', () => {
+    it('旧前缀是新前缀的延伸时仍然迁移', () => {
+        assert.equal(migrateUrlPrefix('{{host}}/v1/x', '{{host}}/v1', '{{host}}'), '{{host}}/x');
+        assert.equal(migrateUrlPrefix('https://api.example.com/v1/x', 'https://api.example.com/v1', 'https://api.example.com'), 'https://api.example.com/x');
+    });
+    it('只在路径段边界匹配前缀', () => {
+        assert.equal(migrateUrlPrefix('/apiary/x', '', '/api'), '/api/apiary/x');
+        assert.equal(migrateUrlPrefix('/api/x', '', '/api'), null);
+        assert.equal(migrateUrlPrefix('/v10/x', '/v1', '/v2'), null);
+        assert.equal(migrateUrlPrefix('/v1?x=1', '/v1', '/v2'), '/v2?x=1');
+    });
+    it('新前缀包含旧前缀时不重复迁移', () => {
+        assert.equal(migrateUrlPrefix('/api/v2/x', '/api', '/api/v2'), null);
+        assert.equal(migrateUrlPrefix('/api/x', '/api', '/api/v2'), '/api/v2/x');
+    });
+    it('from 为空时跳过完整地址与 {{变量}} 主机', () => {
+        assert.equal(migrateUrlPrefix('https://a.com/x', '', '{{host}}'), null);
+        assert.equal(migrateUrlPrefix('{{base}}/x', '', '{{host}}'), null);
+        assert.equal(migrateUrlPrefix('users', '', '{{host}}'), '{{host}}/users');
+    });
+});
+
+describe('URL 前缀迁移计划与记录', () => {
+    const detail = (url, id) => ({ ...buildCreateTemplate({ method: 'GET', url, name: `接口 ${id}` }).template, target_id: id, url, version: 2 });
+    const details = [detail('/api/users', 'a1'), detail('/api/v2/orders', 'a2'), detail('https://x.com/api/ping', 'a3')];
+    it('只为匹配旧前缀的接口生成模板，URL 原样写入', () => {
+        const plans = planUrlMigration(details, '/api', '/api/v2');
+        assert.deepEqual(plans.map(plan => [plan.detail.target_id, plan.url]), [['a1', '/api/v2/users']]);
+        assert.equal(plans[0].template.url, '/api/v2/users');
+        assert.equal(plans[0].template.version, 3);
+        assert.deepEqual(planUrlMigration(details, '', '{{host}}').map(plan => plan.url), ['{{host}}/api/users', '{{host}}/api/v2/orders']);
+    });
+    it('迁移记录只包含修改成功的接口及原 URL', () => {
+        const plans = planUrlMigration(details, '', '{{host}}');
+        const record = buildMigrationRecord('p1', '', '{{host}}', plans, [{ success: true }, { success: false }]);
+        assert.equal(record.project_id, 'p1');
+        assert.equal(record.from_prefix, '');
+        assert.equal(record.to_prefix, '{{host}}');
+        assert.ok(record.migration_id);
+        assert.ok(!Number.isNaN(Date.parse(record.migrated_at)));
+        assert.deepEqual(record.items, [{ target_id: 'a1', name: '接口 a1', method: 'GET', before: '/api/users', after: '{{host}}/api/users' }]);
+    });
+});
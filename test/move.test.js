@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { planMove } = api;
+
+const items = [
+    { target_id: 'f1', target_type: 'folder', parent_id: '0', name: 'A', sort: 1 },
+    { target_id: 'f2', target_type: 'folder', parent_id: 'f1', name: 'B', sort: 1 },
+    { target_id: 'a1', target_type: 'api', parent_id: 'f1', name: 'a1', sort: 2 },
+    { target_id: 'a2', target_type: 'api', parent_id: 'f1', name: 'a2', sort: 3 },
+    { target_id: 'a3', target_type: 'api', parent_id: '0', name: 'a3', sort: 2 }
+];
+
+describe('planMove', () => {
+    it('未指定位置时追加到目标目录末尾，不改动已有兄弟', () => {
+        const { sortUpdates, pathMap } = planMove(items, ['a3'], 'f1');
+        assert.deepEqual([...sortUpdates], [['a3', 4]]);
+        assert.deepEqual(pathMap.get('a3'), ['A', 'a3']);
+    });
+    it('指定位置时插入并重排目标目录', () => {
+        const { sortUpdates } = planMove(items, ['a3'], 'f1', 0);
+        assert.deepEqual([...sortUpdates], [['a3', 1], ['f2', 2], ['a1', 3], ['a2', 4]]);
+    });
+    it('同目录内重排只更新位置变化的项目', () => {
+        const { sortUpdates } = planMove(items, ['a2'], 'f1', 1);
+        assert.deepEqual([...sortUpdates], [['a2', 2], ['a1', 3]]);
+    });
+    it('超出范围的位置放到末尾', () => {
+        const { sortUpdates } = planMove(items, ['a3'], 'f1', 99);
+        assert.deepEqual([...sortUpdates], [['a3', 4]]);
+    });
+    it('拒绝把目录移入自身或子目录', () => {
+        assert.throws(() => planMove(items, ['f1'], 'f2'), /循环引用/);
+        assert.throws(() => planMove(items, ['f1'], 'f1'), /循环引用/);
+    });
+    it('目标不是目录或项目不存在时报错', () => {
+        assert.throws(() => planMove(items, ['a1'], 'a2'), /目标目录不存在或不是目录/);
+        assert.throws(() => planMove(items, ['x'], '0'), /未找到要移动的项目 \(ID: x\)/);
+    });
+});
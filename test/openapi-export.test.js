@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { buildOpenApiDocument, generateApiTemplate } = api;
+
+const detail = (id, parentId, method, url, config = {}) => ({
+    ...generateApiTemplate(method, url, `${method} ${url}`, config),
+    target_id: id,
+    parent_id: parentId
+});
+
+describe('buildOpenApiDocument', () => {
+    const folders = [
+        { target_id: 'f1', target_type: 'folder', parent_id: '0', name: '用户', description: '用户相关' },
+        { target_id: 'f2', target_type: 'folder', parent_id: 'f1', name: '地址' }
+    ];
+    it('目录路径转为标签，URL 去掉前缀并转为 OpenAPI 路径', () => {
+        const apis = [
+            detail('a1', 'f1', 'GET', '/users/:id', {
+                restful: [{ key: 'id', type: 'integer', example: '1', desc: '用户ID' }],
+                query: [{ key: 'fields', type: 'string', required: true, desc: '返回字段' }],
+                headers: [{ key: 'X-Trace', type: 'string', desc: '追踪ID' }]
+            }),
+            detail('a2', 'f2', 'POST', '/users/{id}/addresses', { body: [{ key: 'city', type: 'string', desc: '城市' }] }),
+            detail('a3', '0', 'GET', '/health')
+        ];
+        const { document, skipped } = buildOpenApiDocument(apis, [...folders, ...apis], '示例项目');
+        assert.equal(document.openapi, '3.1.0');
+        assert.equal(document.info.title, '示例项目');
+        assert.equal(document.servers, undefined);
+        assert.deepEqual(document.tags, [{ name: '用户', description: '用户相关' }, { name: '用户 / 地址' }]);
+        assert.deepEqual(Object.keys(document.paths), ['/users/{id}', '/users/{id}/addresses', '/health']);
+        const get = document.paths['/users/{id}'].get;
+        assert.deepEqual(get.tags, ['用户']);
+        assert.equal(get['x-apipost-target-id'], 'a1');
+        assert.deepEqual(get.parameters.map(param => [param.in, param.name, param.required, param.schema.type]), [
+            ['path', 'id', true, 'integer'],
+            ['query', 'fields', true, 'string'],
+            ['header', 'X-Trace', false, 'string']
+        ]);
+        assert.ok(document.paths['/users/{id}/addresses'].post.requestBody.content['application/json']);
+        assert.equal(document.paths['/health'].get.tags, undefined);
+        assert.deepEqual(skipped, []);
+    });
+    it('请求体字段列表还原为嵌套 schema', () => {
+        const post = detail('a1', '0', 'POST', '/orders', {
+            body: [
+                { key: 'items', type: 'array', required: true, desc: '商品' },
+                { key: 'items[].sku', type: 'string', required: true, desc: 'SKU' },
+                { key: 'note', type: 'string', desc: '备注' }
+            ]
+        });
+        const { document } = buildOpenApiDocument([post], [post], 'p');
+        const schema = document.paths['/orders'].post.requestBody.content['application/json'].schema;
+        assert.deepEqual(schema.required, ['items']);
+        assert.equal(schema.properties.items.type, 'array');
+        assert.deepEqual(schema.properties.items.items.properties.sku, { type: 'string', description: 'SKU' });
+        assert.deepEqual(schema.properties.note, { type: 'string', description: '备注' });
+    });
+    it('相同路径与方法的接口只导出第一个', () => {
+        const apis = [detail('a1', '0', 'GET', '/ping'), detail('a2', '0', 'GET', '/ping')];
+        const { document, skipped } = buildOpenApiDocument(apis, apis, 'p');
+        assert.equal(document.paths['/ping'].get['x-apipost-target-id'], 'a1');
+        assert.equal(skipped.length, 1);
+        assert.match(skipped[0], /\(a2\)/);
+    });
+    it('没有响应示例时生成 default 响应', () => {
+        const bare = { ...detail('a1', '0', 'GET', '/bare'), response: { example: [] } };
+        const { document } = buildOpenApiDocument([bare], [bare], 'p');
+        assert.deepEqual(document.paths['/bare'].get.responses, { default: { description: '未定义响应' } });
+    });
+});
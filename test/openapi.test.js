@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { extractOpenApiOperations, generateApiTemplate } = api;
+
+describe('extractOpenApiOperations', () => {
+    it('OpenAPI 3.x：解析参数、$ref 请求体与响应', () => {
+        const spec = {
+            openapi: '3.0.3',
+            servers: [{ url: '/api' }],
+            components: {
+                schemas: {
+                    User: {
+                        type: 'object',
+                        required: ['name'],
+                        properties: {
+                            name: { type: 'string', description: '用户名', example: 'tom' },
+                            tags: { type: 'array', items: { type: 'string' }, description: '标签' }
+                        }
+                    }
+                }
+            },
+            paths: {
+                '/users/{id}': {
+                    parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' }, description: '用户ID' }],
+                    put: {
+                        summary: '修改用户',
+                        tags: ['用户'],
+                        parameters: [
+                            { name: 'X-Trace', in: 'header', schema: { type: 'string' }, description: '追踪ID' },
+                            { name: 'dry', in: 'query', schema: { type: 'boolean' }, description: '仅校验' }
+                        ],
+                        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+                        responses: {
+                            200: { description: '成功', content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+                            204: { description: '无内容' }
+                        }
+                    }
+                }
+            }
+        };
+        const [operation] = extractOpenApiOperations(spec);
+        assert.equal(operation.method, 'PUT');
+        assert.equal(operation.url, '/api/users/{id}');
+        assert.equal(operation.name, '修改用户');
+        assert.equal(operation.tag, '用户');
+        assert.deepEqual(operation.config.restful.map(field => [field.key, field.type, field.required]), [['id', 'integer', true]]);
+        assert.deepEqual(operation.config.headers.map(field => field.key), ['X-Trace']);
+        assert.deepEqual(operation.config.query.map(field => [field.key, field.type]), [['dry', 'boolean']]);
+        const name = operation.config.body.find(field => field.key === 'name');
+        assert.equal(name.required, true);
+        assert.equal(name.desc, '用户名');
+        assert.ok(operation.config.body.some(field => field.key === 'tags'));
+        assert.equal(operation.config.responses.length, 1);
+        assert.equal(operation.config.responses[0].status, 200);
+    });
+    it('Swagger 2.0：basePath 与 formData 参数', () => {
+        const spec = {
+            swagger: '2.0',
+            basePath: '/v2/',
+            paths: {
+                '/upload': {
+                    post: {
+                        operationId: 'upload',
+                        parameters: [
+                            { name: 'file', in: 'formData', type: 'file', required: true, description: '文件' },
+                            { name: 'note', in: 'formData', type: 'string', description: '备注' }
+                        ],
+                        responses: { 200: { description: 'OK', schema: { type: 'object', properties: { ok: { type: 'boolean' } } } } }
+                    }
+                }
+            }
+        };
+        const [operation] = extractOpenApiOperations(spec);
+        assert.equal(operation.url, '/v2/upload');
+        assert.equal(operation.name, 'upload');
+        assert.deepEqual(operation.config.body.map(field => [field.key, field.type]), [['file', 'file'], ['note', 'string']]);
+        assert.equal(operation.config.body_mode, 'form-data');
+        assert.deepEqual(operation.config.responses[0].fields.map(field => field.key), ['ok']);
+    });
+    it('OpenAPI 3.x 表单请求体设置 Body 模式，binary 属性转为文件字段', () => {
+        const formSpec = (contentType) => ({
+            openapi: '3.0.0',
+            paths: {
+                '/avatar': {
+                    post: {
+                        summary: '上传头像',
+                        requestBody: {
+                            content: {
+                                [contentType]: {
+                                    schema: {
+                                        type: 'object',
+                                        properties: {
+                                            avatar: { type: 'string', format: 'binary', description: '头像' },
+                                            alt: { type: 'string', description: '说明' }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        responses: {}
+                    }
+                }
+            }
+        });
+        const [multipart] = extractOpenApiOperations(formSpec('multipart/form-data'));
+        assert.equal(multipart.config.body_mode, 'form-data');
+        assert.deepEqual(multipart.config.body.map(field => [field.key, field.type]), [['avatar', 'file'], ['alt', 'string']]);
+        const template = generateApiTemplate(multipart.method, multipart.url, multipart.name, multipart.config);
+        assert.equal(template.request.body.mode, 'form-data');
+        assert.deepEqual(template.request.body.parameter.map(param => param.field_type), ['file', 'string']);
+        const [urlencoded] = extractOpenApiOperations(formSpec('application/x-www-form-urlencoded'));
+        assert.equal(urlencoded.config.body_mode, 'urlencoded');
+        assert.deepEqual(urlencoded.config.body.map(field => field.type), ['string', 'string']);
+    });
+    it('非 JSON 响应保留内容类型，非对象根节点给出提示', () => {
+        const spec = {
+            openapi: '3.1.0',
+            paths: {
+                '/export': {
+                    get: {
+                        summary: '导出',
+                        requestBody: { content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } } },
+                        responses: { 200: { description: 'CSV', content: { 'text/csv': { example: 'id,name' } } } }
+                    }
+                }
+            }
+        };
+        const [operation] = extractOpenApiOperations(spec);
+        assert.deepEqual(operation.config.responses, [{ name: 'CSV', status: 200, content_type: 'text/csv', headers: [], example: 'id,name' }]);
+        assert.equal(operation.config.body.length, 0);
+        assert.equal(operation.warnings.length, 1);
+    });
+});
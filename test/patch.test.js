@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { parsePatchOperations, applyFieldPatch, applyUpdatePatches, generateApiTemplate, buildApiConfig } = api;
+
+const fields = [
+    { key: 'user', type: 'object', required: true, desc: '用户' },
+    { key: 'user.name', type: 'string', required: true, desc: '姓名' },
+    { key: 'items', type: 'array', required: false, desc: '条目' },
+    { key: 'items[].id', type: 'integer', required: true, desc: '条目ID' },
+    { key: 'note', type: 'string', required: false, desc: '备注' }
+];
+const keys = (list) => list.map(field => field.key);
+
+describe('parsePatchOperations', () => {
+    it('校验 op、section、key 与 desc', () => {
+        assert.equal(parsePatchOperations('[{"op":"remove","section":"body","key":"a"}]').length, 1);
+        assert.throws(() => parsePatchOperations('{'), /不是有效的 JSON/);
+        assert.throws(() => parsePatchOperations('[]'), /非空数组/);
+        assert.throws(() => parsePatchOperations('[{"op":"drop","section":"body","key":"a"}]'), /op 必须是/);
+        assert.throws(() => parsePatchOperations('[{"op":"add","section":"body","key":"a"}]'), /缺少 desc/);
+        assert.throws(() => parsePatchOperations('[{"op":"modify","section":"body","key":"a","desc":""}]'), /不能把 a 的 desc 改为空/);
+        assert.throws(() => parsePatchOperations('[{"op":"rename","section":"query","key":"a"}]'), /需要提供 to/);
+        assert.throws(() => parsePatchOperations('[{"op":"remove","section":"responses","key":"a"}]'), /response 指定/);
+    });
+});
+
+describe('applyFieldPatch', () => {
+    it('新增字段插入到同级字段之后', () => {
+        const patched = applyFieldPatch(fields, { op: 'add', key: 'user.age', type: 'integer', desc: '年龄' }, 'body');
+        assert.deepEqual(keys(patched), ['user', 'user.name', 'user.age', 'items', 'items[].id', 'note']);
+        assert.throws(() => applyFieldPatch(fields, { op: 'add', key: 'note', desc: 'x' }, 'body'), /已存在字段 note/);
+    });
+    it('删除与重命名连同子字段', () => {
+        assert.deepEqual(keys(applyFieldPatch(fields, { op: 'remove', key: 'items' }, 'body')), ['user', 'user.name', 'note']);
+        assert.deepEqual(keys(applyFieldPatch(fields, { op: 'rename', key: 'user', to: 'member' }, 'body')), ['member', 'member.name', 'items', 'items[].id', 'note']);
+        assert.throws(() => applyFieldPatch(fields, { op: 'rename', key: 'user', to: 'note' }, 'body'), /已存在字段 note/);
+    });
+    it('修改只覆盖提供的属性', () => {
+        const [, name] = applyFieldPatch(fields, { op: 'modify', key: 'user.name', required: false }, 'body');
+        assert.deepEqual(name, { key: 'user.name', type: 'string', required: false, desc: '姓名' });
+        assert.throws(() => applyFieldPatch(fields, { op: 'modify', key: 'missing', desc: 'x' }, 'body'), /不存在字段 missing/);
+    });
+});
+
+describe('applyUpdatePatches', () => {
+    it('补丁后重新生成 Body 与响应的 raw、schema', () => {
+        const { config } = buildApiConfig({
+            body: JSON.stringify(fields.slice(0, 2)),
+            responses: JSON.stringify([{ name: '成功', fields: [{ key: 'ok', type: 'boolean', desc: '是否成功' }] }])
+        });
+        const template = generateApiTemplate('POST', '/users', '创建用户', config);
+        const { request, response } = applyUpdatePatches(template.request, template.response, [
+            { op: 'add', section: 'body', key: 'user.age', type: 'integer', desc: '年龄', example: 18 },
+            { op: 'rename', section: 'responses', response: '成功', key: 'ok', to: 'success' }
+        ]);
+        assert.deepEqual(JSON.parse(request.body.raw), { user: { name: '', age: 18 } });
+        assert.equal(request.body.raw_schema.properties.user.properties.age.type, 'integer');
+        const [example] = response.example;
+        assert.equal(example.expect.name, '成功');
+        assert.deepEqual(Object.keys(example.expect.schema.properties), ['success']);
+        assert.deepEqual(Object.keys(JSON.parse(example.expect.mock)), ['success']);
+    });
+});
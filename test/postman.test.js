@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { buildApiConfig, generateApiTemplate, postmanRequestToApi, apiToPostmanItem } = api;
+
+describe('Postman 导入导出往返', () => {
+    const roundTrip = (rawUrl) => {
+        const converted = postmanRequestToApi({ name: 'u', request: { method: 'GET', url: { raw: rawUrl, variable: [{ key: 'id', description: '用户ID' }] } } });
+        const template = generateApiTemplate(converted.method, converted.url, converted.name, converted.config);
+        return apiToPostmanItem(template).request.url.raw;
+    };
+    it('保留 {{baseUrl}} 主机', () => {
+        assert.equal(roundTrip('{{baseUrl}}/users/:id'), '{{baseUrl}}/users/:id');
+    });
+    it('保留完整地址', () => {
+        assert.equal(roundTrip('https://api.x.com/v1/users'), 'https://api.x.com/v1/users');
+    });
+    it('相对路径添加 APIPOST_URL_PREFIX', () => {
+        assert.equal(roundTrip('/users'), '{{host}}/users');
+    });
+});
+
+describe('apiToPostmanItem 响应', () => {
+    it('预览语言按响应内容类型选择', () => {
+        const { config } = buildApiConfig({
+            responses: JSON.stringify([
+                { name: 'JSON', status: 200, fields: [{ key: 'id', type: 'integer', desc: 'ID' }] },
+                { name: 'XML', status: 200, content_type: 'application/xml', example: '<a/>' },
+                { name: 'HTML', status: 200, content_type: 'text/html; charset=utf-8', example: '<p>ok</p>' },
+                { name: 'CSV', status: 200, content_type: 'text/csv', example: 'id,name' }
+            ])
+        });
+        const item = apiToPostmanItem(generateApiTemplate('GET', '/export', '导出', config));
+        assert.deepEqual(item.response.map(response => response._postman_previewlanguage), ['json', 'xml', 'html', 'text']);
+        assert.deepEqual(item.response[1].header, [{ key: 'Content-Type', value: 'application/xml' }]);
+    });
+});
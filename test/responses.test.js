@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { normalizeResponses, buildApiConfig } = api;
+
+describe('响应头与内容类型', () => {
+    it('响应头写入 headers，状态码与名称按顺序生成', () => {
+        const { example } = normalizeResponses([
+            { status: 201, headers: [{ key: 'Location', type: 'string', desc: '新资源地址' }], fields: [{ key: 'id', type: 'integer', desc: 'ID' }] },
+            { status: 404, fields: [{ key: 'message', type: 'string', desc: '错误信息' }] }
+        ]);
+        assert.deepEqual(example.map(item => [item.expect.code, item.expect.name, item.expect.is_default]), [['201', '成功响应', 1], ['404', '响应2', -1]]);
+        assert.deepEqual(example[0].headers.map(header => [header.key, header.description]), [['Location', '新资源地址']]);
+        assert.deepEqual(example[1].headers, []);
+    });
+    it('非 JSON 响应即使有字段也按字符串校验', () => {
+        for (const contentType of ['text/csv', 'text/event-stream', 'application/xml']) {
+            const { example } = normalizeResponses([{ content_type: contentType, fields: [{ key: 'id', type: 'integer', desc: 'ID' }] }]);
+            assert.deepEqual(example[0].expect.schema, { type: 'string' }, contentType);
+            assert.equal(example[0].raw_parameter.length, 1);
+        }
+    });
+    it('非 JSON 响应由字段生成对应格式的示例，或直接使用 example', () => {
+        const raw = (contentType, extra = {}) => normalizeResponses([{ content_type: contentType, fields: [{ key: 'id', type: 'integer', example: 1, desc: 'ID' }, { key: 'name', type: 'string', example: 'a,b', desc: '名称' }], ...extra }]).example[0].raw;
+        assert.equal(raw('text/csv'), 'id,name\n1,"a,b"');
+        assert.equal(raw('text/event-stream'), 'event: message\ndata: {"id":1,"name":"a,b"}\n\n');
+        assert.equal(raw('text/plain'), 'id: 1\nname: a,b');
+        assert.equal(raw('text/plain', { example: 'pong' }), 'pong');
+        const { example } = normalizeResponses([{ content_type: 'text/plain', example: 'pong' }]);
+        assert.equal(example[0].expect.mock, 'pong');
+    });
+    it('校验响应头描述与 example 的使用范围', () => {
+        const responses = (list) => ({ responses: JSON.stringify(list) });
+        assert.throws(() => buildApiConfig(responses([{ fields: [{ key: 'id', desc: 'ID' }], headers: [{ key: 'X-Rate' }] }])), /responses\[0\]\.headers/);
+        assert.throws(() => buildApiConfig(responses([{ fields: [{ key: 'id', desc: 'ID' }], example: '{}' }])), /仅用于非 JSON 响应/);
+        assert.throws(() => buildApiConfig(responses([{ status: 200 }])), /responses\[0\] 未提供 fields/);
+        assert.doesNotThrow(() => buildApiConfig(responses([{ content_type: 'text/plain', example: 'ok' }])));
+    });
+});
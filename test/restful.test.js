@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { extractPathVariables, resolveRestfulParams } = api;
+
+describe('extractPathVariables', () => {
+    it('识别 {id} 与 :id，按出现顺序去重', () => {
+        assert.deepEqual(extractPathVariables('/users/{userId}/orders/:orderId?id=1'), ['userId', 'orderId']);
+        assert.deepEqual(extractPathVariables('/a/{id}/b/{id}'), ['id']);
+    });
+    it('忽略 {{变量}}、域名端口与查询参数', () => {
+        assert.deepEqual(extractPathVariables('{{host}}/users/{id}'), ['id']);
+        assert.deepEqual(extractPathVariables('http://localhost:8080/health?from=:x'), []);
+    });
+});
+
+describe('resolveRestfulParams', () => {
+    it('按 URL 中的顺序返回，默认必填', () => {
+        const params = resolveRestfulParams('/users/{uid}/orders/{oid}', [
+            { key: 'oid', type: 'string', desc: '订单ID' },
+            { key: 'uid', type: 'integer', desc: '用户ID', required: false }
+        ]);
+        assert.deepEqual(params.map(param => [param.key, param.required]), [['uid', false], ['oid', true]]);
+    });
+    it('URL 中的变量缺少 desc 时报错并给出示例', () => {
+        assert.throws(() => resolveRestfulParams('/users/{id}', []), /路径参数 id 缺少 desc/);
+        assert.throws(() => resolveRestfulParams('/users/{id}', [{ key: 'id', type: 'string' }]), /缺少 desc/);
+    });
+    it('声明了 URL 中不存在的参数时报错', () => {
+        assert.throws(() => resolveRestfulParams('/users', [{ key: 'id', desc: 'ID' }]), /restful 中的参数 id 不在 URL 中/);
+    });
+    it('没有路径参数时返回空列表', () => {
+        assert.deepEqual(resolveRestfulParams('/health', undefined), []);
+    });
+});
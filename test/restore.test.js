@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { isIdConflictError } = api;
+
+describe('isIdConflictError', () => {
+    it('识别 ID 已占用的错误', () => {
+        assert.equal(isIdConflictError('target_id already exists'), true);
+        assert.equal(isIdConflictError('ID 已存在'), true);
+        assert.equal(isIdConflictError('duplicate key for id'), true);
+    });
+    it('其他错误不视为 ID 冲突', () => {
+        assert.equal(isIdConflictError('没有权限'), false);
+        assert.equal(isIdConflictError('名称已存在'), false);
+        assert.equal(isIdConflictError('parent_id not found'), false);
+        assert.equal(isIdConflictError(undefined), false);
+    });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { diffApiSnapshots, buildRevertTemplate, buildCreateTemplate } = api;
+
+const fields = (list) => JSON.stringify(list);
+const { template: base } = buildCreateTemplate({
+    method: 'POST',
+    url: '/users',
+    name: '创建用户',
+    parent_id: 'f1',
+    headers: fields([{ key: 'X-Trace', type: 'string', desc: '追踪ID' }]),
+    body: fields([{ key: 'name', type: 'string', required: true, desc: '用户名' }, { key: 'age', type: 'integer', desc: '年龄' }]),
+    responses: fields([{ status: 200, fields: [{ key: 'id', type: 'integer', desc: 'ID' }] }])
+});
+
+describe('diffApiSnapshots', () => {
+    it('相同快照没有差异', () => {
+        assert.deepEqual(diffApiSnapshots(base, structuredClone(base)), []);
+    });
+    it('列出基本信息、参数与响应的字段级差异', () => {
+        const { template: changed } = buildCreateTemplate({
+            method: 'PUT',
+            url: '/users',
+            name: '修改用户',
+            parent_id: 'f1',
+            auth: JSON.stringify({ type: 'bearer', bearer: { key: '{{token}}' } }),
+            body: fields([{ key: 'name', type: 'string', required: false, desc: '姓名' }, { key: 'email', type: 'string', desc: '邮箱' }]),
+            responses: fields([{ status: 201, fields: [{ key: 'id', type: 'integer', desc: 'ID' }] }])
+        });
+        const lines = diffApiSnapshots(base, changed);
+        assert.ok(lines.includes('~ 名称: 创建用户 → 修改用户'), lines.join('\n'));
+        assert.ok(lines.includes('~ 方法: POST → PUT'));
+        assert.ok(lines.includes('~ 认证: inherit → bearer'));
+        assert.ok(lines.some(line => line.startsWith('- Header X-Trace')));
+        assert.ok(lines.some(line => line.startsWith('~ Body name:') && line.includes('用户名') && line.includes('姓名')));
+        assert.ok(lines.some(line => line.startsWith('+ Body email')));
+        assert.ok(lines.some(line => line.startsWith('- Body age')));
+        assert.ok(lines.includes('+ 响应 201 成功响应'));
+        assert.ok(lines.includes('- 响应 200 成功响应'));
+    });
+});
+
+describe('buildRevertTemplate', () => {
+    it('用修订内容覆盖线上接口，保留目录位置并递增线上版本', () => {
+        const live = { ...structuredClone(base), name: '已改名', parent_id: 'f2', version: 5, request: { ...base.request, header: { parameter: [] } } };
+        const template = buildRevertTemplate(live, { ...structuredClone(base), parent_id: 'f1', version: 2 });
+        assert.equal(template.name, '创建用户');
+        assert.equal(template.parent_id, 'f2');
+        assert.equal(template.version, 6);
+        assert.deepEqual(template.request.header, base.request.header);
+        assert.deepEqual(diffApiSnapshots(live, template), ['~ 名称: 已改名 → 创建用户', '+ Header X-Trace (string): 追踪ID']);
+    });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { scanRoutesInSource } = api;
+
+const scan = (code) => scanRoutesInSource(code, 'app.ts').map(route => `${route.method} ${route.path}`);
+
+describe('scanRoutesInSource', () => {
+    it('识别 Express 与 Koa prefix', () => {
+        const code = `
+const userRouter = new Router({ prefix: '/users' });
+app.get('/health', handler);
+userRouter.post('/:id', handler);
+axios.get('/not-a-route');
+`;
+        assert.deepEqual(scan(code), ['GET /health', 'POST /users/:id']);
+    });
+    it('忽略字符串与注释中的路由', () => {
+        const code = `
+const doc = "app.get('/in-string')";
+const tpl = \`router.post('/in-template')\`;
+// app.put('/in-comment')
+/* app.delete('/in-block') */
+app.get('/real', handler);
+`;
+        assert.deepEqual(scan(code), ['GET /real']);
+    });
+    it('支持 router.route() 链式写法与 app.all', () => {
+        const code = `
+router.route('/users/:id')
+    .get((req, res) => res.json(find(req.params.id)))
+    .put(update);
+app.all('/proxy', forward);
+`;
+        assert.deepEqual(scan(code), ['GET /users/:id', 'PUT /users/:id', 'ALL /proxy']);
+    });
+    it('支持 NestJS 数组路径', () => {
+        const code = `
+@Controller('orders')
+export class OrdersController {
+    @Patch(['a', 'b'])
+    async patchBoth() {}
+
+    @Get()
+    list() {}
+}
+`;
+        const routes = scanRoutesInSource(code, 'orders.controller.ts');
+        assert.deepEqual(routes.map(route => `${route.method} ${route.path}`), ['PATCH /orders/a', 'PATCH /orders/b', 'GET /orders']);
+        assert.equal(routes[0].handler, 'patchBoth');
+        assert.equal(routes[2].handler, 'list');
+        assert.equal(routes[0].line, 4);
+    });
+});
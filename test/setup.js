@@ -0,0 +1,10 @@
+// 测试共用：在导入服务端模块前设置必需的环境变量，本地数据写入临时目录
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.APIPOST_TOKEN ||= 'test-token';
+process.env.APIPOST_URL_PREFIX ??= '{{host}}';
+process.env.APIPOST_STORAGE_DIR ||= fs.mkdtempSync(path.join(os.tmpdir(), 'apipost-mcp-test-'));
+
+export default await import('../dist/index.js');
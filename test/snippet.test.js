@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { toGoStringLiteral, SNIPPET_RENDERERS } = api;
+
+const goRequest = (bodyText) => ({ method: 'POST', url: 'https://x.com/a', headers: [], bodyText });
+
+describe('Go 代码片段', () => {
+    it('普通请求体使用反引号原始字符串', () => {
+        assert.ok(SNIPPET_RENDERERS.go(goRequest('{"a":1}')).includes('strings.NewReader(`{"a":1}`)'));
+    });
+    it('包含反引号或 \\r 时改用双引号字面量', () => {
+        const code = SNIPPET_RENDERERS.go(goRequest('say `hi`\r\n'));
+        assert.ok(code.includes('strings.NewReader("say `hi`\\r\\n")'));
+        assert.ok(!code.includes('strings.NewReader(`'));
+    });
+    it('toGoStringLiteral 与 strconv.Quote 转义一致', () => {
+        assert.equal(toGoStringLiteral('a"b\\c'), '"a\\"b\\\\c"');
+        assert.equal(toGoStringLiteral('\t\n\x07\x00\x7f'), '"\\t\\n\\a\\x00\\x7f"');
+        assert.equal(toGoStringLiteral('中文😀'), '"中文😀"');
+        assert.equal(toGoStringLiteral(' '), '"\\u2028"');
+        assert.equal(toGoStringLiteral('x\ud800y'), '"x�y"');
+    });
+});
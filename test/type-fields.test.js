@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { typeDeclarationToFields } = api;
+
+const summarize = (fields) => fields.map(field => `${field.key}:${field.type}${field.required ? '!' : ''}`);
+
+describe('typeDeclarationToFields', () => {
+    it('interface：JSDoc 作为描述，可选标记决定 required，展开引用类型', () => {
+        const code = `
+interface Address {
+    /** 城市 */
+    city: string;
+}
+export interface CreateUserDto {
+    /** 用户名 */
+    name: string;
+    /** 年龄 */
+    age?: number;
+    tags: string[];
+    address: Address;
+}
+`;
+        const result = typeDeclarationToFields(code, 'CreateUserDto');
+        assert.equal(result.kind, 'interface');
+        assert.deepEqual(summarize(result.fields), ['name:string!', 'age:number', 'tags:array!', 'tags[]:string', 'address:object!', 'address.city:string!']);
+        assert.equal(result.fields[0].desc, '用户名');
+        assert.deepEqual(result.undocumented, ['tags', 'tags[]', 'address']);
+        assert.equal(result.fields.find(field => field.key === 'address').desc, '');
+    });
+    it('没有注释的字段 desc 取自 descriptions，不使用字段名', () => {
+        const code = `interface Item { /** 名称 */ name: string; count: number; }`;
+        assert.deepEqual(typeDeclarationToFields(code, 'Item').fields.map(field => field.desc), ['名称', '']);
+        const result = typeDeclarationToFields(code, 'Item', { count: '数量' });
+        assert.deepEqual(result.fields.map(field => field.desc), ['名称', '数量']);
+        assert.deepEqual(result.undocumented, []);
+    });
+    it('联合类型：字面量转为枚举示例，| undefined 视为可选，| null 仍必填', () => {
+        const code = `
+type Status = 'on' | 'off';
+interface Device {
+    status: Status;
+    kind: 'a' | 'b' | null;
+    value: string | number;
+    note: string | undefined;
+    owner?: string | null;
+}
+`;
+        const result = typeDeclarationToFields(code, 'Device');
+        assert.deepEqual(summarize(result.fields), ['status:string!', 'kind:string!', 'value:string!', 'note:string', 'owner:string']);
+        assert.equal(result.fields[0].example, 'on');
+        assert.deepEqual(result.warnings, ['联合类型包含 2 个分支，字段按第一个分支展开']);
+    });
+    it('泛型：类型参数按实参展开，支持默认参数与嵌套泛型', () => {
+        const code = `
+interface Page<T> { items: T[]; total: number; }
+interface User { id: number; name: string }
+interface Result<T, E = number> { data: T; error?: E; }
+type UserPage = Page<User>;
+type UserResult = Result<Page<User>>;
+`;
+        assert.deepEqual(summarize(typeDeclarationToFields(code, 'UserPage').fields), ['items:array!', 'items[].id:number!', 'items[].name:string!', 'total:number!']);
+        assert.deepEqual(summarize(typeDeclarationToFields(code, 'UserResult').fields), [
+            'data:object!', 'data.items:array!', 'data.items[].id:number!', 'data.items[].name:string!', 'data.total:number!', 'error:number'
+        ]);
+    });
+    it('嵌套数组与 readonly 数组', () => {
+        const code = `interface Matrix { grid: number[][]; labels: readonly string[]; rows: Array<{ id: number }>; }`;
+        const result = typeDeclarationToFields(code, 'Matrix');
+        assert.deepEqual(summarize(result.fields), ['grid:array!', 'grid[]:array', 'labels:array!', 'labels[]:string', 'rows:array!', 'rows[].id:number!']);
+        assert.deepEqual(result.warnings, ['grid[] 为嵌套数组，字段列表无法表示内层元素，未展开']);
+    });
+    it('class：跳过静态成员、构造函数与方法', () => {
+        const code = `
+export class CreateOrderDto {
+    static readonly version = 1;
+    /** 商品ID */
+    @IsInt() productId!: number;
+    @IsOptional() remark?: string;
+    constructor(partial?: Partial<CreateOrderDto>) {}
+    toJSON(): object { return {}; }
+}
+`;
+        assert.deepEqual(summarize(typeDeclarationToFields(code, 'CreateOrderDto').fields), ['productId:integer!', 'remark:string']);
+    });
+    it('zod schema：optional() 决定 required，describe() 作为描述', () => {
+        const code = `
+import { z } from 'zod';
+export const UserSchema = z.object({
+    id: z.number().int().describe('用户ID'),
+    email: z.string().email().optional(),
+    roles: z.array(z.object({ name: z.string() }))
+});
+`;
+        const result = typeDeclarationToFields(code, 'UserSchema');
+        assert.equal(result.kind, 'zod');
+        assert.deepEqual(summarize(result.fields), ['id:integer!', 'email:string', 'roles:array!', 'roles[].name:string!']);
+        assert.equal(result.fields[0].desc, '用户ID');
+    });
+    it('zod：extend/merge/pick/omit/partial 与 nullable/nullish/default', () => {
+        const code = `
+import { z } from 'zod';
+const Base = z.object({ id: z.number().int() });
+const User = Base.extend({
+    name: z.string().nullable(),
+    email: z.string().nullish(),
+    age: z.number().optional().nullable(),
+    lang: z.string().default('zh'),
+    tags: z.array(z.array(z.string())),
+    role: z.enum(['admin', 'user'])
+});
+const Patch = z.object({ a: z.string() }).extend({ b: z.number() }).merge(z.object({ c: z.boolean() })).partial();
+const Picked = z.object({ a: z.string(), b: z.number() }).pick({ a: true });
+const Omitted = z.object({ a: z.string(), b: z.number() }).omit({ a: true }).strict();
+`;
+        const user = typeDeclarationToFields(code, 'User');
+        assert.deepEqual(summarize(user.fields), ['id:integer!', 'name:string!', 'email:string', 'age:number', 'lang:string', 'tags:array!', 'tags[]:array', 'role:string!']);
+        assert.equal(user.fields.find(field => field.key === 'role').example, 'admin');
+        assert.deepEqual(summarize(typeDeclarationToFields(code, 'Patch').fields), ['a:string', 'b:number', 'c:boolean']);
+        assert.deepEqual(summarize(typeDeclarationToFields(code, 'Picked').fields), ['a:string!']);
+        assert.deepEqual(summarize(typeDeclarationToFields(code, 'Omitted').fields), ['b:number!']);
+    });
+    it('找不到类型时列出可用类型', () => {
+        assert.throws(() => typeDeclarationToFields('interface A { x: string }', 'B'), /可用的类型: A/);
+    });
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import api from './setup.js';
+
+const { applyUrlPrefix, generateApiTemplate, extractOpenApiOperations, toOpenApiPath } = api;
+
+describe('applyUrlPrefix', () => {
+    it('为相对路径添加前缀', () => {
+        assert.equal(applyUrlPrefix('/users'), '{{host}}/users');
+        assert.equal(applyUrlPrefix('users'), '{{host}}/users');
+    });
+    it('已带前缀、完整地址或 {{变量}} 主机的 URL 保持原样', () => {
+        assert.equal(applyUrlPrefix('{{host}}/users'), '{{host}}/users');
+        assert.equal(applyUrlPrefix('https://api.x.com/v1/users'), 'https://api.x.com/v1/users');
+        assert.equal(applyUrlPrefix('{{baseUrl}}/users/:id'), '{{baseUrl}}/users/:id');
+    });
+});
+
+describe('OpenAPI 导入', () => {
+    it('绝对 servers 地址只保留路径，且只添加一次前缀', () => {
+        const spec = {
+            openapi: '3.0.0',
+            servers: [{ url: 'https://api.x.com/v1' }],
+            paths: { '/users': { get: { summary: '用户列表', responses: {} } } }
+        };
+        const [operation] = extractOpenApiOperations(spec);
+        assert.equal(operation.url, '/v1/users');
+        const template = generateApiTemplate(operation.method, operation.url, operation.name, operation.config);
+        assert.equal(template.url, '{{host}}/v1/users');
+        assert.equal(toOpenApiPath(template.url), '/v1/users');
+    });
+});